@@ -1,5 +1,5 @@
 // React & Three.js
-import React, { useState, Suspense, useMemo, useCallback, useRef, useEffect } from 'react';
+import React, { Suspense, useMemo, useCallback, useRef, useEffect } from 'react';
 import { Canvas } from '@react-three/fiber';
 import { Loader } from '@react-three/drei';
 
@@ -8,89 +8,20 @@ import { Experience } from './components/Experience';
 import { GestureUI } from './components/GestureUI';
 
 // Types & Constants
-import { AppState, InteractionMode } from './types';
 import { CAMERA_POSITION_DESKTOP, CAMERA_POSITION_MOBILE, CAMERA_FOV } from './constants';
-
-// LocalStorage keys
-const STORAGE_KEYS = {
-  USER_PHOTOS: 'celestial-tree-user-photos',
-  USER_GIFTS: 'celestial-tree-user-gifts',
-};
+import { sceneStore, sceneStorePersistence } from './utils/sceneStore';
+import { applySharedSceneFromUrl } from './utils/shareLink';
 
 const App: React.FC = () => {
-  // State Management with localStorage initialization
-  const [appState, setAppState] = useState<AppState>(AppState.TREE_SHAPE);
-  const [interactionMode, setInteractionMode] = useState<InteractionMode>(InteractionMode.IDLE);
-  
-  // Initialize from localStorage
-  const [userPhotos, setUserPhotos] = useState<string[]>(() => {
-    try {
-      const saved = localStorage.getItem(STORAGE_KEYS.USER_PHOTOS);
-      if (saved) {
-        const photos = JSON.parse(saved);
-        console.log(`📂 Loaded ${photos.length} photo(s) from localStorage`);
-        return photos;
-      }
-      console.log('📂 No saved photos found');
-      return [];
-    } catch (error) {
-      console.error('❌ Failed to load photos from localStorage:', error);
-      return [];
-    }
-  });
-  
-  const [userGiftMessages, setUserGiftMessages] = useState<string[]>(() => {
-    try {
-      const saved = localStorage.getItem(STORAGE_KEYS.USER_GIFTS);
-      if (saved) {
-        const gifts = JSON.parse(saved);
-        console.log(`🎁 Loaded ${gifts.length} gift(s) from localStorage`);
-        return gifts;
-      }
-      console.log('🎁 No saved gifts found');
-      return [];
-    } catch (error) {
-      console.error('❌ Failed to load gifts from localStorage:', error);
-      return [];
-    }
-  });
-
-  // Persist userPhotos to localStorage whenever it changes
-  useEffect(() => {
-    try {
-      if (userPhotos.length > 0) {
-        const dataStr = JSON.stringify(userPhotos);
-        const sizeInMB = (dataStr.length / 1024 / 1024).toFixed(2);
-        console.log(`💾 Saving ${userPhotos.length} photos to localStorage (${sizeInMB}MB)`);
-        localStorage.setItem(STORAGE_KEYS.USER_PHOTOS, dataStr);
-        console.log('✅ Photos saved successfully');
-      } else {
-        localStorage.removeItem(STORAGE_KEYS.USER_PHOTOS);
-        console.log('🗑️ Photos cleared from localStorage');
-      }
-    } catch (error) {
-      console.error('❌ Failed to save photos to localStorage:', error);
-      if (error instanceof DOMException && error.name === 'QuotaExceededError') {
-        alert('照片太大了！请选择较小的图片或减少图片数量。\n\nTip: localStorage 限制约 5-10MB');
-      }
-    }
-  }, [userPhotos]);
+  // Scene state, user data and its persistence live in the scene store (utils/sceneStore.ts)
 
-  // Persist userGiftMessages to localStorage whenever it changes
+  // Restore a tree from a shared link (on load, and when a link is pasted into this tab)
   useEffect(() => {
-    try {
-      if (userGiftMessages.length > 0) {
-        console.log(`🎁 Saving ${userGiftMessages.length} gifts to localStorage`);
-        localStorage.setItem(STORAGE_KEYS.USER_GIFTS, JSON.stringify(userGiftMessages));
-        console.log('✅ Gifts saved successfully');
-      } else {
-        localStorage.removeItem(STORAGE_KEYS.USER_GIFTS);
-        console.log('🗑️ Gifts cleared from localStorage');
-      }
-    } catch (error) {
-      console.error('❌ Failed to save gifts to localStorage:', error);
-    }
-  }, [userGiftMessages]);
+    const restore = () => { applySharedSceneFromUrl(sceneStore, sceneStorePersistence.giftsRestored); };
+    restore();
+    window.addEventListener('hashchange', restore);
+    return () => window.removeEventListener('hashchange', restore);
+  }, []);
 
   // Canvas container ref for screenshot
   const canvasContainerRef = useRef<HTMLDivElement>(null);
@@ -101,11 +32,6 @@ const App: React.FC = () => {
     return isMobile ? CAMERA_POSITION_MOBILE : CAMERA_POSITION_DESKTOP;
   }, []);
 
-  // Update photos handler - no need to cleanup blob URLs since we're using base64
-  const handlePhotosUpload = useCallback((newPhotos: string[]) => {
-    setUserPhotos(newPhotos);
-  }, []);
-
   // Screenshot function
   const takeScreenshot = useCallback(() => {
     if (!canvasContainerRef.current) return;
@@ -176,12 +102,7 @@ const App: React.FC = () => {
         }}
       >
         <Suspense fallback={null}>
-          <Experience 
-            appState={appState} 
-            interactionMode={interactionMode} 
-            userPhotos={userPhotos}
-            userGiftMessages={userGiftMessages}
-          />
+          <Experience initialCameraPosition={cameraPosition} />
         </Suspense>
       </Canvas>
 
@@ -194,16 +115,7 @@ const App: React.FC = () => {
       />
 
       {/* UI Overlay / Gesture Simulation */}
-      <GestureUI 
-        appState={appState} 
-        setAppState={setAppState}
-        interactionMode={interactionMode}
-        setInteractionMode={setInteractionMode}
-        onUserPhotosUpload={handlePhotosUpload}
-        onUserGiftsUpdate={setUserGiftMessages}
-        userGiftMessages={userGiftMessages}
-        onScreenshot={takeScreenshot}
-      />
+      <GestureUI onScreenshot={takeScreenshot} />
 
     </div>
   );
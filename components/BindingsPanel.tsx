@@ -0,0 +1,261 @@
+// React
+import React, { useRef, useState } from 'react';
+
+// Types & Utils
+import { Gesture, SceneAction, BindingMode, ActionBinding, BindingMap } from '../types';
+import {
+  SCENE_ACTIONS,
+  BINDING_MODES,
+  CONTROL_BUTTONS,
+  ACTION_LABELS,
+  GESTURE_LABELS,
+  GAMEPAD_BUTTON_LABELS,
+  DEFAULT_BINDINGS,
+  parseBindings,
+} from '../utils/actionBindings';
+
+interface BindingsPanelProps {
+  bindings: BindingMap;
+  onSave: (bindings: BindingMap) => void;
+  onClose: () => void;
+}
+
+const MODE_LABELS: Record<BindingMode, string> = {
+  trigger: 'Trigger',
+  toggle: 'Toggle',
+  hold: 'Hold',
+};
+
+const selectClass = "px-2 py-1.5 rounded-lg font-['Lato'] text-xs text-white bg-white/5 border border-white/10 focus:border-white/30 outline-none";
+
+/**
+ * Describe a key for display (e.g. " " -> "Space")
+ */
+const keyLabel = (key: string): string => {
+  if (key === ' ') return 'Space';
+  return key.length === 1 ? key.toUpperCase() : key.charAt(0).toUpperCase() + key.slice(1);
+};
+
+// Single binding editor row
+const BindingRow: React.FC<{
+  label: string;
+  binding: ActionBinding | undefined;
+  onChange: (binding: ActionBinding) => void;
+  onRemove?: () => void;
+}> = ({ label, binding, onChange, onRemove }) => {
+  const current = binding ?? { action: SceneAction.NONE, mode: 'trigger' as BindingMode };
+  return (
+    <div className="flex gap-2 items-center">
+      <span className="flex-1 font-['Lato'] text-sm text-white/70 truncate">{label}</span>
+      <select
+        value={current.action}
+        onChange={(e) => onChange({ ...current, action: e.target.value as SceneAction })}
+        className={selectClass}
+      >
+        {SCENE_ACTIONS.map(action => (
+          <option key={action} value={action} className="bg-black">{ACTION_LABELS[action]}</option>
+        ))}
+      </select>
+      <select
+        value={current.mode}
+        onChange={(e) => onChange({ ...current, mode: e.target.value as BindingMode })}
+        disabled={current.action === SceneAction.NONE}
+        className={`${selectClass} disabled:opacity-30`}
+      >
+        {BINDING_MODES.map(mode => (
+          <option key={mode} value={mode} className="bg-black">{MODE_LABELS[mode]}</option>
+        ))}
+      </select>
+      {onRemove && (
+        <button
+          onClick={onRemove}
+          className="w-7 h-7 flex items-center justify-center rounded-lg text-white/40 hover:text-white/80 hover:bg-white/10 transition-all duration-200"
+          title="Remove"
+        >
+          ×
+        </button>
+      )}
+    </div>
+  );
+};
+
+/**
+ * Settings panel for editing the gesture/button/key to action bindings
+ * Edits a local copy; changes apply on Save. Bindings can be exported/imported as JSON.
+ */
+export const BindingsPanel: React.FC<BindingsPanelProps> = ({ bindings, onSave, onClose }) => {
+  const [draft, setDraft] = useState<BindingMap>(bindings);
+  const [capturingKey, setCapturingKey] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const exportBindings = () => {
+    const blob = new Blob([JSON.stringify(draft, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'celestial-tree-bindings.json';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      file.text()
+        .then((text) => {
+          setDraft(parseBindings(JSON.parse(text)));
+          setError(null);
+        })
+        .catch((err) => setError(err instanceof Error ? err.message : String(err)));
+    }
+    if (e.target) e.target.value = '';
+  };
+
+  const captureKey = (e: React.KeyboardEvent) => {
+    e.preventDefault();
+    const key = e.key.toLowerCase();
+    setDraft(prev => ({ ...prev, keys: { ...prev.keys, [key]: prev.keys[key] ?? { action: SceneAction.NONE, mode: 'trigger' } } }));
+    setCapturingKey(false);
+  };
+
+  const sectionTitle = (title: string) => (
+    <p className="text-white/40 text-[10px] font-['Lato'] uppercase tracking-widest pt-4 pb-1">{title}</p>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 pointer-events-auto" style={{
+      background: 'rgba(0,0,0,0.85)',
+      backdropFilter: 'blur(12px)'
+    }}>
+      <div className="w-full max-w-lg flex flex-col max-h-[85vh] rounded-3xl overflow-hidden" style={{
+        background: 'rgba(0,0,0,0.6)',
+        border: '1px solid rgba(255,255,255,0.1)',
+        boxShadow: '0 25px 50px rgba(0,0,0,0.5)'
+      }}>
+        <div className="p-8 pb-4">
+          <h2 className="text-3xl font-['Playfair_Display'] text-white mb-2 text-center">
+            Controls
+          </h2>
+          <p className="text-white/40 text-sm font-['Lato'] text-center">
+            Choose what each gesture, button, key and gamepad button does
+          </p>
+          {error && (
+            <p className="mt-3 text-rose-400 text-xs font-['Lato'] text-center">{error}</p>
+          )}
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-8 pb-6 space-y-2">
+          {sectionTitle('Gestures')}
+          {Object.values(Gesture).map(gesture => (
+            <BindingRow
+              key={gesture}
+              label={GESTURE_LABELS[gesture]}
+              binding={draft.gestures[gesture]}
+              onChange={(binding) => setDraft(prev => ({ ...prev, gestures: { ...prev.gestures, [gesture]: binding } }))}
+            />
+          ))}
+
+          {sectionTitle('On-screen Buttons')}
+          {CONTROL_BUTTONS.map(button => (
+            <BindingRow
+              key={button}
+              label={`${button.charAt(0).toUpperCase()}${button.slice(1)} button`}
+              binding={draft.buttons[button]}
+              onChange={(binding) => setDraft(prev => ({ ...prev, buttons: { ...prev.buttons, [button]: binding } }))}
+            />
+          ))}
+
+          {sectionTitle('Keyboard')}
+          {Object.keys(draft.keys).map(key => (
+            <BindingRow
+              key={key}
+              label={keyLabel(key)}
+              binding={draft.keys[key]}
+              onChange={(binding) => setDraft(prev => ({ ...prev, keys: { ...prev.keys, [key]: binding } }))}
+              onRemove={() => setDraft(prev => {
+                const keys = { ...prev.keys };
+                delete keys[key];
+                return { ...prev, keys };
+              })}
+            />
+          ))}
+          {capturingKey ? (
+            <input
+              autoFocus
+              readOnly
+              onKeyDown={captureKey}
+              onBlur={() => setCapturingKey(false)}
+              placeholder="Press a key…"
+              className="w-full px-4 py-2 rounded-xl font-['Lato'] text-white placeholder-white/50 text-sm bg-white/10 border border-white/30 outline-none"
+            />
+          ) : (
+            <button
+              onClick={() => setCapturingKey(true)}
+              className="w-full py-2 rounded-xl font-['Lato'] text-xs text-white/60 hover:text-white border border-white/10 hover:border-white/20 hover:bg-white/5 transition-all duration-200"
+            >
+              + Add key
+            </button>
+          )}
+
+          {sectionTitle('Gamepad')}
+          {Object.keys(GAMEPAD_BUTTON_LABELS).map(button => (
+            <BindingRow
+              key={button}
+              label={GAMEPAD_BUTTON_LABELS[button]}
+              binding={draft.gamepad[button]}
+              onChange={(binding) => setDraft(prev => ({ ...prev, gamepad: { ...prev.gamepad, [button]: binding } }))}
+            />
+          ))}
+          <p className="text-white/30 text-[10px] font-['Lato'] pt-1">
+            Arrow keys and the left stick orbit the camera; the right stick zooms.
+          </p>
+        </div>
+
+        <div className="px-8 pb-8 space-y-3">
+          <input
+            type="file"
+            ref={importInputRef}
+            onChange={handleImport}
+            accept="application/json,.json"
+            style={{ display: 'none' }}
+          />
+          <div className="flex gap-3">
+            <button
+              onClick={() => importInputRef.current?.click()}
+              className="flex-1 py-2 rounded-xl font-['Lato'] text-xs text-white/60 hover:text-white border border-white/10 hover:border-white/20 hover:bg-white/5 transition-all duration-200"
+            >
+              Import JSON
+            </button>
+            <button
+              onClick={exportBindings}
+              className="flex-1 py-2 rounded-xl font-['Lato'] text-xs text-white/60 hover:text-white border border-white/10 hover:border-white/20 hover:bg-white/5 transition-all duration-200"
+            >
+              Export JSON
+            </button>
+            <button
+              onClick={() => { setDraft(DEFAULT_BINDINGS); setError(null); }}
+              className="flex-1 py-2 rounded-xl font-['Lato'] text-xs text-white/40 hover:text-white/70 hover:bg-white/5 transition-all duration-200"
+            >
+              Defaults
+            </button>
+          </div>
+          <div className="flex gap-3">
+            <button
+              onClick={onClose}
+              className="flex-1 py-3 rounded-xl font-['Lato'] text-sm text-white/60 hover:text-white hover:bg-white/5 transition-all duration-200"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={() => onSave(draft)}
+              className="flex-1 py-3 rounded-xl font-['Lato'] text-sm font-medium bg-white text-black hover:bg-white/90 transition-all duration-200"
+            >
+              Save
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
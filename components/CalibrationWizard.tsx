@@ -0,0 +1,205 @@
+// React
+import React, { useEffect, useRef, useState } from 'react';
+
+// Types & Utils
+import { Gesture, HandFrame } from '../types';
+import { GestureThresholds, DEFAULT_GESTURE_THRESHOLDS } from '../utils/gestureRecognizer';
+import {
+  CALIBRATION_POSES,
+  CALIBRATION_SAMPLES_PER_POSE,
+  CalibrationPose,
+  CalibrationSamples,
+  measureCalibrationSample,
+  deriveThresholds,
+} from '../utils/gestureCalibration';
+
+interface CalibrationWizardProps {
+  /** Thresholds currently in use */
+  thresholds: GestureThresholds;
+  /** Register a listener for raw hand frames; returns an unsubscribe function */
+  subscribeToFrames: (listener: (frame: HandFrame) => void) => () => void;
+  onSave: (thresholds: GestureThresholds) => void;
+  onReset: () => void;
+  onClose: () => void;
+}
+
+// Instructions for each pose
+const POSE_INSTRUCTIONS: Record<CalibrationPose, { emoji: string; title: string; description: string }> = {
+  [Gesture.OPEN]: { emoji: "✋", title: "Open Hand", description: "Spread all five fingers wide and hold still." },
+  [Gesture.FIST]: { emoji: "✊", title: "Closed Fist", description: "Close your hand into a fist and hold still." },
+  [Gesture.PINCH]: { emoji: "🤏", title: "Pinch", description: "Touch your thumb and index fingertips, keep the other fingers relaxed." },
+};
+
+const emptySamples = (): CalibrationSamples => ({
+  [Gesture.OPEN]: [],
+  [Gesture.FIST]: [],
+  [Gesture.PINCH]: [],
+});
+
+/**
+ * Calibration wizard - asks the user to hold each pose, measures their
+ * landmark distances and derives personalized gesture thresholds
+ */
+export const CalibrationWizard: React.FC<CalibrationWizardProps> = ({
+  thresholds,
+  subscribeToFrames,
+  onSave,
+  onReset,
+  onClose
+}) => {
+  // -1 = intro, 0..n-1 = capturing pose, n = results
+  const [step, setStep] = useState(-1);
+  const [progress, setProgress] = useState(0);
+  const [handVisible, setHandVisible] = useState(false);
+  const [derived, setDerived] = useState<GestureThresholds | null>(null);
+  const samplesRef = useRef<CalibrationSamples>(emptySamples());
+
+  const pose = step >= 0 && step < CALIBRATION_POSES.length ? CALIBRATION_POSES[step] : null;
+
+  // Capture samples for the current pose
+  useEffect(() => {
+    if (!pose) return;
+    samplesRef.current[pose] = [];
+    setProgress(0);
+
+    return subscribeToFrames((frame) => {
+      const landmarks = frame.landmarks[0];
+      setHandVisible(!!landmarks);
+      if (!landmarks) return;
+
+      const samples = samplesRef.current[pose];
+      if (samples.length >= CALIBRATION_SAMPLES_PER_POSE) return;
+      samples.push(measureCalibrationSample(landmarks));
+      setProgress(samples.length / CALIBRATION_SAMPLES_PER_POSE);
+
+      if (samples.length === CALIBRATION_SAMPLES_PER_POSE) {
+        const next = step + 1;
+        if (next === CALIBRATION_POSES.length) {
+          setDerived(deriveThresholds(samplesRef.current));
+        }
+        setStep(next);
+      }
+    });
+  }, [pose, step, subscribeToFrames]);
+
+  const start = () => {
+    samplesRef.current = emptySamples();
+    setDerived(null);
+    setStep(0);
+  };
+
+  const formatRow = (label: string, current: number, next?: number) => (
+    <div className="flex justify-between font-['Lato'] text-sm py-1">
+      <span className="text-white/50">{label}</span>
+      <span className="text-white/80 tabular-nums">
+        {current.toFixed(3)}{next !== undefined && <> → <span className="text-[#FFD700]">{next.toFixed(3)}</span></>}
+      </span>
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 pointer-events-auto" style={{
+      background: 'rgba(0,0,0,0.85)',
+      backdropFilter: 'blur(12px)'
+    }}>
+      <div className="w-full max-w-md flex flex-col rounded-3xl overflow-hidden" style={{
+        background: 'rgba(0,0,0,0.6)',
+        border: '1px solid rgba(255,255,255,0.1)',
+        boxShadow: '0 25px 50px rgba(0,0,0,0.5)'
+      }}>
+        <div className="p-8 text-center">
+          <h2 className="text-3xl font-['Playfair_Display'] text-white mb-2">
+            Calibrate Gestures
+          </h2>
+
+          {/* Intro */}
+          {step === -1 && (
+            <>
+              <p className="text-white/60 text-sm font-['Lato'] leading-relaxed mb-6">
+                Stand where you normally would and hold each pose in front of the camera
+                until the bar fills. Your thresholds are saved on this device.
+              </p>
+              {formatRow("Pinch distance", thresholds.pinchDistance)}
+              {formatRow("Thumb extended", thresholds.thumbExtendedDistance)}
+              {formatRow("Finger extension", thresholds.fingerExtensionMultiplier)}
+            </>
+          )}
+
+          {/* Capturing */}
+          {pose && (
+            <>
+              <p className="text-white/50 text-xs font-['Lato'] uppercase tracking-wider mb-4">
+                Step {step + 1} of {CALIBRATION_POSES.length}
+              </p>
+              <div className="text-7xl mb-4">{POSE_INSTRUCTIONS[pose].emoji}</div>
+              <p className="text-white/90 font-['Playfair_Display'] text-xl mb-1">{POSE_INSTRUCTIONS[pose].title}</p>
+              <p className="text-white/60 text-sm font-['Lato'] mb-6">{POSE_INSTRUCTIONS[pose].description}</p>
+              <div className="h-1.5 rounded-full bg-white/10 overflow-hidden">
+                <div className="h-full bg-[#FFD700] transition-all duration-100" style={{ width: `${progress * 100}%` }} />
+              </div>
+              <p className="text-white/40 text-xs font-['Lato'] mt-3">
+                {handVisible ? 'Hold still…' : 'Show your hand to the camera'}
+              </p>
+            </>
+          )}
+
+          {/* Results */}
+          {derived && step === CALIBRATION_POSES.length && (
+            <>
+              <p className="text-white/60 text-sm font-['Lato'] mb-6">Your personalized thresholds:</p>
+              {formatRow("Pinch distance", thresholds.pinchDistance, derived.pinchDistance)}
+              {formatRow("Thumb extended", thresholds.thumbExtendedDistance, derived.thumbExtendedDistance)}
+              {formatRow("Finger extension", thresholds.fingerExtensionMultiplier, derived.fingerExtensionMultiplier)}
+            </>
+          )}
+        </div>
+
+        <div className="px-8 pb-8 space-y-3">
+          {step === -1 && (
+            <button
+              onClick={start}
+              className="w-full py-3 rounded-xl font-['Lato'] text-sm font-medium bg-white text-black hover:bg-white/90 transition-all duration-200"
+            >
+              Start
+            </button>
+          )}
+          {derived && step === CALIBRATION_POSES.length && (
+            <div className="flex gap-3">
+              <button
+                onClick={start}
+                className="flex-1 py-3 rounded-xl font-['Lato'] text-sm text-white/60 hover:text-white border border-white/10 hover:border-white/20 hover:bg-white/5 transition-all duration-200"
+              >
+                Retry
+              </button>
+              <button
+                onClick={() => onSave(derived)}
+                className="flex-1 py-3 rounded-xl font-['Lato'] text-sm font-medium bg-white text-black hover:bg-white/90 transition-all duration-200"
+              >
+                Save
+              </button>
+            </div>
+          )}
+          <div className="flex gap-3">
+            <button
+              onClick={onReset}
+              disabled={
+                thresholds.pinchDistance === DEFAULT_GESTURE_THRESHOLDS.pinchDistance &&
+                thresholds.thumbExtendedDistance === DEFAULT_GESTURE_THRESHOLDS.thumbExtendedDistance &&
+                thresholds.fingerExtensionMultiplier === DEFAULT_GESTURE_THRESHOLDS.fingerExtensionMultiplier
+              }
+              className="flex-1 py-3 rounded-xl font-['Lato'] text-sm text-white/40 hover:text-white/70 hover:bg-white/5 transition-all duration-200 disabled:opacity-30"
+            >
+              Reset to defaults
+            </button>
+            <button
+              onClick={onClose}
+              className="flex-1 py-3 rounded-xl font-['Lato'] text-sm text-white/60 hover:text-white hover:bg-white/5 transition-all duration-200"
+            >
+              Close
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
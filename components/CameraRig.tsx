@@ -0,0 +1,133 @@
+// React
+import React, { useRef } from 'react';
+
+// Three.js & React Three Fiber
+import * as THREE from 'three';
+import { useFrame, useThree } from '@react-three/fiber';
+
+// Types & Constants
+import { CameraInput, CameraPose } from '../types';
+import { CAMERA_MIN_DISTANCE, CAMERA_MAX_DISTANCE } from '../constants';
+
+interface CameraRigProps {
+  cameraInput: React.MutableRefObject<CameraInput>;
+  /** Receives the current viewpoint every frame */
+  cameraPose: React.MutableRefObject<CameraPose>;
+  initialPosition: [number, number, number];
+}
+
+// Subset of drei's OrbitControls we drive
+type OrbitControlsLike = { target: THREE.Vector3; update: () => void };
+
+// Reuse objects to avoid GC
+const offset = new THREE.Vector3();
+
+const spherical = new THREE.Spherical();
+
+const RESET_SPEED = 3;
+const RESET_EPSILON = 0.01;
+const STEER_SMOOTHING = 2.5; // Lower = heavier, smoother steering
+const STEER_MAX_AZIMUTH = Math.PI; // Full sweep around the tree
+const STEER_POLAR_RANGE = 0.5; // Radians above/below the horizon
+const ORBIT_SPEED = 1.5; // Radians per second at full key / stick deflection
+
+/**
+ * Shortest signed difference between two angles
+ */
+const angleDelta = (from: number, to: number): number => {
+  return Math.atan2(Math.sin(to - from), Math.cos(to - from));
+};
+
+/**
+ * Applies continuous camera input (hand zoom, steering, orbit, reset, fly-to) to the default OrbitControls
+ * Renders nothing; works on whatever controls were registered with `makeDefault`
+ */
+export const CameraRig: React.FC<CameraRigProps> = ({ cameraInput, cameraPose, initialPosition }) => {
+  const controls = useThree((state) => state.controls) as unknown as OrbitControlsLike | null;
+  // Viewpoint the camera is flying to (reset or shared link), null while free
+  const flightRef = useRef<{ position: THREE.Vector3; target: THREE.Vector3 } | null>(null);
+
+  useFrame((state, delta) => {
+    if (!controls) return;
+    const input = cameraInput.current;
+    const camera = state.camera;
+
+    // Publish the viewpoint (as of the previous frame) for shared links
+    camera.position.toArray(cameraPose.current.position);
+    controls.target.toArray(cameraPose.current.target);
+
+    // --- 1. Fly to a viewpoint (reset to the initial one, or one from a shared link) ---
+    if (input.resetRequested) {
+      input.resetRequested = false;
+      flightRef.current = { position: new THREE.Vector3(...initialPosition), target: new THREE.Vector3(0, 0, 0) };
+    }
+    if (input.moveTo) {
+      flightRef.current = { position: new THREE.Vector3(...input.moveTo.position), target: new THREE.Vector3(...input.moveTo.target) };
+      input.moveTo = null;
+    }
+    const flight = flightRef.current;
+    if (flight) {
+      camera.position.lerp(flight.position, THREE.MathUtils.clamp(delta * RESET_SPEED, 0, 1));
+      controls.target.lerp(flight.target, THREE.MathUtils.clamp(delta * RESET_SPEED, 0, 1));
+      if (camera.position.distanceTo(flight.position) < RESET_EPSILON) {
+        flightRef.current = null;
+      }
+      input.zoomDelta = 0;
+      controls.update();
+      return;
+    }
+
+    // --- 2. Analog steering (palm position -> orbit angles, hand size -> distance) ---
+    if (input.steer) {
+      const { x, y, zoom } = input.steer;
+      const t = THREE.MathUtils.clamp(delta * STEER_SMOOTHING, 0, 1);
+      offset.copy(camera.position).sub(controls.target);
+      spherical.setFromVector3(offset);
+
+      const targetTheta = x * STEER_MAX_AZIMUTH;
+      const targetPhi = Math.PI / 2 + y * STEER_POLAR_RANGE;
+      const targetRadius = THREE.MathUtils.lerp(CAMERA_MAX_DISTANCE, CAMERA_MIN_DISTANCE, zoom);
+
+      spherical.theta += angleDelta(spherical.theta, targetTheta) * t;
+      spherical.phi = THREE.MathUtils.lerp(spherical.phi, targetPhi, t);
+      spherical.radius = THREE.MathUtils.lerp(spherical.radius, targetRadius, t);
+      spherical.makeSafe();
+
+      camera.position.copy(controls.target).add(offset.setFromSpherical(spherical));
+      input.zoomDelta = 0;
+      controls.update();
+      return;
+    }
+
+    // --- 3. Orbit (rate-based, from keys / gamepad stick) ---
+    if (input.orbit.x !== 0 || input.orbit.y !== 0) {
+      offset.copy(camera.position).sub(controls.target);
+      spherical.setFromVector3(offset);
+      spherical.theta -= input.orbit.x * ORBIT_SPEED * delta;
+      spherical.phi = THREE.MathUtils.clamp(
+        spherical.phi + input.orbit.y * ORBIT_SPEED * delta,
+        Math.PI / 2 - STEER_POLAR_RANGE,
+        Math.PI / 2 + STEER_POLAR_RANGE
+      );
+      spherical.makeSafe();
+      camera.position.copy(controls.target).add(offset.setFromSpherical(spherical));
+      controls.update();
+    }
+
+    // --- 4. Zoom (dolly along the view direction) ---
+    if (input.zoomDelta !== 0) {
+      offset.copy(camera.position).sub(controls.target);
+      const distance = THREE.MathUtils.clamp(
+        offset.length() * (1 - input.zoomDelta),
+        CAMERA_MIN_DISTANCE,
+        CAMERA_MAX_DISTANCE
+      );
+      offset.setLength(distance);
+      camera.position.copy(controls.target).add(offset);
+      input.zoomDelta = 0;
+      controls.update();
+    }
+  });
+
+  return null;
+};
@@ -7,11 +7,9 @@ import { useFrame } from '@react-three/fiber';
 
 // Types & Utils
 import { AppState } from '../types';
-import { getSpherePosition } from '../utils/coordinates';
-
-interface DecorationsProps {
-  appState: AppState;
-}
+import { FORMATIONS, getFormationPosition } from '../utils/formations';
+import { useSceneStore, selectAppState, selectFormationContext, selectSeed } from '../utils/sceneStore';
+import { createRandom, deriveSeed } from '../utils/random';
 
 // Reuse objects to avoid GC
 const dummy = new THREE.Object3D();
@@ -20,12 +18,6 @@ const tempPos = new THREE.Vector3();
 // Constants for performance
 const BAUBLES_COUNT = 150;
 const SPIRAL_LIGHTS_COUNT = 400;
-const TREE_HEIGHT = 12;
-const BASE_RADIUS = 4.5;
-const SPIRAL_HEIGHT = 13;
-const SPIRAL_BASE_RADIUS = 5.0;
-const SPIRAL_TURNS = 8;
-const SPIRAL_START_OFFSET = (1/3) / SPIRAL_TURNS;
 
 // Color palettes
 const BAUBLE_COLORS = [
@@ -42,7 +34,8 @@ const BAUBLE_COLORS = [
 const UNIFIED_LIGHT_COLOR = new THREE.Color('#FFF8E7');
 
 // --- STAR TOPPER COMPONENT ---
-const StarTopper: React.FC<{ appState: AppState }> = ({ appState }) => {
+const StarTopper: React.FC = () => {
+  const appState = useSceneStore(selectAppState);
   const meshRef = useRef<THREE.Mesh>(null);
   const lightRef = useRef<THREE.PointLight>(null);
   
@@ -81,11 +74,9 @@ const StarTopper: React.FC<{ appState: AppState }> = ({ appState }) => {
     if (!meshRef.current) return;
     const time = state.clock.elapsedTime;
     
-    // 1. Position Logic
-    const treePos = new THREE.Vector3(0, 5.5, 0); 
-    const scatterPos = new THREE.Vector3(0, 10, 0); 
-    const target = appState === AppState.TREE_SHAPE ? treePos : scatterPos;
-    meshRef.current.position.lerp(target, delta * 2);
+    // 1. Position Logic (each formation decides where the star rests)
+    const { topper } = FORMATIONS[appState];
+    meshRef.current.position.lerp(topper.position, delta * 2);
     
     // 2. Rotation Logic (Refined)
     // Removed fast spin. Now it's a slow, majestic float.
@@ -112,8 +103,8 @@ const StarTopper: React.FC<{ appState: AppState }> = ({ appState }) => {
       lightRef.current.distance = 10 + pulse * 2; // Subtle breathing of light radius
     }
 
-    // Stabilize scale (no wobbly size)
-    meshRef.current.scale.setScalar(1.0); 
+    // Grow or shrink smoothly to the formation's size (no wobble)
+    meshRef.current.scale.setScalar(THREE.MathUtils.lerp(meshRef.current.scale.x, topper.scale, delta * 2));
   });
 
   return (
@@ -144,65 +135,36 @@ const StarTopper: React.FC<{ appState: AppState }> = ({ appState }) => {
 };
 
 // --- BAUBLES (ORNAMENTS) COMPONENT ---
-const Baubles: React.FC<{ appState: AppState }> = ({ appState }) => {
+const Baubles: React.FC = () => {
+  const appState = useSceneStore(selectAppState);
+  const formationContext = useSceneStore(selectFormationContext);
+  const seed = useSceneStore(selectSeed);
   const meshRef = useRef<THREE.InstancedMesh>(null);
 
-  // 1. Static Props (Color, Scale, Phase) - Computed ONCE
+  // 1. Static Props (Color, Scale, Phase) - Computed once per seed
   const staticData = useMemo(() => {
+    const random = createRandom(deriveSeed(seed, 'baubles'));
     const data = [];
     
     for (let i = 0; i < BAUBLES_COUNT; i++) {
       data.push({
-        scale: Math.random() * 0.1 + 0.1, // Small scale 0.1-0.2
-        color: BAUBLE_COLORS[Math.floor(Math.random() * BAUBLE_COLORS.length)],
-        phase: Math.random() * Math.PI * 2,
+        scale: random() * 0.1 + 0.1, // Small scale 0.1-0.2
+        color: BAUBLE_COLORS[Math.floor(random() * BAUBLE_COLORS.length)],
+        phase: random() * Math.PI * 2,
       });
     }
     return data;
-  }, []);
+  }, [seed]);
 
-  // 2. Targets - Computed whenever appState changes to reshuffle positions
+  // 2. Targets - Computed whenever appState changes (the same seed gives the same placement)
   const targets = useMemo(() => {
+    const random = createRandom(deriveSeed(seed, 'baubles', appState));
     const data = [];
-
     for (let i = 0; i < BAUBLES_COUNT; i++) {
-      // RANDOMIZATION LOGIC:
-      // Regenerate fresh positions every time state changes.
-      
-      const u = Math.random();
-      const y = TREE_HEIGHT * (1 - Math.sqrt(u)); // Uniform vertical density
-
-      // Perfect surface radius
-      const rSurface = (1 - y / TREE_HEIGHT) * BASE_RADIUS;
-
-      // Random Depth (Volumetric)
-      // FIX: Constrain to 85%-100% of radius (Stay INSIDE or ON surface).
-      const rRandom = rSurface * (0.85 + Math.random() * 0.15);
-
-      const theta = Math.random() * Math.PI * 2;
-      
-      // Calculate base position
-      let x = rRandom * Math.cos(theta);
-      let z = rRandom * Math.sin(theta);
-      
-      // FIX: Align Y-offset with Needles (-1.0) instead of -0.5.
-      let yPos = y - TREE_HEIGHT / 2 - 1.0;
-
-      // Local Jitter
-      const jitter = 0.15;
-      x += (Math.random() - 0.5) * jitter;
-      yPos += (Math.random() - 0.5) * jitter;
-      z += (Math.random() - 0.5) * jitter;
-      
-      const treePos = new THREE.Vector3(x, yPos, z);
-
-      data.push({
-        treePosition: treePos,
-        scatterPosition: getSpherePosition(14),
-      });
+      data.push(getFormationPosition(appState, 'bauble', i, BAUBLES_COUNT, random, formationContext));
     }
     return data;
-  }, [appState]); // Depend on appState to trigger regeneration
+  }, [appState, formationContext, seed]); // Depend on appState to trigger regeneration
 
   useEffect(() => {
     if (meshRef.current) {
@@ -211,10 +173,7 @@ const Baubles: React.FC<{ appState: AppState }> = ({ appState }) => {
         
         // Initialize position based on the current (initial) targets
         // This runs only once on mount to prevent flying in from 0,0,0
-        const t = targets[i];
-        const initialPos = appState === AppState.TREE_SHAPE ? t.treePosition : t.scatterPosition;
-        
-        dummy.position.copy(initialPos);
+        dummy.position.copy(targets[i]);
         dummy.scale.setScalar(d.scale);
         dummy.updateMatrix();
         meshRef.current!.setMatrixAt(i, dummy.matrix);
@@ -228,14 +187,11 @@ const Baubles: React.FC<{ appState: AppState }> = ({ appState }) => {
   useFrame((state, delta) => {
     if (!meshRef.current) return;
     const time = state.clock.elapsedTime;
-    const isTreeMode = appState === AppState.TREE_SHAPE;
 
     for (let i = 0; i < BAUBLES_COUNT; i++) {
-      const { treePosition, scatterPosition } = targets[i];
+      const target = targets[i];
       const { phase, scale } = staticData[i];
 
-      const target = isTreeMode ? treePosition : scatterPosition;
-      
       // Read current
       meshRef.current.getMatrixAt(i, dummy.matrix);
       dummy.position.setFromMatrixPosition(dummy.matrix);
@@ -274,61 +230,50 @@ const Baubles: React.FC<{ appState: AppState }> = ({ appState }) => {
 };
 
 // --- SPIRAL LIGHTS COMPONENT ---
-const SpiralLights: React.FC<{ appState: AppState }> = ({ appState }) => {
+const SpiralLights: React.FC = () => {
+  const appState = useSceneStore(selectAppState);
+  const formationContext = useSceneStore(selectFormationContext);
+  const seed = useSceneStore(selectSeed);
   const meshRef = useRef<THREE.InstancedMesh>(null);
 
-  const { staticData, targets } = useMemo(() => {
-    const sData = [];
-    const tData = [];
-
+  const staticData = useMemo(() => {
+    const random = createRandom(deriveSeed(seed, 'lights'));
+    const data = [];
     for (let i = 0; i < SPIRAL_LIGHTS_COUNT; i++) {
-      sData.push({
-        phase: Math.random() * Math.PI * 2,
-        blinkSpeed: Math.random() * 2 + 1,
+      data.push({
+        phase: random() * Math.PI * 2,
+        blinkSpeed: random() * 2 + 1,
         color: UNIFIED_LIGHT_COLOR,
       });
+    }
+    return data;
+  }, [seed]);
 
-      // Calculate Spiral Position
-      // We map our iteration (0..count) to the range [startOffset, 1]
-      // This ensures we start generating positions slightly 'up' the spiral path
-      const pct = i / SPIRAL_LIGHTS_COUNT; 
-      const t = SPIRAL_START_OFFSET + pct * (1 - SPIRAL_START_OFFSET); // Interpolate from offset to 1
-      
-      const y = t * SPIRAL_HEIGHT - (SPIRAL_HEIGHT / 2) - 1; // Vertical position
-      const angle = t * Math.PI * 2 * SPIRAL_TURNS; // Angle
-      const r = (1 - t) * SPIRAL_BASE_RADIUS; // Radius shrinks as we go up
-
-      const treePos = new THREE.Vector3(
-        r * Math.cos(angle),
-        y,
-        r * Math.sin(angle)
-      );
-
-      tData.push({
-        treePosition: treePos,
-        scatterPosition: getSpherePosition(16),
-      });
+  // Lights follow the formation's path in index order (the spiral on the tree)
+  const targets = useMemo(() => {
+    const random = createRandom(deriveSeed(seed, 'lights', appState));
+    const data = [];
+    for (let i = 0; i < SPIRAL_LIGHTS_COUNT; i++) {
+      data.push(getFormationPosition(appState, 'light', i, SPIRAL_LIGHTS_COUNT, random, formationContext));
     }
-    return { staticData: sData, targets: tData };
-  }, []);
+    return data;
+  }, [appState, formationContext, seed]);
 
   useFrame((state, delta) => {
     if (!meshRef.current) return;
     const time = state.clock.elapsedTime;
-    const isTreeMode = appState === AppState.TREE_SHAPE;
+    const isFormed = appState !== AppState.SCATTERED;
 
     for (let i = 0; i < SPIRAL_LIGHTS_COUNT; i++) {
-      const { treePosition, scatterPosition } = targets[i];
+      const target = targets[i];
       const { phase, blinkSpeed, color } = staticData[i];
 
-      const target = isTreeMode ? treePosition : scatterPosition;
-
       // Position logic
       meshRef.current.getMatrixAt(i, dummy.matrix);
       dummy.position.setFromMatrixPosition(dummy.matrix);
       
       // Add drift
-      const drift = isTreeMode ? 0 : Math.sin(time + phase) * 0.2;
+      const drift = isFormed ? 0 : Math.sin(time + phase) * 0.2;
       tempPos.set(
         target.x + drift,
         target.y + drift,
@@ -362,12 +307,12 @@ const SpiralLights: React.FC<{ appState: AppState }> = ({ appState }) => {
   );
 };
 
-export const Decorations: React.FC<DecorationsProps> = ({ appState }) => {
+export const Decorations: React.FC = () => {
   return (
     <group>
-      <StarTopper appState={appState} />
-      <Baubles appState={appState} />
-      <SpiralLights appState={appState} />
+      <StarTopper />
+      <Baubles />
+      <SpiralLights />
     </group>
   );
 };
\ No newline at end of file
@@ -10,35 +10,40 @@ import { Needles } from './Needles';
 import { InteractiveItems } from './InteractiveItems';
 import { Decorations } from './Decorations';
 import { Snowflakes } from './Snowflakes';
+import { CameraRig } from './CameraRig';
 
 // Types & Constants
-import { AppState, InteractionMode } from '../types';
-import { NEEDLES_COUNT, AUTO_ROTATE_SPEED } from '../constants';
+import { InteractionMode } from '../types';
+import { NEEDLES_COUNT, AUTO_ROTATE_SPEED, CAMERA_MIN_DISTANCE, CAMERA_MAX_DISTANCE } from '../constants';
+import { FORMATIONS } from '../utils/formations';
+import { sceneStore, useSceneStore, selectAppState, selectInteractionMode } from '../utils/sceneStore';
 
 interface ExperienceProps {
-  appState: AppState;
-  interactionMode: InteractionMode;
-  userPhotos: string[];
-  userGiftMessages: string[];
+  initialCameraPosition: [number, number, number];
 }
 
 /**
  * Main 3D experience component that orchestrates the entire Christmas tree scene
  * Includes lighting, particle systems, decorations, and post-processing effects
  */
-export const Experience: React.FC<ExperienceProps> = ({ appState, interactionMode, userPhotos, userGiftMessages }) => {
+export const Experience: React.FC<ExperienceProps> = ({ initialCameraPosition }) => {
+  const appState = useSceneStore(selectAppState);
+  const interactionMode = useSceneStore(selectInteractionMode);
+
   return (
     <>
       <color attach="background" args={['#050505']} />
       
       {/* Camera Controls */}
       <OrbitControls 
+        makeDefault
         enablePan={false} 
-        minDistance={8} 
-        maxDistance={25}
-        autoRotate={appState === AppState.TREE_SHAPE && interactionMode === InteractionMode.IDLE}
+        minDistance={CAMERA_MIN_DISTANCE} 
+        maxDistance={CAMERA_MAX_DISTANCE}
+        autoRotate={FORMATIONS[appState].autoRotate && interactionMode === InteractionMode.IDLE}
         autoRotateSpeed={AUTO_ROTATE_SPEED}
       />
+      <CameraRig cameraInput={sceneStore.live.cameraInput} cameraPose={sceneStore.live.cameraPose} initialPosition={initialCameraPosition} />
 
       {/* Lighting - Luxury Gold Mood */}
       <ambientLight intensity={0.2} />
@@ -66,14 +71,9 @@ export const Experience: React.FC<ExperienceProps> = ({ appState, interactionMod
       <Environment preset="city" />
 
       {/* Particle Systems */}
-      <Needles count={NEEDLES_COUNT} appState={appState} />
-      <Decorations appState={appState} />
-      <InteractiveItems 
-        appState={appState} 
-        interactionMode={interactionMode} 
-        userPhotos={userPhotos} 
-        userGiftMessages={userGiftMessages} 
-      />
+      <Needles count={NEEDLES_COUNT} />
+      <Decorations />
+      <InteractiveItems />
       <Snowflakes />
       
       {/* Post Processing for Cinematic Feel */}
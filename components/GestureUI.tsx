@@ -1,57 +1,117 @@
 // React
-import React, { useEffect, useRef, useState } from 'react';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
 
 // External Libraries
 import Webcam from 'react-webcam';
-import { HandLandmarker, FilesetResolver } from '@mediapipe/tasks-vision';
 
-// Types
-import { AppState, InteractionMode } from '../types';
+// Components
+import { CalibrationWizard } from './CalibrationWizard';
+import { BindingsPanel } from './BindingsPanel';
+import { PhotoGallery } from './PhotoGallery';
+import { GiftEditor } from './GiftEditor';
+import { LandmarkOverlay, GestureAnalysis } from './LandmarkOverlay';
+
+// Types & Utils
+import { AppState, InteractionMode, Gesture, HandFrame, SceneAction, ActionBinding, BindingMap, ControlButton, InputSource, ImageShapeSettings, GiftContent } from '../types';
+import { recognizeHands, getPalmSpread, createGestureStabilizer, GestureThresholds, DEFAULT_GESTURE_THRESHOLDS } from '../utils/gestureRecognizer';
+import { createHandTracker, HandTracker } from '../utils/handTracker';
+import { applyBinding, loadBindings, saveBindings, describeGesturesFor, CONTROL_BUTTONS, ACTION_LABELS } from '../utils/actionBindings';
+import { loadGestureThresholds, saveGestureThresholds, clearGestureThresholds, hasCalibratedThresholds } from '../utils/gestureCalibration';
+import { computeCameraSteer } from '../utils/handSteering';
+import { createLandmarkRecorder, downloadRecording, parseRecording, playRecording, classifyRecording } from '../utils/landmarkRecorder';
+import { createInputLayer } from '../utils/inputLayer';
+import { computeAimPoint } from '../utils/pointerAim';
+import { createSwipeDetector } from '../utils/swipeDetector';
+import { createInputFocus, openFilePicker, InputFocus } from '../utils/inputFocus';
+import { createPullAnchor, computePullAmount, findGrabbingHand, PullAnchor, PULL_SNAP_THRESHOLD } from '../utils/pinchPull';
+import { FORMATIONS, FORMATION_CYCLE, DEFAULT_FORMATION_TEXT, FORMATION_TEXT_MAX_LENGTH } from '../utils/formations';
+import { drawImageMask, DEFAULT_IMAGE_SHAPE_SETTINGS, IMAGE_SHAPE_UPLOAD_SIZE } from '../utils/imageShape';
+import {
+  sceneStore,
+  useSceneStore,
+  selectAppState,
+  selectInteractionMode,
+  selectUserPhotos,
+  selectUserGifts,
+  selectFormationText,
+  selectShapeImage,
+  selectShapeImagePixels,
+  selectSeed,
+} from '../utils/sceneStore';
+import { createShareLink, SHARE_LINK_WARN_LENGTH } from '../utils/shareLink';
+import { createTreeDocument, downloadTreeDocument, parseTreeDocument, applyTreeDocument } from '../utils/treeDocument';
+import { generateSeed, parseSeed, SEED_MAX } from '../utils/random';
+import { createUserPhoto, dataUrlToBlob, getPhotoStorageUsage, formatBytes, PhotoStorageUsage } from '../utils/photoStorage';
+import { createCardGift, GIFT_PHOTO_UPLOAD_SIZE } from '../utils/giftContent';
 
 interface GestureUIProps {
-  appState: AppState;
-  interactionMode: InteractionMode;
-  setAppState: (s: AppState) => void;
-  setInteractionMode: (m: InteractionMode) => void;
-  onUserPhotosUpload: (urls: string[]) => void;
-  onUserGiftsUpdate: (msgs: string[]) => void;
-  userGiftMessages: string[];
   onScreenshot?: () => void;
 }
 
-// Constants - Optimized for better gesture discrimination
-const GESTURE_CONFIDENCE_THRESHOLD = 4; // Increased from 3 for more stable recognition
-const MEDIAPIPE_WASM_URL = "https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@0.10.14/wasm";
-const HAND_LANDMARKER_MODEL_URL = "https://storage.googleapis.com/mediapipe-models/hand_landmarker/hand_landmarker/float16/1/hand_landmarker.task";
-const PINCH_DISTANCE_THRESHOLD = 0.06; // Reduced from 0.10 - more strict pinch detection to avoid false positives
-const THUMB_EXTENDED_DISTANCE_THRESHOLD = 0.18;
-const FINGER_EXTENSION_MULTIPLIER = 1.15;
+// Constants
+const INPUT_SOURCE_LABELS: Record<InputSource, string> = {
+  gesture: 'Hand Gestures',
+  pointer: 'Buttons',
+  keyboard: 'Keyboard',
+  gamepad: 'Gamepad',
+};
+const TWO_HAND_ZOOM_SENSITIVITY = 2.5; // Zoom factor change per unit of palm spread change
+const ANALOG_STEER_STORAGE_KEY = 'celestial-tree-analog-steer';
+const LANDMARK_OVERLAY_STORAGE_KEY = 'celestial-tree-landmark-overlay';
+const TOGGLE_COOLDOWN_MS = 1500; // A toggle gesture cannot fire again within this time (prevents on/off flapping)
+
+/**
+ * Hold input focus while an overlay is open
+ */
+const useInputFocusWhile = (focus: InputFocus, owner: string, active: boolean) => {
+  useEffect(() => {
+    if (!active) return;
+    return focus.acquire(owner);
+  }, [focus, owner, active]);
+};
 
 // Default gifts to populate the list if empty (Syncs with InteractiveItems)
-const DEFAULT_GIFTS = [
+const DEFAULT_GIFTS: GiftContent[] = [
   "New iPhone 16", "World Peace", "A Pair of Socks", "NVIDIA RTX 5090",
   "A Warm Hug", "$1000 Amazon Card", "Coal :(", "Trip to Mars",
   "React Tutorials", "Infinite Coffee"
-];
-
-export const GestureUI: React.FC<GestureUIProps> = ({ 
-  appState, 
-  interactionMode, 
-  setAppState, 
-  setInteractionMode,
-  onUserPhotosUpload,
-  onUserGiftsUpdate,
-  userGiftMessages,
-  onScreenshot
-}) => {
+].map(message => createCardGift(message));
+
+export const GestureUI: React.FC<GestureUIProps> = ({ onScreenshot }) => {
+  // Scene state and actions (the detection loop reads sceneStore.getState() for fresh values)
+  const appState = useSceneStore(selectAppState);
+  const interactionMode = useSceneStore(selectInteractionMode);
+  const userPhotos = useSceneStore(selectUserPhotos);
+  const userGifts = useSceneStore(selectUserGifts);
+  const formationText = useSceneStore(selectFormationText);
+  const shapeImage = useSceneStore(selectShapeImage);
+  const shapeImagePixels = useSceneStore(selectShapeImagePixels);
+  const seed = useSceneStore(selectSeed);
+  const { actions } = sceneStore;
+  const { cameraInput, pointerAim, itemPull } = sceneStore.live;
   const webcamRef = useRef<Webcam>(null);
   const [modelLoaded, setModelLoaded] = useState(false);
   const [debugStatus, setDebugStatus] = useState("Initializing...");
   
   // Custom Modal State
   const [showGiftModal, setShowGiftModal] = useState(false);
-  // Replaced simple string with array for list editing
-  const [giftList, setGiftList] = useState<string[]>([]);
+
+  // Text Formation Editor State
+  const [showTextModal, setShowTextModal] = useState(false);
+  const [textDraft, setTextDraft] = useState('');
+
+  // Image Formation Editor State
+  const [showImageModal, setShowImageModal] = useState(false);
+  const imageMaskCanvasRef = useRef<HTMLCanvasElement>(null);
+
+  // Seed editor (null while not editing) and share link feedback
+  const [seedDraft, setSeedDraft] = useState<string | null>(null);
+  const [linkCopied, setLinkCopied] = useState(false);
+  const [shareWarning, setShareWarning] = useState<string | null>(null);
+
+  // Photo gallery and the space taken by the stored photos (null until measured)
+  const [showPhotoGallery, setShowPhotoGallery] = useState(false);
+  const [photoStorage, setPhotoStorage] = useState<PhotoStorageUsage | null>(null);
   
   // Welcome/Tutorial Modal State
   const [showWelcome, setShowWelcome] = useState(false);
@@ -59,14 +119,75 @@ export const GestureUI: React.FC<GestureUIProps> = ({
   const [touchStart, setTouchStart] = useState<number | null>(null);
   const [touchEnd, setTouchEnd] = useState<number | null>(null);
 
-  const handLandmarkerRef = useRef<HandLandmarker | null>(null);
+  const handTrackerRef = useRef<HandTracker | null>(null);
   const lastVideoTimeRef = useRef<number>(-1);
   const requestRef = useRef<number>(0);
-  const gestureHistoryRef = useRef<string[]>([]);
-  const currentStableGestureRef = useRef<string>("UNKNOWN");
+  const gestureStabilizerRef = useRef(createGestureStabilizer());
+  const lastPalmSpreadRef = useRef<number | null>(null);
+  const swipeDetectorRef = useRef(createSwipeDetector());
+  const lastToggleRef = useRef<{ gesture: Gesture; time: number } | null>(null);
+  const pullAnchorRef = useRef<PullAnchor | null>(null);
+
+  // Analog steering: palm position continuously orbits the camera.
+  // Mirrored into a ref because the detection loop keeps its first-render closure.
+  const [analogSteer, setAnalogSteer] = useState(() => localStorage.getItem(ANALOG_STEER_STORAGE_KEY) === 'true');
+  const analogSteerRef = useRef(analogSteer);
+
+  // Per-user gesture thresholds (from the calibration wizard)
+  const [gestureThresholds, setGestureThresholds] = useState<GestureThresholds>(loadGestureThresholds);
+  const gestureThresholdsRef = useRef(gestureThresholds);
+  const [showCalibration, setShowCalibration] = useState(false);
+
+  // Gesture/button/key to action bindings (from the settings panel)
+  const [bindings, setBindings] = useState<BindingMap>(loadBindings);
+  const bindingsRef = useRef(bindings);
+  const [showBindings, setShowBindings] = useState(false);
+
+  // Point-to-select: while aiming, the index finger drives pointerAim
+  const aimingRef = useRef(false);
+
+  // Input focus: gestures are suspended while any overlay is open
+  const [inputFocus] = useState(createInputFocus);
+  const [gesturesPaused, setGesturesPaused] = useState(false);
+  useInputFocusWhile(inputFocus, 'tutorial', showWelcome);
+  useInputFocusWhile(inputFocus, 'gift-editor', showGiftModal);
+  useInputFocusWhile(inputFocus, 'photo-gallery', showPhotoGallery);
+  useInputFocusWhile(inputFocus, 'text-editor', showTextModal);
+  useInputFocusWhile(inputFocus, 'image-editor', showImageModal);
+  useInputFocusWhile(inputFocus, 'seed-editor', seedDraft !== null);
+  useInputFocusWhile(inputFocus, 'calibration', showCalibration);
+  useInputFocusWhile(inputFocus, 'controls', showBindings);
+
+  // Device the latest input came from (shown under the camera preview)
+  const [inputSource, setInputSource] = useState<InputSource>('gesture');
+
+  // Listeners for raw hand frames (used by the calibration wizard)
+  const frameListenersRef = useRef(new Set<(frame: HandFrame) => void>());
+  const subscribeToFrames = useCallback((listener: (frame: HandFrame) => void) => {
+    frameListenersRef.current.add(listener);
+    return () => { frameListenersRef.current.delete(listener); };
+  }, []);
+
+  // Skeleton debug overlay on the webcam preview (off by default for guests)
+  const [showOverlay, setShowOverlay] = useState(() => localStorage.getItem(LANDMARK_OVERLAY_STORAGE_KEY) === 'true');
+  const analysisListenersRef = useRef(new Set<(analysis: GestureAnalysis) => void>());
+  const subscribeToAnalysis = useCallback((listener: (analysis: GestureAnalysis) => void) => {
+    analysisListenersRef.current.add(listener);
+    return () => { analysisListenersRef.current.delete(listener); };
+  }, []);
+
+  // Landmark session recording / replay (for reproducing misclassifications offline)
+  const recorderRef = useRef(createLandmarkRecorder());
+  const stopReplayRef = useRef<(() => void) | null>(null);
+  const [isRecording, setIsRecording] = useState(false);
+  const [isReplaying, setIsReplaying] = useState(false);
+  const recordingInputRef = useRef<HTMLInputElement>(null);
+  const treeInputRef = useRef<HTMLInputElement>(null);
   
   // Hidden file input for photo upload
   const fileInputRef = useRef<HTMLInputElement>(null);
+  // Hidden file input for the image formation
+  const shapeImageInputRef = useRef<HTMLInputElement>(null);
 
   // Check if first visit
   useEffect(() => {
@@ -76,6 +197,128 @@ export const GestureUI: React.FC<GestureUIProps> = ({
     }
   }, []);
 
+  useEffect(() => {
+    analogSteerRef.current = analogSteer;
+    localStorage.setItem(ANALOG_STEER_STORAGE_KEY, String(analogSteer));
+    if (!analogSteer) cameraInput.current.steer = null;
+  }, [analogSteer, cameraInput]);
+
+  useEffect(() => {
+    localStorage.setItem(LANDMARK_OVERLAY_STORAGE_KEY, String(showOverlay));
+  }, [showOverlay]);
+
+  useEffect(() => {
+    gestureThresholdsRef.current = gestureThresholds;
+  }, [gestureThresholds]);
+
+  useEffect(() => {
+    bindingsRef.current = bindings;
+  }, [bindings]);
+
+  useEffect(() => {
+    const pull = itemPull.current;
+    if (interactionMode === InteractionMode.IDLE) {
+      pull.grabbed = false;
+      pull.amount = 1;
+      pullAnchorRef.current = null;
+    } else if (!pull.grabbed && gestureStabilizerRef.current.getStableGesture() === Gesture.PINCH) {
+      // Pulled by a pinch: the item starts at rest and follows the hand until the pinch lets go
+      pull.grabbed = true;
+      pull.amount = 0;
+      pullAnchorRef.current = null;
+    }
+  }, [interactionMode, itemPull]);
+
+  // Keyboard & gamepad input
+  useEffect(() => {
+    return createInputLayer({
+      getBindings: () => bindingsRef.current,
+      onBinding: runBinding,
+      onOrbit: (x, y) => { cameraInput.current.orbit = { x, y }; },
+      onZoom: (delta) => { cameraInput.current.zoomDelta += delta; },
+      onActivity: setInputSource,
+    });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const saveBindingsPanel = (next: BindingMap) => {
+    saveBindings(next);
+    setBindings(next);
+    setShowBindings(false);
+  };
+
+  // On-screen button handlers: hold bindings act on press/release, others on click
+  const buttonHandlers = (button: ControlButton) => {
+    const binding = bindings.buttons[button];
+    if (binding.mode === 'hold') {
+      return {
+        onPointerDown: () => { setInputSource('pointer'); runBinding(binding, 'press'); },
+        onPointerUp: () => runBinding(binding, 'release'),
+        onPointerLeave: (e: React.PointerEvent) => { if (e.buttons) runBinding(binding, 'release'); },
+      };
+    }
+    return { onClick: () => { setInputSource('pointer'); runBinding(binding, 'press'); } };
+  };
+
+  const stepItemFromButton = (direction: 1 | -1) => {
+    setInputSource('pointer');
+    actions.stepItem(direction);
+  };
+
+  const formFromButton = (formation: AppState) => {
+    // The image formation needs an image first
+    if (formation === AppState.IMAGE && !shapeImage) {
+      setShowImageModal(true);
+      return;
+    }
+    setInputSource('pointer');
+    runBinding({ action: FORMATIONS[formation].action, mode: 'trigger' }, 'press');
+  };
+
+  // Gesture hint for an instruction row, reflecting the current bindings
+  const gestureHint = (action: SceneAction) => {
+    const hints = describeGesturesFor(bindings, action);
+    // Aiming can pick either kind of item
+    if (action === SceneAction.PULL_FRAME || action === SceneAction.PULL_GIFT) {
+      hints.push(...describeGesturesFor(bindings, SceneAction.AIM).map(g => `${g} & hold`));
+    }
+    return hints.join(' / ') || 'Not bound';
+  };
+
+  useEffect(() => {
+    return inputFocus.subscribe((captured) => {
+      setGesturesPaused(captured);
+      if (!captured) return;
+      console.log(`⏸️ Hand control paused (${inputFocus.getOwners().join(', ')})`);
+      // End any hold binding and don't carry a half-seen gesture across the pause
+      const stable = gestureStabilizerRef.current.getStableGesture();
+      if (stable) runBinding(bindingsRef.current.gestures[stable], 'release');
+      gestureStabilizerRef.current.reset();
+      swipeDetectorRef.current.reset();
+      lastPalmSpreadRef.current = null;
+      cameraInput.current.steer = null;
+      setAiming(() => false);
+      if (itemPull.current.grabbed) endGrab();
+    });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [inputFocus]);
+
+  const openCalibration = () => {
+    closeWelcome();
+    setShowCalibration(true);
+  };
+
+  const saveCalibration = (thresholds: GestureThresholds) => {
+    saveGestureThresholds(thresholds);
+    setGestureThresholds(thresholds);
+    setShowCalibration(false);
+  };
+
+  const resetCalibration = () => {
+    clearGestureThresholds();
+    setGestureThresholds(DEFAULT_GESTURE_THRESHOLDS);
+  };
+
   const closeWelcome = () => {
     localStorage.setItem('celestial-tree-visited', 'true');
     setShowWelcome(false);
@@ -83,7 +326,7 @@ export const GestureUI: React.FC<GestureUIProps> = ({
   };
 
   const nextPage = () => {
-    if (tutorialPage < 4) {
+    if (tutorialPage < tutorialPages.length - 1) {
       setTutorialPage(tutorialPage + 1);
     }
   };
@@ -145,31 +388,36 @@ export const GestureUI: React.FC<GestureUIProps> = ({
       emoji: "🤏",
       title: "Pinch Gesture",
       subtitle: "Pick a Photo",
-      description: "Pinch your index finger and thumb together to view photos. Tap to upload your own!"
+      description: "Pinch to grab a photo, then pull your hand towards you or down to bring it closer. Let go past halfway to keep it. Tap to upload your own!"
     },
     {
       emoji: "☝️",
       title: "Point Finger",
-      subtitle: "Pick a Gift",
-      description: "Point with your index finger to select gifts and add your own Christmas wishes."
+      subtitle: "Aim & Pick",
+      description: "Point at a gift or photo and hold still to pick it, or pinch to pick it right away."
+    },
+    {
+      emoji: "🙌",
+      title: "Two Hands",
+      subtitle: "Zoom & Reset",
+      description: "Spread both open palms apart to zoom in, two fists to reset. With two hands up, point left for a gift, right for a photo."
     }
   ];
 
   useEffect(() => {
+    let cancelled = false;
     const initModel = async () => {
       try {
-        const filesetResolver = await FilesetResolver.forVisionTasks(MEDIAPIPE_WASM_URL);
-        handLandmarkerRef.current = await HandLandmarker.createFromOptions(filesetResolver, {
-          baseOptions: {
-            modelAssetPath: HAND_LANDMARKER_MODEL_URL,
-            delegate: "GPU"
-          },
-          runningMode: "VIDEO",
-          numHands: 1,
-          minHandDetectionConfidence: 0.3, // Reduced from 0.5 for better detection
-          minHandPresenceConfidence: 0.3,  // Reduced from 0.5 for better detection
-          minTrackingConfidence: 0.3       // Reduced from 0.5 for smoother tracking
+        // Detection runs in a Web Worker when supported; results arrive asynchronously
+        const tracker = await createHandTracker((results, timestamp) => {
+          recorderRef.current.record(results, timestamp);
+          processResults(results);
         });
+        if (cancelled) {
+          tracker.close();
+          return;
+        }
+        handTrackerRef.current = tracker;
         setModelLoaded(true);
         setDebugStatus("Vision Ready");
         detect();
@@ -181,101 +429,256 @@ export const GestureUI: React.FC<GestureUIProps> = ({
     initModel();
     return () => {
       if (requestRef.current) cancelAnimationFrame(requestRef.current);
-      if (handLandmarkerRef.current) handLandmarkerRef.current.close();
+      cancelled = true;
+      if (handTrackerRef.current) handTrackerRef.current.close();
+      stopReplayRef.current?.();
     };
   }, []);
 
   const detect = () => {
-    if (webcamRef.current?.video && handLandmarkerRef.current) {
+    // While replaying a recording, frames come from the file instead of the webcam
+    const tracker = handTrackerRef.current;
+    if (webcamRef.current?.video && tracker && !tracker.isBusy() && !stopReplayRef.current) {
       const video = webcamRef.current.video;
       if (video.readyState >= 2 && video.currentTime !== lastVideoTimeRef.current) {
         lastVideoTimeRef.current = video.currentTime;
-        const results = handLandmarkerRef.current.detectForVideo(video, performance.now());
-        processResults(results);
+        tracker.detect(video, performance.now());
       }
     }
     requestRef.current = requestAnimationFrame(detect);
   };
 
-  const processResults = (results: any) => {
-    // If modal is open, pause gesture detection interactions
-    if (showGiftModal) return;
+  const processResults = (results: HandFrame) => {
+    frameListenersRef.current.forEach(listener => listener(results));
+    // While an overlay is open (including calibration, which only needs the raw frames)
+    // poses must not trigger scene actions
+    if (inputFocus.isCaptured()) return;
 
-    let detectedGesture = "NONE";
+    const handsResult = recognizeHands(results, gestureThresholdsRef.current);
+    const { gesture } = handsResult;
 
-    if (results.landmarks && results.landmarks.length > 0) {
-      const landmarks = results.landmarks[0]; 
-      const dist = (i1: number, i2: number) => {
-        const p1 = landmarks[i1];
-        const p2 = landmarks[i2];
-        return Math.sqrt(Math.pow(p1.x - p2.x, 2) + Math.pow(p1.y - p2.y, 2));
-      };
-      
-      const isExtended = (tipIdx: number, mcpIdx: number) => {
-        return dist(tipIdx, 0) > dist(mcpIdx, 0) * FINGER_EXTENSION_MULTIPLIER;
+    // Two open palms: spreading them apart zooms in, bringing them together zooms out
+    const palmSpread = gesture === Gesture.BOTH_OPEN ? getPalmSpread(results) : null;
+    if (palmSpread !== null && lastPalmSpreadRef.current !== null) {
+      cameraInput.current.zoomDelta += (palmSpread - lastPalmSpreadRef.current) * TWO_HAND_ZOOM_SENSITIVITY;
+    }
+    lastPalmSpreadRef.current = palmSpread;
+
+    // Aim ray follows the pointing hand (or the only visible one)
+    const aimHand = handsResult.hands.findIndex(hand => hand.gesture === Gesture.POINT);
+    const aimLandmarks = results.landmarks[aimHand >= 0 ? aimHand : 0];
+    pointerAim.current.ndc = aimingRef.current && aimLandmarks
+      ? computeAimPoint(aimLandmarks, pointerAim.current.ndc)
+      : null;
+
+    // Analog steering follows a single visible hand
+    cameraInput.current.steer = analogSteerRef.current && results.landmarks.length === 1
+      ? computeCameraSteer(results.landmarks[0])
+      : null;
+
+    // Swipes browse the pulled items; poses seen mid-swipe are ignored
+    const swipeDetector = swipeDetectorRef.current;
+    // Pinch-and-pull: the grabbing hand's movement drives how far the item travels
+    const pull = itemPull.current;
+    const grabbingHand = pull.grabbed ? findGrabbingHand(handsResult.hands, pullAnchorRef.current) : -1;
+    if (grabbingHand >= 0) {
+      const grabbingLandmarks = results.landmarks[grabbingHand];
+      if (!pullAnchorRef.current) pullAnchorRef.current = createPullAnchor(grabbingLandmarks, handsResult.hands[grabbingHand].side);
+      pull.amount = computePullAmount(pullAnchorRef.current, grabbingLandmarks);
+    }
+
+    const canSwipe = sceneStore.getState().interactionMode !== InteractionMode.IDLE && !aimingRef.current && !pull.grabbed && results.landmarks.length === 1;
+    const swipe = canSwipe ? swipeDetector.push(results.landmarks[0], performance.now()) : null;
+    if (!canSwipe) swipeDetector.reset();
+    if (swipe) {
+      setInputSource('gesture');
+      runBinding(bindingsRef.current.gestures[swipe], 'press');
+    }
+
+    if (!swipeDetector.isMoving()) {
+      const previousGesture = gestureStabilizerRef.current.getStableGesture();
+      const stableGesture = gestureStabilizerRef.current.push(gesture, handsResult.confidence, performance.now());
+      if (stableGesture) {
+        if (results.landmarks.length > 0) setInputSource('gesture');
+        applyGestureEffect(stableGesture, previousGesture);
+      }
+    }
+    if (analysisListenersRef.current.size > 0) {
+      const analysis: GestureAnalysis = {
+        frame: results,
+        result: handsResult,
+        thresholds: gestureThresholdsRef.current,
+        stability: gestureStabilizerRef.current.getProgress(),
       };
+      analysisListenersRef.current.forEach(listener => listener(analysis));
+    }
+    setDebugStatus(`${gesture}`);
+  };
 
-      const thumbExtended = dist(4, 17) > THUMB_EXTENDED_DISTANCE_THRESHOLD;
-      const indexExtended = isExtended(8, 5);
-      const middleExtended = isExtended(12, 9);
-      const ringExtended = isExtended(16, 13);
-      const pinkyExtended = isExtended(20, 17);
-      const extendedCount = [thumbExtended, indexExtended, middleExtended, ringExtended, pinkyExtended].filter(Boolean).length;
-      
-      const pinchDistance = dist(4, 8);
-      // IMPORTANT: Pinch requires thumb+index close AND other fingers relatively extended
-      // This prevents mistaking a fist for a pinch
-      const isPinching = pinchDistance < PINCH_DISTANCE_THRESHOLD && extendedCount >= 2;
-
-      // Priority order matters! Check fist BEFORE pinch to prevent misclassification
-      if (extendedCount <= 1) detectedGesture = "FIST"; // Fist has highest priority
-      else if (isPinching) detectedGesture = "PINCH"; // Pinch only if NOT a fist
-      else if (indexExtended && !middleExtended && !ringExtended && !pinkyExtended) detectedGesture = "POINT";
-      else if (extendedCount >= 4) detectedGesture = "OPEN";
-      else detectedGesture = "NEUTRAL";
+  // Perform the scene action bound to a gesture, button or key
+  const runBinding = (binding: ActionBinding | undefined, phase: 'press' | 'release') => {
+    // Any other action ends aiming
+    if (phase === 'press' && binding && binding.action !== SceneAction.AIM && binding.action !== SceneAction.NONE) {
+      setAiming(() => false);
     }
+    applyBinding(binding, phase, {
+      appState: sceneStore.getState().appState,
+      setAppState: actions.setAppState,
+      setInteractionMode: actions.setInteractionMode,
+      requestCameraReset: () => { cameraInput.current.resetRequested = true; },
+      stepItem: actions.stepItem,
+      setAiming,
+    });
+  };
 
-    const history = gestureHistoryRef.current;
-    history.push(detectedGesture);
-    if (history.length > GESTURE_CONFIDENCE_THRESHOLD) history.shift();
+  const setAiming = (update: (prev: boolean) => boolean) => {
+    aimingRef.current = update(aimingRef.current);
+    if (!aimingRef.current) pointerAim.current.ndc = null;
+  };
 
-    const allMatch = history.length === GESTURE_CONFIDENCE_THRESHOLD && history.every(g => g === detectedGesture);
-    
-    if (allMatch && detectedGesture !== currentStableGestureRef.current) {
-      currentStableGestureRef.current = detectedGesture;
-      applyGestureEffect(detectedGesture);
+  /**
+   * Let go of a pinch-pulled item: far enough snaps it forward, otherwise it goes back
+   * @returns True if the item stays pulled
+   */
+  const endGrab = (): boolean => {
+    const pull = itemPull.current;
+    pull.grabbed = false;
+    pullAnchorRef.current = null;
+    if (pull.amount >= PULL_SNAP_THRESHOLD) {
+      pull.amount = 1;
+      return true;
+    }
+    actions.setInteractionMode(InteractionMode.IDLE);
+    return false;
+  };
+
+  const applyGestureEffect = (gesture: Gesture, previousGesture: Gesture | null) => {
+    const { gestures } = bindingsRef.current;
+    if (itemPull.current.grabbed && gesture !== Gesture.PINCH) {
+      const kept = endGrab();
+      // Relaxing the hand after pulling must not drop the item it just pulled
+      if (kept && gestures[gesture]?.action === SceneAction.RELEASE_ITEM) {
+        if (previousGesture) runBinding(gestures[previousGesture], 'release');
+        return;
+      }
+    }
+    // Pinching while an item is aimed at picks that item instead of running the pinch binding
+    const confirmAim = gesture === Gesture.PINCH && !!pointerAim.current.hoveredId;
+    // End any hold binding of the gesture we are leaving
+    if (previousGesture) runBinding(gestures[previousGesture], 'release');
+    if (confirmAim) {
+      pointerAim.current.confirmRequested = true;
+      return;
+    }
+    const binding = gestures[gesture];
+    if (binding?.mode === 'toggle') {
+      const now = performance.now();
+      const last = lastToggleRef.current;
+      if (last && last.gesture === gesture && now - last.time < TOGGLE_COOLDOWN_MS) return;
+      lastToggleRef.current = { gesture, time: now };
+    }
+    runBinding(binding, 'press');
+  };
+
+  // --- RECORDING / REPLAY ---
+
+  const toggleRecording = () => {
+    const recorder = recorderRef.current;
+    if (recorder.isRecording()) {
+      const recording = recorder.stop();
+      setIsRecording(false);
+      console.log(`🎬 Recorded ${recording.frames.length} frame(s)`);
+      if (recording.frames.length > 0) downloadRecording(recording);
+    } else {
+      recorder.start();
+      setIsRecording(true);
     }
-    setDebugStatus(`${detectedGesture}`);
-  };
-
-  const applyGestureEffect = (gesture: string) => {
-    switch (gesture) {
-      case "PINCH": 
-        // Toggle: if already in PULLING_FRAME mode, reset to IDLE
-        setInteractionMode(prev => 
-          prev === InteractionMode.PULLING_FRAME ? InteractionMode.IDLE : InteractionMode.PULLING_FRAME
-        );
-        break;
-      case "POINT": 
-        // Toggle: if already in PULLING_GIFT mode, reset to IDLE
-        setInteractionMode(prev => 
-          prev === InteractionMode.PULLING_GIFT ? InteractionMode.IDLE : InteractionMode.PULLING_GIFT
-        );
-        break;
-      case "FIST": 
-        setInteractionMode(InteractionMode.IDLE);
-        setAppState(AppState.TREE_SHAPE); 
-        break;
-      case "OPEN": 
-        setInteractionMode(InteractionMode.IDLE);
-        setAppState(AppState.SCATTERED); 
-        break;
-      default: setInteractionMode(InteractionMode.IDLE); break;
+  };
+
+  const stopReplay = () => {
+    stopReplayRef.current?.();
+    stopReplayRef.current = null;
+    gestureStabilizerRef.current.reset();
+    setIsReplaying(false);
+  };
+
+  const exportTree = () => {
+    createTreeDocument(sceneStore.getState(), {
+      bindings,
+      gestureThresholds: hasCalibratedThresholds() ? gestureThresholds : null,
+      analogSteer,
+      landmarkOverlay: showOverlay,
+    })
+      .then(downloadTreeDocument)
+      .catch((error) => {
+        console.error('❌ Failed to export tree:', error);
+        alert(`Could not export this tree: ${error instanceof Error ? error.message : error}`);
+      });
+  };
+
+  const handleTreeUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      file.text()
+        .then(async (text) => {
+          const tree = parseTreeDocument(text);
+          if (!window.confirm('Importing replaces your photos, gifts, shape and settings with the ones in this file. Continue?')) return;
+
+          await applyTreeDocument(sceneStore, tree);
+          const { settings } = tree;
+          saveBindings(settings.bindings);
+          setBindings(settings.bindings);
+          if (settings.gestureThresholds) {
+            saveGestureThresholds(settings.gestureThresholds);
+            setGestureThresholds(settings.gestureThresholds);
+          } else {
+            clearGestureThresholds();
+            setGestureThresholds(DEFAULT_GESTURE_THRESHOLDS);
+          }
+          setAnalogSteer(settings.analogSteer);
+          setShowOverlay(settings.landmarkOverlay);
+          console.log(`📥 Imported tree with ${tree.photos.length} photo(s) and ${tree.gifts.length} gift(s)`);
+        })
+        .catch((error) => {
+          console.error('❌ Failed to import tree:', error);
+          alert(`Could not import this tree: ${error instanceof Error ? error.message : error}`);
+        });
+    }
+    if (e.target) e.target.value = '';
+  };
+
+  const handleRecordingUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      file.text()
+        .then((text) => {
+          const recording = parseRecording(text);
+          console.log(`▶️ Replaying ${recording.frames.length} frame(s) from ${recording.createdAt}`);
+          // Offline pass with the current calibration, to compare against what the live replay does
+          const committed = classifyRecording(recording, gestureThresholdsRef.current)
+            .filter(frame => frame.committed)
+            .map(frame => `${frame.committed} @ ${(frame.timestamp / 1000).toFixed(1)}s`);
+          console.log(`🧪 With the current thresholds this recording commits: ${committed.join(', ') || 'no gestures'}`);
+          stopReplayRef.current?.();
+          gestureStabilizerRef.current.reset();
+          setIsReplaying(true);
+          stopReplayRef.current = playRecording(recording, processResults, stopReplay);
+        })
+        .catch((error) => {
+          console.error('❌ Failed to load recording:', error);
+          alert(`Invalid recording file: ${error instanceof Error ? error.message : error}`);
+        });
     }
+    if (e.target) e.target.value = '';
   };
 
   // Helper function to compress image
-  const compressImage = (file: File, maxWidth: number = 800, quality: number = 0.8): Promise<string> => {
+  const compressImage = (
+    file: File,
+    maxWidth: number = 800,
+    quality: number = 0.8,
+    type: 'image/jpeg' | 'image/png' = 'image/jpeg'
+  ): Promise<string> => {
     return new Promise((resolve, reject) => {
       const reader = new FileReader();
       reader.onload = (e) => {
@@ -303,7 +706,7 @@ export const GestureUI: React.FC<GestureUIProps> = ({
 
           // Draw and compress
           ctx.drawImage(img, 0, 0, width, height);
-          const compressedDataUrl = canvas.toDataURL('image/jpeg', quality);
+          const compressedDataUrl = canvas.toDataURL(type, quality);
           
           // Log compression stats
           const originalSize = ((e.target?.result as string).length / 1024).toFixed(0);
@@ -326,14 +729,14 @@ export const GestureUI: React.FC<GestureUIProps> = ({
       console.log(`📤 Uploading ${files.length} file(s)...`);
       
       const filePromises = Array.from(files).map((file) => {
-        // Compress images to reduce localStorage usage
-        return compressImage(file, 800, 0.8);
+        // Compress images to keep the photo database small
+        return compressImage(file, 800, 0.8).then(dataUrlToBlob);
       });
 
       Promise.all(filePromises)
         .then((compressedPhotos) => {
           console.log(`✅ ${compressedPhotos.length} photo(s) processed`);
-          onUserPhotosUpload(compressedPhotos);
+          actions.addUserPhotos(compressedPhotos.map(blob => createUserPhoto(blob)));
         })
         .catch((error) => {
           console.error('❌ Error processing files:', error);
@@ -344,47 +747,109 @@ export const GestureUI: React.FC<GestureUIProps> = ({
     if (e.target) e.target.value = '';
   };
 
+  const handleShapeImageUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      // PNG keeps the transparency of logos, which gives the cleanest cut-out
+      compressImage(file, IMAGE_SHAPE_UPLOAD_SIZE, 0.92, 'image/png')
+        .then((url) => {
+          console.log('🖼️ Shape image loaded');
+          actions.setShapeImage({ url, settings: shapeImage?.settings ?? DEFAULT_IMAGE_SHAPE_SETTINGS });
+          setInputSource('pointer');
+          runBinding({ action: SceneAction.FORM_IMAGE, mode: 'trigger' }, 'press');
+        })
+        .catch((error) => {
+          console.error('❌ Error processing shape image:', error);
+          alert('Could not read that image, please try another one');
+        });
+    }
+    if (e.target) e.target.value = '';
+  };
+
+  const triggerShapeImageUpload = () => {
+    if (shapeImageInputRef.current) {
+      openFilePicker(shapeImageInputRef.current, inputFocus, 'shape-image-picker');
+    }
+  };
+
+  const updateShapeImageSettings = (update: Partial<ImageShapeSettings>) => {
+    if (!shapeImage) return;
+    actions.setShapeImage({ ...shapeImage, settings: { ...shapeImage.settings, ...update } });
+  };
+
+  // Redraw the mask preview (pixels are decoded by the store) while the editor is open
+  useEffect(() => {
+    if (showImageModal && imageMaskCanvasRef.current && shapeImagePixels && shapeImage) {
+      drawImageMask(imageMaskCanvasRef.current, shapeImagePixels, shapeImage.settings);
+    }
+  }, [showImageModal, shapeImagePixels, shapeImage]);
+
+  // Re-measure the photo storage whenever the photos change
+  useEffect(() => {
+    let cancelled = false;
+    getPhotoStorageUsage(userPhotos).then((usage) => {
+      if (!cancelled) setPhotoStorage(usage);
+    });
+    return () => { cancelled = true; };
+  }, [userPhotos]);
+
   const triggerUpload = () => {
     if (fileInputRef.current) {
-      fileInputRef.current.click();
+      openFilePicker(fileInputRef.current, inputFocus, 'photo-picker');
     }
   };
 
   // --- MODAL LOGIC ---
 
   const triggerGiftInput = () => {
-    // Populate list: if user has data, use it. Else use defaults so they have something to edit.
-    if (userGiftMessages && userGiftMessages.length > 0) {
-      setGiftList([...userGiftMessages]);
-    } else {
-      setGiftList([...DEFAULT_GIFTS]);
-    }
     setShowGiftModal(true);
   };
 
-  const updateGiftItem = (index: number, value: string) => {
-    const newList = [...giftList];
-    newList[index] = value;
-    setGiftList(newList);
+  const compressGiftPhoto = (file: File) => {
+    return compressImage(file, GIFT_PHOTO_UPLOAD_SIZE, 0.8).then(dataUrlToBlob);
   };
 
-  const deleteGiftItem = (index: number) => {
-    const newList = giftList.filter((_, i) => i !== index);
-    setGiftList(newList);
+  const submitGifts = (gifts: GiftContent[]) => {
+    // An emptied list keeps the current gifts
+    if (gifts.length > 0) {
+      actions.setUserGifts(gifts);
+    }
+    setShowGiftModal(false);
   };
 
-  const addGiftItem = () => {
-    setGiftList([...giftList, ""]); // Add empty item to scroll to
+  const triggerTextInput = () => {
+    setTextDraft(formationText || DEFAULT_FORMATION_TEXT);
+    setShowTextModal(true);
   };
 
-  const submitGifts = () => {
-    // Filter out empty strings before submitting
-    const cleanedList = giftList.map(s => s.trim()).filter(s => s.length > 0);
-    
-    if (cleanedList.length > 0) {
-      onUserGiftsUpdate(cleanedList);
+  const submitSeed = () => {
+    const next = parseSeed(seedDraft);
+    if (next !== null) actions.setSeed(next);
+    setSeedDraft(null);
+  };
+
+  const copyShareLink = async () => {
+    const { url, tooLong } = await createShareLink(sceneStore);
+    setShareWarning(tooLong
+      ? `This link is ${url.length} characters long (over ${SHARE_LINK_WARN_LENGTH}); some apps may cut it off. Fewer or shorter gifts make it shorter.`
+      : null);
+    try {
+      await navigator.clipboard.writeText(url);
+      setLinkCopied(true);
+      setTimeout(() => setLinkCopied(false), 2000);
+    } catch (error) {
+      // Clipboard blocked (e.g. insecure context): let the user copy it by hand
+      console.log('Clipboard unavailable:', error);
+      window.prompt('Copy this link to share your tree:', url);
     }
-    setShowGiftModal(false);
+  };
+
+  const submitText = () => {
+    const text = textDraft.trim();
+    actions.setFormationText(text === DEFAULT_FORMATION_TEXT ? '' : text);
+    setShowTextModal(false);
+    // Show the result right away
+    formFromButton(AppState.TEXT);
   };
 
   return (
@@ -495,6 +960,16 @@ export const GestureUI: React.FC<GestureUIProps> = ({
                 </button>
               )}
             </div>
+
+            {/* Calibration Link */}
+            <div className="pb-6 -mt-4 text-center">
+              <button
+                onClick={openCalibration}
+                className="font-['Lato'] text-xs text-white/40 hover:text-white/70 underline underline-offset-4 transition-all duration-200"
+              >
+                Gestures not recognized? Calibrate for your hand
+              </button>
+            </div>
           </div>
 
           {/* Add CSS for bounce animation */}
@@ -510,96 +985,202 @@ export const GestureUI: React.FC<GestureUIProps> = ({
         </div>
       )}
 
+      {/* Hand Control Paused Indicator (above modal backdrops; calibration uses the hand itself) */}
+      {gesturesPaused && modelLoaded && !showCalibration && (
+        <div className="fixed top-3 left-1/2 -translate-x-1/2 z-[60] px-3 py-1.5 rounded-full bg-black/70 border border-amber-300/30 font-['Lato'] text-[10px] tracking-widest text-amber-300 uppercase pointer-events-none">
+          ✋ Hand control paused
+        </div>
+      )}
+
+      {/* Gesture Calibration Wizard */}
+      {showCalibration && (
+        <CalibrationWizard
+          thresholds={gestureThresholds}
+          subscribeToFrames={subscribeToFrames}
+          onSave={saveCalibration}
+          onReset={resetCalibration}
+          onClose={() => setShowCalibration(false)}
+        />
+      )}
+
+      {/* Photo Gallery Panel */}
+      {showPhotoGallery && (
+        <PhotoGallery
+          storage={photoStorage}
+          onAddPhotos={triggerUpload}
+          onClose={() => setShowPhotoGallery(false)}
+        />
+      )}
+
+      {/* Controls / Bindings Settings Panel */}
+      {showBindings && (
+        <BindingsPanel
+          bindings={bindings}
+          onSave={saveBindingsPanel}
+          onClose={() => setShowBindings(false)}
+        />
+      )}
+
       {/* 
-        Custom Modal Overlay: Gift List Editor
+        Custom Modal Overlay: Text Formation Editor
       */}
-      {showGiftModal && (
+      {showTextModal && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4 pointer-events-auto" style={{ 
+          background: 'rgba(0,0,0,0.85)',
+          backdropFilter: 'blur(12px)'
+        }}>
+          <div className="w-full max-w-md flex flex-col rounded-3xl overflow-hidden" style={{
+            background: 'rgba(0,0,0,0.6)',
+            border: '1px solid rgba(255,255,255,0.1)',
+            boxShadow: '0 25px 50px rgba(0,0,0,0.5)'
+          }}>
+             <div className="p-8 pb-6">
+                <h2 className="text-3xl font-['Playfair_Display'] text-white mb-2 text-center">
+                  Your Words
+                </h2>
+                <p className="text-white/40 text-sm font-['Lato'] text-center">
+                  The needles and lights spell this out. Long text wraps onto several lines.
+                </p>
+             </div>
+
+             <div className="px-8 pb-6">
+                <input 
+                  type="text"
+                  value={textDraft}
+                  onChange={(e) => setTextDraft(e.target.value)}
+                  onKeyDown={(e) => { if (e.key === 'Enter') submitText(); }}
+                  maxLength={FORMATION_TEXT_MAX_LENGTH}
+                  placeholder={DEFAULT_FORMATION_TEXT}
+                  className="w-full px-4 py-3 rounded-xl font-['Lato'] text-white placeholder-white/30 text-sm bg-white/5 border border-white/10 focus:border-white/30 focus:bg-white/10 transition-all duration-200 outline-none"
+                  autoFocus
+                />
+                <p className="mt-2 text-right text-white/30 text-xs font-['Lato']">
+                  {textDraft.length} / {FORMATION_TEXT_MAX_LENGTH}
+                </p>
+             </div>
+
+             <div className="px-8 pb-8 flex gap-3">
+                <button 
+                  onClick={() => setShowTextModal(false)}
+                  className="flex-1 py-3 rounded-xl font-['Lato'] text-sm text-white/60 hover:text-white hover:bg-white/5 transition-all duration-200"
+                >
+                  Cancel
+                </button>
+                <button 
+                  onClick={submitText}
+                  className="flex-1 py-3 rounded-xl font-['Lato'] text-sm font-medium bg-white text-black hover:bg-white/90 transition-all duration-200"
+                >
+                  Save
+                </button>
+             </div>
+          </div>
+        </div>
+      )}
+
+      {/* 
+        Custom Modal Overlay: Image Formation Editor
+      */}
+      {showImageModal && (
         <div className="fixed inset-0 z-50 flex items-center justify-center p-4 pointer-events-auto" style={{ 
           background: 'rgba(0,0,0,0.85)',
           backdropFilter: 'blur(12px)'
         }}>
-          <div className="w-full max-w-md flex flex-col max-h-[80vh] rounded-3xl overflow-hidden" style={{
+          <div className="w-full max-w-md flex flex-col max-h-[90vh] rounded-3xl overflow-hidden" style={{
             background: 'rgba(0,0,0,0.6)',
             border: '1px solid rgba(255,255,255,0.1)',
             boxShadow: '0 25px 50px rgba(0,0,0,0.5)'
           }}>
-             
-             {/* Simple Header */}
              <div className="p-8 pb-6">
                 <h2 className="text-3xl font-['Playfair_Display'] text-white mb-2 text-center">
-                  Your Wishes
+                  Your Image
                 </h2>
                 <p className="text-white/40 text-sm font-['Lato'] text-center">
-                  {giftList.length} {giftList.length === 1 ? 'gift' : 'gifts'}
+                  The particles form its silhouette, coloured from the image itself.
                 </p>
              </div>
-             
-             {/* Clean List */}
-             <div className="flex-1 overflow-y-auto px-8 pb-6 space-y-3">
-                {giftList.map((gift, index) => (
-                  <div key={index} className="group" style={{ opacity: 0, animation: `fadeIn 0.3s ease-out ${index * 0.05}s forwards` }}>
-                    <style>{`
-                      @keyframes fadeIn {
-                        to { opacity: 1; }
-                      }
-                    `}</style>
-                    
-                    <div className="flex gap-3 items-center">
-                      <input 
-                        type="text"
-                        value={gift}
-                        onChange={(e) => updateGiftItem(index, e.target.value)}
-                        placeholder="Enter a wish..."
-                        className="flex-1 px-4 py-3 rounded-xl font-['Lato'] text-white placeholder-white/30 text-sm bg-white/5 border border-white/10 focus:border-white/30 focus:bg-white/10 transition-all duration-200 outline-none"
-                        autoFocus={index === giftList.length - 1 && gift === ""}
+
+             <div className="flex-1 overflow-y-auto px-8 pb-6 space-y-5">
+                {shapeImage ? (
+                  <>
+                    {/* Original and cut-out side by side */}
+                    <div className="grid grid-cols-2 gap-3">
+                      <div className="aspect-square rounded-xl border border-white/10 bg-white/5 flex items-center justify-center overflow-hidden">
+                        <img src={shapeImage.url} alt="Uploaded" className="max-w-full max-h-full object-contain" />
+                      </div>
+                      <div className="aspect-square rounded-xl border border-white/10 bg-black flex items-center justify-center overflow-hidden">
+                        <canvas ref={imageMaskCanvasRef} className="max-w-full max-h-full object-contain" style={{ imageRendering: 'pixelated' }} />
+                      </div>
+                    </div>
+
+                    {/* Threshold */}
+                    <label className="block font-['Lato'] text-xs text-white/60">
+                      <span className="flex justify-between mb-2">
+                        <span>Threshold</span>
+                        <span className="text-white/40">{Math.round(shapeImage.settings.threshold * 100)}%</span>
+                      </span>
+                      <input
+                        type="range"
+                        min={0.05}
+                        max={0.95}
+                        step={0.01}
+                        value={shapeImage.settings.threshold}
+                        onChange={(e) => updateShapeImageSettings({ threshold: Number(e.target.value) })}
+                        className="w-full accent-[#FFD700]"
                       />
-                      
-                      <button 
-                        onClick={() => deleteGiftItem(index)}
-                        className="w-9 h-9 flex items-center justify-center rounded-xl text-white/40 hover:text-white/80 hover:bg-white/10 transition-all duration-200"
-                        title="Remove"
+                    </label>
+
+                    {/* Mode & Invert */}
+                    <div className="flex gap-2 justify-center">
+                      {(['silhouette', 'outline'] as const).map(mode => (
+                        <button
+                          key={mode}
+                          onClick={() => updateShapeImageSettings({ mode })}
+                          className={`px-3 py-1.5 rounded-full bg-white/5 hover:bg-white/10 border border-white/10 hover:border-white/20 font-['Lato'] text-[9px] tracking-wide transition-all duration-200 active:scale-95 ${shapeImage.settings.mode === mode ? 'text-[#FFD700]' : 'text-white/50 hover:text-white/80'}`}
+                          title={mode === 'outline' ? 'Trace only the edges (crisper for logos)' : 'Fill the whole shape'}
+                        >
+                          {mode === 'outline' ? 'Outline' : 'Silhouette'}
+                        </button>
+                      ))}
+                      <button
+                        onClick={() => updateShapeImageSettings({ invert: !shapeImage.settings.invert })}
+                        className={`px-3 py-1.5 rounded-full bg-white/5 hover:bg-white/10 border border-white/10 hover:border-white/20 font-['Lato'] text-[9px] tracking-wide transition-all duration-200 active:scale-95 ${shapeImage.settings.invert ? 'text-[#FFD700]' : 'text-white/50 hover:text-white/80'}`}
+                        title="Swap the shape and its background"
                       >
-                        <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
-                          <line x1="18" y1="6" x2="6" y2="18"></line>
-                          <line x1="6" y1="6" x2="18" y2="18"></line>
-                        </svg>
+                        {shapeImage.settings.invert ? 'Invert: On' : 'Invert: Off'}
                       </button>
                     </div>
+                  </>
+                ) : (
+                  <div className="text-center py-12 text-white/30 text-sm font-['Lato']">
+                    No image yet. Logos with a transparent or plain background work best.
                   </div>
-                ))}
-
-                {giftList.length === 0 && (
-                   <div className="text-center py-12 text-white/30 text-sm font-['Lato']">
-                     No wishes yet
-                   </div>
                 )}
              </div>
-             
-             {/* Simple Footer */}
+
              <div className="px-8 pb-8 space-y-3">
                 <button 
-                  onClick={addGiftItem}
-                  className="w-full py-3 rounded-xl font-['Lato'] text-sm text-white/60 hover:text-white border border-white/10 hover:border-white/20 hover:bg-white/5 transition-all duration-200 flex items-center justify-center gap-2"
+                  onClick={triggerShapeImageUpload}
+                  className="w-full py-3 rounded-xl font-['Lato'] text-sm text-white/60 hover:text-white border border-white/10 hover:border-white/20 hover:bg-white/5 transition-all duration-200"
                 >
-                  <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
-                    <line x1="12" y1="5" x2="12" y2="19"></line>
-                    <line x1="5" y1="12" x2="19" y2="12"></line>
-                  </svg>
-                  Add wish
+                  {shapeImage ? 'Replace image' : 'Choose image'}
                 </button>
-
                 <div className="flex gap-3">
+                  {shapeImage && (
+                    <button 
+                      onClick={() => {
+                        actions.setShapeImage(null);
+                        if (appState === AppState.IMAGE) formFromButton(AppState.TREE_SHAPE);
+                      }}
+                      className="flex-1 py-3 rounded-xl font-['Lato'] text-sm text-white/60 hover:text-white hover:bg-white/5 transition-all duration-200"
+                    >
+                      Remove
+                    </button>
+                  )}
                   <button 
-                    onClick={() => setShowGiftModal(false)}
-                    className="flex-1 py-3 rounded-xl font-['Lato'] text-sm text-white/60 hover:text-white hover:bg-white/5 transition-all duration-200"
-                  >
-                    Cancel
-                  </button>
-                  <button 
-                    onClick={submitGifts}
+                    onClick={() => setShowImageModal(false)}
                     className="flex-1 py-3 rounded-xl font-['Lato'] text-sm font-medium bg-white text-black hover:bg-white/90 transition-all duration-200"
                   >
-                    Save
+                    Done
                   </button>
                 </div>
              </div>
@@ -607,6 +1188,18 @@ export const GestureUI: React.FC<GestureUIProps> = ({
         </div>
       )}
 
+      {/* Gift List Editor */}
+      {showGiftModal && (
+        <GiftEditor
+          // Populate list: if user has data, use it. Else use defaults so they have something to edit.
+          gifts={userGifts.length > 0 ? userGifts : DEFAULT_GIFTS}
+          inputFocus={inputFocus}
+          compressPhoto={compressGiftPhoto}
+          onSave={submitGifts}
+          onClose={() => setShowGiftModal(false)}
+        />
+      )}
+
       {/* Main Gesture UI Layer */}
       <div className="absolute inset-0 pointer-events-none flex flex-col justify-between z-10" style={{
         paddingTop: 'max(1rem, env(safe-area-inset-top))',
@@ -626,6 +1219,33 @@ export const GestureUI: React.FC<GestureUIProps> = ({
           style={{ display: 'none' }}
         />
 
+        {/* Hidden File Input for the Image Formation */}
+        <input 
+          type="file" 
+          ref={shapeImageInputRef} 
+          onChange={handleShapeImageUpload} 
+          accept="image/*" 
+          style={{ display: 'none' }}
+        />
+
+        {/* Hidden File Input for Tree Imports */}
+        <input 
+          type="file" 
+          ref={treeInputRef} 
+          onChange={handleTreeUpload} 
+          accept="application/json,.json" 
+          style={{ display: 'none' }}
+        />
+
+        {/* Hidden File Input for Landmark Recordings */}
+        <input 
+          type="file" 
+          ref={recordingInputRef} 
+          onChange={handleRecordingUpload} 
+          accept="application/json,.json" 
+          style={{ display: 'none' }}
+        />
+
         {/* 
           High-End Minimalist Header 
           Mobile Optimized: Smaller text, tighter spacing
@@ -638,22 +1258,22 @@ export const GestureUI: React.FC<GestureUIProps> = ({
             </h1>
             
             <div className="mt-4 md:mt-8 space-y-1.5 md:space-y-2 pointer-events-auto">
-               <InstructionRow label="SCATTER" gesture="Open Hand" active={appState === AppState.SCATTERED} />
-               <InstructionRow label="FORM TREE" gesture="Closed Fist" active={appState === AppState.TREE_SHAPE} />
+               <InstructionRow label="SCATTER" gesture={gestureHint(SceneAction.SCATTER)} active={appState === AppState.SCATTERED} />
+               <InstructionRow label="FORM TREE" gesture={gestureHint(SceneAction.FORM_TREE)} active={appState === AppState.TREE_SHAPE} />
                
                {/* Clickable Area for Upload */}
                <div 
                  onClick={(e) => { 
-                   triggerUpload(); 
+                   setShowPhotoGallery(true); 
                    (e.currentTarget as HTMLElement).blur(); // Remove focus after click
                  }} 
                  onTouchEnd={(e) => {
                    (e.currentTarget as HTMLElement).blur(); // Remove focus after touch on mobile
                  }}
                  className="group cursor-pointer transition-opacity" 
-                 title="Secret: Upload your own photo(s)"
+                 title="Secret: Manage your photos"
                >
-                 <InstructionRow label="PICK A PHOTO" gesture="Pinch Index & Thumb" active={interactionMode === InteractionMode.PULLING_FRAME} />
+                 <InstructionRow label="PICK A PHOTO" gesture={gestureHint(SceneAction.PULL_FRAME)} active={interactionMode === InteractionMode.PULLING_FRAME} />
                  {/* Visual Hint on Hover - Desktop only */}
                  <div className="hidden md:block h-0 group-hover:h-0.5 w-0 group-hover:w-full bg-[#FFD700] transition-all duration-300 opacity-0 group-hover:opacity-100 mt-0.5"></div>
                </div>
@@ -670,7 +1290,7 @@ export const GestureUI: React.FC<GestureUIProps> = ({
                  className="group cursor-pointer transition-opacity" 
                  title="Secret: Manage your gift list"
                >
-                 <InstructionRow label="PICK A GIFT" gesture="Point Finger" active={interactionMode === InteractionMode.PULLING_GIFT} />
+                 <InstructionRow label="PICK A GIFT" gesture={gestureHint(SceneAction.PULL_GIFT)} active={interactionMode === InteractionMode.PULLING_GIFT} />
                  {/* Visual Hint on Hover - Desktop only */}
                  <div className="hidden md:block h-0 group-hover:h-0.5 w-0 group-hover:w-full bg-[#FFD700] transition-all duration-300 opacity-0 group-hover:opacity-100 mt-0.5"></div>
                </div>
@@ -679,7 +1299,7 @@ export const GestureUI: React.FC<GestureUIProps> = ({
 
           {/* Minimalist Camera Frame - Mobile Optimized size */}
           <div className="relative group">
-             <div className="w-20 h-16 md:w-40 md:h-32 rounded-sm overflow-hidden border border-white/10 bg-black/40 shadow-2xl transition-all duration-700 opacity-60 hover:opacity-100 pointer-events-auto">
+             <div className="relative w-20 h-16 md:w-40 md:h-32 rounded-sm overflow-hidden border border-white/10 bg-black/40 shadow-2xl transition-all duration-700 opacity-60 hover:opacity-100 pointer-events-auto">
                 <Webcam 
                   ref={webcamRef}
                   className="w-full h-full object-cover -scale-x-100 opacity-60 grayscale hover:grayscale-0 transition-all duration-500"
@@ -688,9 +1308,27 @@ export const GestureUI: React.FC<GestureUIProps> = ({
                   width={320}
                   height={240}
                 />
+                {showOverlay && (
+                  <LandmarkOverlay subscribeToAnalysis={subscribeToAnalysis} width={320} height={240} />
+                )}
+                {gesturesPaused && (
+                  <div className="absolute inset-0 flex items-center justify-center bg-black/50 font-['Lato'] text-[8px] md:text-[9px] tracking-widest text-amber-300 uppercase">
+                    Paused
+                  </div>
+                )}
              </div>
              {/* Status Dot */}
-             <div className={`absolute top-1 right-1 md:top-2 md:right-2 w-1.5 h-1.5 rounded-full ${modelLoaded ? 'bg-emerald-400/80 shadow-[0_0_8px_rgba(52,211,153,0.8)]' : 'bg-rose-500/80'}`} />
+             <div className={`absolute top-1 right-1 md:top-2 md:right-2 w-1.5 h-1.5 rounded-full ${!modelLoaded ? 'bg-rose-500/80' : gesturesPaused ? 'bg-amber-300/80' : 'bg-emerald-400/80 shadow-[0_0_8px_rgba(52,211,153,0.8)]'}`} />
+             {/* Recording / Replay Badge */}
+             {(isRecording || isReplaying) && (
+               <div className="absolute bottom-1 left-1 md:bottom-2 md:left-2 px-1.5 rounded-sm bg-black/60 font-['Lato'] text-[8px] tracking-widest text-rose-400 uppercase">
+                 {isRecording ? 'Rec' : 'Replay'}
+               </div>
+             )}
+             {/* Active Input Source */}
+             <p className="mt-1 text-right font-['Lato'] text-[8px] md:text-[9px] tracking-widest text-white/40 uppercase">
+               {INPUT_SOURCE_LABELS[inputSource]}
+             </p>
           </div>
         </div>
 
@@ -723,17 +1361,196 @@ export const GestureUI: React.FC<GestureUIProps> = ({
                 Screenshot
               </button>
             )}
+
+            {/* Controls / Bindings Settings */}
+            <button
+              onClick={() => setShowBindings(true)}
+              className="px-3 py-1.5 rounded-full bg-white/5 hover:bg-white/10 border border-white/10 hover:border-white/20 text-white/50 hover:text-white/80 font-['Lato'] text-[9px] tracking-wide transition-all duration-200 active:scale-95"
+              title="Configure gesture, button and key bindings"
+            >
+              Controls
+            </button>
+
+            {/* Tree Export / Import */}
+            <button
+              onClick={exportTree}
+              className="px-3 py-1.5 rounded-full bg-white/5 hover:bg-white/10 border border-white/10 hover:border-white/20 text-white/50 hover:text-white/80 font-['Lato'] text-[9px] tracking-wide transition-all duration-200 active:scale-95"
+              title="Download your photos, gifts, shape and settings as a file"
+            >
+              Export Tree
+            </button>
+            <button
+              onClick={() => { if (treeInputRef.current) openFilePicker(treeInputRef.current, inputFocus, 'tree-picker'); }}
+              className="px-3 py-1.5 rounded-full bg-white/5 hover:bg-white/10 border border-white/10 hover:border-white/20 text-white/50 hover:text-white/80 font-['Lato'] text-[9px] tracking-wide transition-all duration-200 active:scale-95"
+              title="Load a tree file exported on another device"
+            >
+              Import Tree
+            </button>
+
+            {/* Photo Storage Usage */}
+            {photoStorage && photoStorage.count > 0 && (
+              <span
+                className="px-3 py-1.5 rounded-full bg-white/5 border border-white/10 text-white/40 font-['Lato'] text-[9px] tracking-wide"
+                title={photoStorage.usedBytes !== null && photoStorage.quotaBytes !== null
+                  ? `Photos are stored in this browser. Site storage: ${formatBytes(photoStorage.usedBytes)} of ${formatBytes(photoStorage.quotaBytes)} used`
+                  : 'Photos are stored in this browser'}
+              >
+                💾 {photoStorage.count} photo{photoStorage.count === 1 ? '' : 's'} · {formatBytes(photoStorage.photoBytes)}
+              </span>
+            )}
+
+            {/* Analog Steering Toggle */}
+            <button
+              onClick={() => setAnalogSteer(prev => !prev)}
+              className={`px-3 py-1.5 rounded-full bg-white/5 hover:bg-white/10 border border-white/10 hover:border-white/20 font-['Lato'] text-[9px] tracking-wide transition-all duration-200 active:scale-95 ${analogSteer ? 'text-[#FFD700]' : 'text-white/50 hover:text-white/80'}`}
+              title="Steer the camera with your palm position"
+            >
+              {analogSteer ? 'Steer: On' : 'Steer: Off'}
+            </button>
+
+            {/* Skeleton Overlay Toggle */}
+            <button
+              onClick={() => setShowOverlay(prev => !prev)}
+              className={`px-3 py-1.5 rounded-full bg-white/5 hover:bg-white/10 border border-white/10 hover:border-white/20 font-['Lato'] text-[9px] tracking-wide transition-all duration-200 active:scale-95 ${showOverlay ? 'text-[#FFD700]' : 'text-white/50 hover:text-white/80'}`}
+              title="Show the tracked hand skeleton on the camera preview"
+            >
+              {showOverlay ? 'Skeleton: On' : 'Skeleton: Off'}
+            </button>
+
+            {/* Landmark Recording Button */}
+            <button
+              onClick={toggleRecording}
+              disabled={isReplaying}
+              className={`px-3 py-1.5 rounded-full bg-white/5 hover:bg-white/10 border border-white/10 hover:border-white/20 font-['Lato'] text-[9px] tracking-wide transition-all duration-200 active:scale-95 disabled:opacity-30 ${isRecording ? 'text-rose-400' : 'text-white/50 hover:text-white/80'}`}
+              title="Record hand landmarks to a file"
+            >
+              {isRecording ? '● Stop Rec' : 'Record'}
+            </button>
+
+            {/* Landmark Replay Button */}
+            <button
+              onClick={() => {
+                if (isReplaying) stopReplay();
+                else if (recordingInputRef.current) openFilePicker(recordingInputRef.current, inputFocus, 'recording-picker');
+              }}
+              disabled={isRecording}
+              className="px-3 py-1.5 rounded-full bg-white/5 hover:bg-white/10 border border-white/10 hover:border-white/20 text-white/50 hover:text-white/80 font-['Lato'] text-[9px] tracking-wide transition-all duration-200 active:scale-95 disabled:opacity-30"
+              title="Replay a recorded landmark file instead of the webcam"
+            >
+              {isReplaying ? 'Stop Replay' : 'Replay'}
+            </button>
+          </div>
+
+          {/* Formation Picker */}
+          <div className="flex flex-wrap justify-center gap-2">
+            {FORMATION_CYCLE.map(formation => (
+              <button
+                key={formation}
+                onClick={() => formFromButton(formation)}
+                className={`px-3 py-1.5 rounded-full bg-white/5 hover:bg-white/10 border border-white/10 hover:border-white/20 font-['Lato'] text-[9px] tracking-wide transition-all duration-200 active:scale-95 ${appState === formation ? 'text-[#FFD700]' : 'text-white/50 hover:text-white/80'}`}
+                title={`Form the ${FORMATIONS[formation].label.toLowerCase()}`}
+              >
+                {FORMATIONS[formation].label}
+              </button>
+            ))}
+            {/* Edit the text formation */}
+            <button
+              onClick={triggerTextInput}
+              className="px-3 py-1.5 rounded-full bg-white/5 hover:bg-white/10 border border-white/10 hover:border-white/20 text-white/50 hover:text-white/80 font-['Lato'] text-[9px] tracking-wide transition-all duration-200 active:scale-95"
+              title="Edit the words of the text formation"
+            >
+              ✎ Text
+            </button>
+            {/* Edit the image formation */}
+            <button
+              onClick={() => setShowImageModal(true)}
+              className="px-3 py-1.5 rounded-full bg-white/5 hover:bg-white/10 border border-white/10 hover:border-white/20 text-white/50 hover:text-white/80 font-['Lato'] text-[9px] tracking-wide transition-all duration-200 active:scale-95"
+              title="Choose the image for the image formation and tune its cut-out"
+            >
+              ✎ Image
+            </button>
+          </div>
+
+          {/* Seed: the same seed always grows the same tree */}
+          <div className="flex justify-center gap-2">
+            <button
+              onClick={() => actions.setSeed(generateSeed())}
+              className="px-3 py-1.5 rounded-full bg-white/5 hover:bg-white/10 border border-white/10 hover:border-white/20 text-white/50 hover:text-white/80 font-['Lato'] text-[9px] tracking-wide transition-all duration-200 active:scale-95"
+              title="Grow a new tree from a random seed"
+            >
+              🎲 New Tree
+            </button>
+            {seedDraft === null ? (
+              <button
+                onClick={() => setSeedDraft(String(seed))}
+                className="px-3 py-1.5 rounded-full bg-white/5 hover:bg-white/10 border border-white/10 hover:border-white/20 text-white/50 hover:text-white/80 font-['Lato'] text-[9px] tracking-wide transition-all duration-200 active:scale-95"
+                title="Enter a seed to recreate a tree"
+              >
+                Seed #{seed}
+              </button>
+            ) : (
+              <input
+                autoFocus
+                inputMode="numeric"
+                value={seedDraft}
+                onChange={(e) => setSeedDraft(e.target.value.replace(/\D/g, '').slice(0, String(SEED_MAX).length))}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') submitSeed();
+                  if (e.key === 'Escape') setSeedDraft(null);
+                }}
+                onBlur={submitSeed}
+                className="w-24 px-3 py-1.5 rounded-full bg-white/10 border border-[#FFD700]/40 text-[#FFD700] font-['Lato'] text-[9px] tracking-wide text-center outline-none"
+                placeholder={`0 - ${SEED_MAX}`}
+              />
+            )}
+            <button
+              onClick={copyShareLink}
+              className={`px-3 py-1.5 rounded-full bg-white/5 hover:bg-white/10 border border-white/10 hover:border-white/20 font-['Lato'] text-[9px] tracking-wide transition-all duration-200 active:scale-95 ${linkCopied ? 'text-[#FFD700]' : 'text-white/50 hover:text-white/80'}`}
+              title="Copy a link that recreates this tree (formation, seed, gifts, text and camera; photos and photo or voice gifts are not included)"
+            >
+              {linkCopied ? '✓ Copied' : '🔗 Share Link'}
+            </button>
           </div>
+          {shareWarning && (
+            <button
+              onClick={() => setShareWarning(null)}
+              className="max-w-xs px-3 py-1.5 rounded-2xl bg-black/60 border border-[#FFD700]/30 text-[#FFD700]/80 font-['Lato'] text-[9px] tracking-wide text-center"
+              title="Dismiss"
+            >
+              ⚠ {shareWarning}
+            </button>
+          )}
 
           {/* Control Buttons */}
           <div className="flex gap-3 md:gap-6 bg-black/60 backdrop-blur-md px-4 py-3 md:px-6 md:py-3 rounded-full border border-white/10 text-white/90 font-['Lato'] text-[10px] md:text-xs tracking-widest uppercase shadow-lg">
-             <button onClick={() => applyGestureEffect('OPEN')} className="active:scale-95 transition-transform hover:text-white">Scatter</button>
-             <div className="w-[1px] bg-white/20 h-3 md:h-4 self-center"></div>
-             <button onClick={() => applyGestureEffect('FIST')} className="active:scale-95 transition-transform hover:text-white">Tree</button>
-             <div className="w-[1px] bg-white/20 h-3 md:h-4 self-center"></div>
-             <button onClick={() => applyGestureEffect('PINCH')} className="active:scale-95 transition-transform hover:text-white">Photo</button>
-             <div className="w-[1px] bg-white/20 h-3 md:h-4 self-center"></div>
-             <button onClick={() => applyGestureEffect('POINT')} className="active:scale-95 transition-transform hover:text-white">Gift</button>
+             {/* Previous Item */}
+             <button
+               onClick={() => stepItemFromButton(-1)}
+               disabled={interactionMode === InteractionMode.IDLE}
+               className="active:scale-95 transition-all hover:text-white disabled:opacity-30"
+               title="Previous item"
+             >
+               ‹
+             </button>
+             {CONTROL_BUTTONS
+               .filter(button => bindings.buttons[button].action !== SceneAction.NONE)
+               .map((button, index) => (
+                 <React.Fragment key={button}>
+                   {index > 0 && <div className="w-[1px] bg-white/20 h-3 md:h-4 self-center"></div>}
+                   <button {...buttonHandlers(button)} className="active:scale-95 transition-transform hover:text-white">
+                     {ACTION_LABELS[bindings.buttons[button].action]}
+                   </button>
+                 </React.Fragment>
+               ))}
+             {/* Next Item */}
+             <button
+               onClick={() => stepItemFromButton(1)}
+               disabled={interactionMode === InteractionMode.IDLE}
+               className="active:scale-95 transition-all hover:text-white disabled:opacity-30"
+               title="Next item"
+             >
+               ›
+             </button>
           </div>
         </div>
       </div>
@@ -0,0 +1,406 @@
+// React
+import React, { useEffect, useRef, useState } from 'react';
+
+// Types & Utils
+import { GiftContent, GiftKind, GiftMedia } from '../types';
+import {
+  GIFT_KINDS,
+  GIFT_KIND_LABELS,
+  GIFT_TITLE_MAX_LENGTH,
+  GIFT_BODY_MAX_LENGTH,
+  GIFT_LABEL_MAX_LENGTH,
+  GIFT_URL_MAX_LENGTH,
+  GIFT_AUDIO_MAX_SECONDS,
+  normalizeGiftUrl,
+  formatDuration,
+} from '../utils/giftContent';
+import { createGiftMedia, collectGiftMedia, releaseGiftMedia } from '../utils/giftStorage';
+import { AudioRecorder, canRecordAudio, createAudioRecorder } from '../utils/audioRecorder';
+import { InputFocus, openFilePicker } from '../utils/inputFocus';
+
+interface GiftEditorProps {
+  /** Gifts to start from (the built-in wishes when the user has none) */
+  gifts: GiftContent[];
+  inputFocus: InputFocus;
+  /** Shrink a picked photo for storage */
+  compressPhoto: (file: File) => Promise<Blob>;
+  /** Receives the finished list (empty gifts are dropped) */
+  onSave: (gifts: GiftContent[]) => void;
+  onClose: () => void;
+}
+
+/**
+ * Editable gift row
+ * Keeps the fields of every kind, so switching kind back and forth loses nothing.
+ */
+interface GiftDraft {
+  key: number;
+  kind: GiftKind;
+  title: string;
+  body: string;
+  url: string;
+  qr: boolean;
+  /** Photo caption, link or voice message label */
+  label: string;
+  photo: GiftMedia | null;
+  audio: GiftMedia | null;
+  duration: number;
+}
+
+const fieldClass = "px-2 py-1.5 rounded-lg font-['Lato'] text-xs text-white bg-white/5 border border-white/10 focus:border-white/30 outline-none";
+const smallButtonClass = "px-3 py-1.5 rounded-lg font-['Lato'] text-xs text-white/70 hover:text-white border border-white/10 hover:border-white/20 hover:bg-white/5 transition-all duration-200 disabled:opacity-30 disabled:pointer-events-none";
+
+let nextDraftKey = 0;
+
+const createDraft = (gift: GiftContent | null): GiftDraft => ({
+  key: nextDraftKey++,
+  kind: gift?.kind ?? 'card',
+  title: gift?.kind === 'card' ? gift.title : '',
+  body: gift?.kind === 'card' ? gift.body : '',
+  url: gift?.kind === 'link' ? gift.url : '',
+  qr: gift?.kind === 'link' ? gift.qr : true,
+  label: gift?.kind === 'photo' ? gift.caption : gift?.kind === 'link' || gift?.kind === 'audio' ? gift.label : '',
+  photo: gift?.kind === 'photo' ? gift.media : null,
+  audio: gift?.kind === 'audio' ? gift.media : null,
+  duration: gift?.kind === 'audio' ? gift.duration : 0,
+});
+
+/**
+ * Turn a row back into a gift
+ * @returns The gift, null for an empty card, or an error message
+ */
+const readDraft = (draft: GiftDraft): GiftContent | null | string => {
+  const label = draft.label.trim();
+  switch (draft.kind) {
+    case 'card': {
+      const title = draft.title.trim();
+      const body = draft.body.trim();
+      if (!body) return title ? 'write a message under the title' : null;
+      return { kind: 'card', title, body };
+    }
+    case 'photo':
+      return draft.photo ? { kind: 'photo', media: draft.photo, caption: label } : 'choose a photo';
+    case 'link': {
+      const url = normalizeGiftUrl(draft.url);
+      return url ? { kind: 'link', url, label, qr: draft.qr } : 'enter a web address such as example.com';
+    }
+    case 'audio':
+      return draft.audio ? { kind: 'audio', media: draft.audio, label, duration: draft.duration } : 'record a voice message';
+  }
+};
+
+// Fields of a single gift, depending on its kind
+const GiftRow: React.FC<{
+  draft: GiftDraft;
+  isRecording: boolean;
+  canRecord: boolean;
+  onChange: (changes: Partial<GiftDraft>) => void;
+  onPickPhoto: () => void;
+  onRecord: () => void;
+  onStopRecording: () => void;
+  onRemove: () => void;
+}> = ({ draft, isRecording, canRecord, onChange, onPickPhoto, onRecord, onStopRecording, onRemove }) => (
+  <div className="p-3 rounded-xl bg-white/[0.03] border border-white/10 space-y-2">
+    <div className="flex gap-2 items-center">
+      <select
+        value={draft.kind}
+        onChange={(e) => onChange({ kind: e.target.value as GiftKind })}
+        className={fieldClass}
+        title="What the gift holds"
+      >
+        {GIFT_KINDS.map(kind => (
+          <option key={kind} value={kind} className="bg-black">{GIFT_KIND_LABELS[kind]}</option>
+        ))}
+      </select>
+      <div className="flex-1" />
+      <button
+        onClick={onRemove}
+        className="w-7 h-7 flex items-center justify-center rounded-lg text-white/40 hover:text-white/80 hover:bg-white/10 transition-all duration-200"
+        title="Remove"
+      >
+        ×
+      </button>
+    </div>
+
+    {draft.kind === 'card' && (
+      <>
+        <input
+          type="text"
+          value={draft.title}
+          maxLength={GIFT_TITLE_MAX_LENGTH}
+          onChange={(e) => onChange({ title: e.target.value })}
+          placeholder="Title (optional)"
+          className={`${fieldClass} w-full placeholder-white/30`}
+        />
+        <textarea
+          value={draft.body}
+          maxLength={GIFT_BODY_MAX_LENGTH}
+          rows={3}
+          onChange={(e) => onChange({ body: e.target.value })}
+          placeholder="Enter a wish..."
+          className={`${fieldClass} w-full resize-none placeholder-white/30`}
+        />
+      </>
+    )}
+
+    {draft.kind === 'photo' && (
+      <div className="flex gap-3 items-center">
+        {draft.photo
+          ? <img src={draft.photo.url} alt={draft.label || 'Gift photo'} className="w-14 h-14 object-cover rounded-lg border border-white/10" />
+          : <div className="w-14 h-14 rounded-lg border border-dashed border-white/20" />}
+        <div className="flex-1 min-w-0 space-y-1.5">
+          <button onClick={onPickPhoto} className={smallButtonClass}>
+            {draft.photo ? 'Change photo' : 'Choose photo'}
+          </button>
+          <input
+            type="text"
+            value={draft.label}
+            maxLength={GIFT_LABEL_MAX_LENGTH}
+            onChange={(e) => onChange({ label: e.target.value })}
+            placeholder="Caption (optional)"
+            className={`${fieldClass} w-full placeholder-white/30`}
+          />
+        </div>
+      </div>
+    )}
+
+    {draft.kind === 'link' && (
+      <>
+        <input
+          type="url"
+          value={draft.url}
+          maxLength={GIFT_URL_MAX_LENGTH}
+          onChange={(e) => onChange({ url: e.target.value })}
+          placeholder="https://..."
+          className={`${fieldClass} w-full placeholder-white/30`}
+        />
+        <div className="flex gap-3 items-center">
+          <input
+            type="text"
+            value={draft.label}
+            maxLength={GIFT_LABEL_MAX_LENGTH}
+            onChange={(e) => onChange({ label: e.target.value })}
+            placeholder="Label (optional)"
+            className={`${fieldClass} flex-1 min-w-0 placeholder-white/30`}
+          />
+          <label className="flex items-center gap-1.5 font-['Lato'] text-xs text-white/60 cursor-pointer" title="Show a QR code so the link can be opened on a phone">
+            <input type="checkbox" checked={draft.qr} onChange={(e) => onChange({ qr: e.target.checked })} />
+            QR code
+          </label>
+        </div>
+      </>
+    )}
+
+    {draft.kind === 'audio' && (
+      <>
+        <div className="flex gap-2 items-center">
+          {isRecording ? (
+            <button onClick={onStopRecording} className={`${smallButtonClass} text-red-300 border-red-300/40`}>
+              ■ Stop
+            </button>
+          ) : (
+            <button onClick={onRecord} disabled={!canRecord} className={smallButtonClass} title={canRecord ? `Up to ${GIFT_AUDIO_MAX_SECONDS} seconds` : 'Recording is not supported in this browser'}>
+              ● {draft.audio ? 'Record again' : 'Record'}
+            </button>
+          )}
+          {isRecording && <span className="font-['Lato'] text-xs text-red-300 animate-pulse">Recording…</span>}
+          {!isRecording && draft.audio && (
+            <>
+              <audio src={draft.audio.url} controls className="h-8 flex-1 min-w-0" />
+              <span className="font-['Lato'] text-[10px] text-white/40">{formatDuration(draft.duration)}</span>
+            </>
+          )}
+        </div>
+        <input
+          type="text"
+          value={draft.label}
+          maxLength={GIFT_LABEL_MAX_LENGTH}
+          onChange={(e) => onChange({ label: e.target.value })}
+          placeholder="Label (optional)"
+          className={`${fieldClass} w-full placeholder-white/30`}
+        />
+      </>
+    )}
+  </div>
+);
+
+/**
+ * Gift list editor
+ * Works on a draft: photos and recordings made here are only kept if the list is saved.
+ */
+export const GiftEditor: React.FC<GiftEditorProps> = ({ gifts, inputFocus, compressPhoto, onSave, onClose }) => {
+  const [drafts, setDrafts] = useState<GiftDraft[]>(() => gifts.map(createDraft));
+  const [error, setError] = useState<string | null>(null);
+  const [recordingKey, setRecordingKey] = useState<number | null>(null);
+  const photoInputRef = useRef<HTMLInputElement>(null);
+  const photoTargetRef = useRef<number | null>(null);
+  const recorderRef = useRef<AudioRecorder | null>(null);
+  // Media created in this editor, and what of it ended up saved
+  const createdMediaRef = useRef<GiftMedia[]>([]);
+  const savedMediaRef = useRef<GiftMedia[]>([]);
+
+  const updateDraft = (key: number, changes: Partial<GiftDraft>) => {
+    setDrafts(list => list.map(draft => (draft.key === key ? { ...draft, ...changes } : draft)));
+    setError(null);
+  };
+
+  // Stop the microphone and free unsaved media when the editor closes
+  useEffect(() => () => {
+    recorderRef.current?.cancel();
+    releaseGiftMedia(createdMediaRef.current.filter(media => !savedMediaRef.current.includes(media)));
+  }, []);
+
+  const pickPhoto = (key: number) => {
+    photoTargetRef.current = key;
+    if (photoInputRef.current) openFilePicker(photoInputRef.current, inputFocus, 'gift-photo-picker');
+  };
+
+  const handlePhotoUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    const key = photoTargetRef.current;
+    if (file && key !== null) {
+      compressPhoto(file)
+        .then((blob) => {
+          const media = createGiftMedia(blob);
+          createdMediaRef.current.push(media);
+          updateDraft(key, { photo: media });
+        })
+        .catch((error) => {
+          console.error('❌ Error processing gift photo:', error);
+          alert('Could not read that image, please try another one');
+        });
+    }
+    if (e.target) e.target.value = '';
+  };
+
+  const startRecording = (key: number) => {
+    recorderRef.current?.cancel();
+    const recorder = createAudioRecorder(GIFT_AUDIO_MAX_SECONDS, ({ blob, duration }) => {
+      const media = createGiftMedia(blob);
+      createdMediaRef.current.push(media);
+      updateDraft(key, { audio: media, duration });
+      setRecordingKey(null);
+    });
+    recorderRef.current = recorder;
+    setRecordingKey(key);
+    recorder.start().catch((error) => {
+      console.error('❌ Could not start recording:', error);
+      setRecordingKey(null);
+      alert(`Could not use the microphone: ${error instanceof Error ? error.message : error}`);
+    });
+  };
+
+  const stopRecording = () => {
+    recorderRef.current?.stop();
+  };
+
+  const removeDraft = (key: number) => {
+    if (key === recordingKey) {
+      recorderRef.current?.cancel();
+      setRecordingKey(null);
+    }
+    setDrafts(list => list.filter(draft => draft.key !== key));
+    setError(null);
+  };
+
+  const submit = () => {
+    if (recordingKey !== null) {
+      setError('Stop the recording before saving');
+      return;
+    }
+    const saved: GiftContent[] = [];
+    for (let i = 0; i < drafts.length; i++) {
+      const result = readDraft(drafts[i]);
+      if (typeof result === 'string') {
+        setError(`Gift ${i + 1}: ${result}`);
+        return;
+      }
+      if (result) saved.push(result);
+    }
+    savedMediaRef.current = collectGiftMedia(saved);
+    onSave(saved);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 pointer-events-auto" style={{
+      background: 'rgba(0,0,0,0.85)',
+      backdropFilter: 'blur(12px)'
+    }}>
+      <div className="w-full max-w-lg flex flex-col max-h-[85vh] rounded-3xl overflow-hidden" style={{
+        background: 'rgba(0,0,0,0.6)',
+        border: '1px solid rgba(255,255,255,0.1)',
+        boxShadow: '0 25px 50px rgba(0,0,0,0.5)'
+      }}>
+        <div className="p-8 pb-4">
+          <h2 className="text-3xl font-['Playfair_Display'] text-white mb-2 text-center">
+            Your Wishes
+          </h2>
+          <p className="text-white/40 text-sm font-['Lato'] text-center">
+            {drafts.length} {drafts.length === 1 ? 'gift' : 'gifts'}
+          </p>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-6 pb-4 space-y-2">
+          {drafts.map(draft => (
+            <GiftRow
+              key={draft.key}
+              draft={draft}
+              isRecording={recordingKey === draft.key}
+              canRecord={canRecordAudio() && recordingKey === null}
+              onChange={(changes) => updateDraft(draft.key, changes)}
+              onPickPhoto={() => pickPhoto(draft.key)}
+              onRecord={() => startRecording(draft.key)}
+              onStopRecording={stopRecording}
+              onRemove={() => removeDraft(draft.key)}
+            />
+          ))}
+
+          {drafts.length === 0 && (
+            <div className="text-center py-12 text-white/30 text-sm font-['Lato']">
+              No wishes yet
+            </div>
+          )}
+        </div>
+
+        <div className="px-8 pb-8 space-y-3">
+          {error && (
+            <p className="text-red-300 text-xs font-['Lato'] text-center">{error}</p>
+          )}
+          <button
+            onClick={() => setDrafts(list => [...list, createDraft(null)])}
+            className="w-full py-3 rounded-xl font-['Lato'] text-sm text-white/60 hover:text-white border border-white/10 hover:border-white/20 hover:bg-white/5 transition-all duration-200 flex items-center justify-center gap-2"
+          >
+            <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+              <line x1="12" y1="5" x2="12" y2="19"></line>
+              <line x1="5" y1="12" x2="19" y2="12"></line>
+            </svg>
+            Add wish
+          </button>
+
+          <div className="flex gap-3">
+            <button
+              onClick={onClose}
+              className="flex-1 py-3 rounded-xl font-['Lato'] text-sm text-white/60 hover:text-white hover:bg-white/5 transition-all duration-200"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={submit}
+              className="flex-1 py-3 rounded-xl font-['Lato'] text-sm font-medium bg-white text-black hover:bg-white/90 transition-all duration-200"
+            >
+              Save
+            </button>
+          </div>
+        </div>
+      </div>
+
+      <input
+        type="file"
+        ref={photoInputRef}
+        onChange={handlePhotoUpload}
+        accept="image/*"
+        className="hidden"
+      />
+    </div>
+  );
+};
@@ -0,0 +1,258 @@
+// React
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+
+// Three.js & React Three Fiber
+import * as THREE from 'three';
+import { useFrame } from '@react-three/fiber';
+import { Text } from '@react-three/drei';
+
+// Types & Utils
+import { GiftContent } from '../types';
+import { formatDuration } from '../utils/giftContent';
+import { createQrCode, drawQrCode } from '../utils/qrCode';
+
+const PAPER_FONT = "https://fonts.gstatic.com/s/raleway/v14/1Ptrg8zYS_SKggPNwK4vaqI.woff";
+const PAPER_WIDTH = 0.8;
+const CONTENT_WIDTH = 0.7;
+const PHOTO_SIZE = 0.7; // Longest edge of a gift photo on the paper
+const QR_SIZE = 0.5;
+const CARD_CHARS_PER_LINE = 22; // Rough fit of the body font across the paper
+const CARD_LINE_HEIGHT = 0.075;
+const AUDIO_PLAY_REVEAL = 0.99; // Voice messages start once the paper is fully out
+
+/**
+ * Size of the paper a gift rises out of its box with
+ * @param gift - Gift content (undefined = default wish)
+ * @returns [width, height] in box units
+ */
+export const getGiftPaperSize = (gift: GiftContent | undefined): [number, number] => {
+  if (!gift) return [PAPER_WIDTH, 0.6];
+  switch (gift.kind) {
+    case 'card': {
+      const lines = gift.body.split('\n').reduce((total, line) => total + Math.max(1, Math.ceil(line.length / CARD_CHARS_PER_LINE)), 0);
+      const height = 0.2 + lines * CARD_LINE_HEIGHT + (gift.title ? 0.12 : 0);
+      return [PAPER_WIDTH, THREE.MathUtils.clamp(height, 0.6, 1.2)];
+    }
+    case 'photo': return [PAPER_WIDTH, 0.95];
+    case 'link': return [PAPER_WIDTH, gift.qr ? 0.95 : 0.5];
+    case 'audio': return [PAPER_WIDTH, 0.5];
+  }
+};
+
+// --- CARD ---
+
+const CardContent: React.FC<{ title: string; body: string; height: number }> = ({ title, body, height }) => {
+  if (!title) {
+    return (
+      <Text position={[0, 0, 0.01]} fontSize={body.length > 40 ? 0.06 : 0.09} lineHeight={1.25} color="black" maxWidth={CONTENT_WIDTH} textAlign="center" font={PAPER_FONT}>
+        {body}
+      </Text>
+    );
+  }
+  return (
+    <group position={[0, height / 2 - 0.08, 0.01]}>
+      <Text fontSize={0.085} color="#8B0000" maxWidth={CONTENT_WIDTH} textAlign="center" anchorY="top" font={PAPER_FONT}>
+        {title}
+      </Text>
+      <Text position={[0, -0.13, 0]} fontSize={0.06} lineHeight={1.25} color="black" maxWidth={CONTENT_WIDTH} textAlign="center" anchorY="top" font={PAPER_FONT}>
+        {body}
+      </Text>
+    </group>
+  );
+};
+
+// --- PHOTO ---
+
+// Loads like the frame photos, but fits the whole image ("contain") instead of cropping it
+const PhotoContent: React.FC<{ url: string; caption: string; height: number }> = ({ url, caption, height }) => {
+  const [texture, setTexture] = useState<THREE.Texture<HTMLImageElement> | null>(null);
+
+  useEffect(() => {
+    let isMounted = true;
+    let loadedTexture: THREE.Texture<HTMLImageElement> | null = null;
+    new THREE.TextureLoader().load(
+      url,
+      (loadedTex) => {
+        if (!isMounted) {
+          loadedTex.dispose();
+          return;
+        }
+        loadedTex.colorSpace = THREE.SRGBColorSpace;
+        loadedTexture = loadedTex;
+        setTexture(loadedTex);
+      },
+      undefined,
+      (err) => console.warn("Failed to load gift photo:", url, err)
+    );
+    return () => {
+      isMounted = false;
+      loadedTexture?.dispose();
+      setTexture(null);
+    };
+  }, [url]);
+
+  const aspect = texture ? texture.image.width / texture.image.height : 1;
+  const [width, photoHeight] = aspect > 1 ? [PHOTO_SIZE, PHOTO_SIZE / aspect] : [PHOTO_SIZE * aspect, PHOTO_SIZE];
+  const photoY = height / 2 - 0.05 - PHOTO_SIZE / 2;
+
+  return (
+    <group position={[0, 0, 0.01]}>
+      <mesh position={[0, photoY, 0]}>
+        <planeGeometry args={[width, photoHeight]} />
+        {texture
+          ? <meshStandardMaterial map={texture} roughness={0.8} metalness={0} />
+          : <meshStandardMaterial color="#DDD8C4" roughness={0.9} metalness={0} />}
+      </mesh>
+      {caption && (
+        <Text position={[0, -height / 2 + 0.085, 0]} fontSize={0.055} color="black" maxWidth={CONTENT_WIDTH} textAlign="center" font={PAPER_FONT}>
+          {caption}
+        </Text>
+      )}
+    </group>
+  );
+};
+
+// --- LINK ---
+
+const LinkContent: React.FC<{ url: string; label: string; qr: boolean; height: number }> = ({ url, label, qr, height }) => {
+  const hostname = useMemo(() => new URL(url).hostname.replace(/^www\./, ''), [url]);
+  const texture = useMemo(() => {
+    if (!qr) return null;
+    try {
+      const canvas = document.createElement('canvas');
+      drawQrCode(canvas, createQrCode(url));
+      const qrTexture = new THREE.CanvasTexture(canvas);
+      // Keep the modules crisp when the paper is small on screen
+      qrTexture.magFilter = THREE.NearestFilter;
+      qrTexture.colorSpace = THREE.SRGBColorSpace;
+      return qrTexture;
+    } catch (error) {
+      console.warn('⚠️ Could not draw QR code for gift link:', error);
+      return null;
+    }
+  }, [url, qr]);
+
+  useEffect(() => () => texture?.dispose(), [texture]);
+
+  return (
+    <group position={[0, 0, 0.01]}>
+      {texture && (
+        <mesh position={[0, height / 2 - 0.05 - QR_SIZE / 2, 0]}>
+          <planeGeometry args={[QR_SIZE, QR_SIZE]} />
+          <meshBasicMaterial map={texture} toneMapped={false} />
+        </mesh>
+      )}
+      <group position={[0, texture ? -height / 2 + 0.14 : 0.04, 0]}>
+        <Text fontSize={0.07} color="black" maxWidth={CONTENT_WIDTH} textAlign="center" font={PAPER_FONT}>
+          {label || hostname}
+        </Text>
+        <Text position={[0, -0.08, 0]} fontSize={0.045} color="#1E4D8C" maxWidth={CONTENT_WIDTH} textAlign="center" font={PAPER_FONT}>
+          {label ? `${hostname} · tap to open` : 'tap to open'}
+        </Text>
+      </group>
+    </group>
+  );
+};
+
+// --- AUDIO ---
+
+const AudioContent: React.FC<{ label: string; duration: number }> = ({ label, duration }) => {
+  return (
+    <group position={[0, 0, 0.01]}>
+      <Text position={[0, 0.1, 0]} fontSize={0.14} color="#8B0000" font={PAPER_FONT}>
+        ♪
+      </Text>
+      <Text position={[0, -0.04, 0]} fontSize={0.065} color="black" maxWidth={CONTENT_WIDTH} textAlign="center" font={PAPER_FONT}>
+        {label || 'A voice message'}
+      </Text>
+      <Text position={[0, -0.14, 0]} fontSize={0.045} color="#555" font={PAPER_FONT}>
+        {`${formatDuration(duration)} · tap to replay`}
+      </Text>
+    </group>
+  );
+};
+
+/**
+ * Voice message player
+ * Plays once when the paper is fully out and stops when the gift closes again.
+ */
+const useGiftAudio = (url: string | null, reveal: React.MutableRefObject<number>) => {
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+  const playedRef = useRef(false);
+
+  useEffect(() => {
+    if (!url) return;
+    const audio = new Audio(url);
+    audioRef.current = audio;
+    playedRef.current = false;
+    return () => {
+      audio.pause();
+      audioRef.current = null;
+    };
+  }, [url]);
+
+  const play = () => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    audio.currentTime = 0;
+    // Browsers may refuse autoplay before the user has interacted with the page
+    audio.play().catch(error => console.warn('⚠️ Voice message could not play:', error));
+  };
+
+  useFrame(() => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    if (!playedRef.current && reveal.current >= AUDIO_PLAY_REVEAL) {
+      playedRef.current = true;
+      play();
+    } else if (playedRef.current && reveal.current < 0.5) {
+      playedRef.current = false;
+      audio.pause();
+    }
+  });
+
+  return play;
+};
+
+/**
+ * Paper that rises out of an opened gift
+ * Shows a card, a photo, a link with its QR code or a voice message. Links open and voice
+ * messages replay when the paper is clicked.
+ */
+export const GiftReveal: React.FC<{
+  gift: GiftContent | undefined;
+  /** How far the paper is out of the box (0..1), updated every frame */
+  reveal: React.MutableRefObject<number>;
+}> = ({ gift, reveal }) => {
+  const [width, height] = getGiftPaperSize(gift);
+  const playAudio = useGiftAudio(gift?.kind === 'audio' ? gift.media.url : null, reveal);
+
+  const handleClick = () => {
+    if (reveal.current < AUDIO_PLAY_REVEAL) return;
+    if (gift?.kind === 'link') window.open(gift.url, '_blank', 'noopener');
+    if (gift?.kind === 'audio') playAudio();
+  };
+
+  const isClickable = gift?.kind === 'link' || gift?.kind === 'audio';
+
+  return (
+    <group>
+      <mesh
+        castShadow
+        onClick={isClickable ? (e) => { e.stopPropagation(); handleClick(); } : undefined}
+      >
+        <planeGeometry args={[width, height]} />
+        <meshStandardMaterial color="#F5F5DC" roughness={0.9} metalness={0} />
+      </mesh>
+      {!gift && (
+        <Text position={[0, 0, 0.01]} fontSize={0.1} color="black" maxWidth={CONTENT_WIDTH} textAlign="center" font={PAPER_FONT}>
+          Happy Holidays!
+        </Text>
+      )}
+      {gift?.kind === 'card' && <CardContent title={gift.title} body={gift.body} height={height} />}
+      {gift?.kind === 'photo' && <PhotoContent url={gift.media.url} caption={gift.caption} height={height} />}
+      {gift?.kind === 'link' && <LinkContent url={gift.url} label={gift.label} qr={gift.qr} height={height} />}
+      {gift?.kind === 'audio' && <AudioContent label={gift.label} duration={gift.duration} />}
+    </group>
+  );
+};
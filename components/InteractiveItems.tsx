@@ -7,30 +7,42 @@ import { useFrame } from '@react-three/fiber';
 import { Text } from '@react-three/drei';
 
 // Types & Utils
-import { AppState, InteractionMode, InteractiveItemData } from '../types';
-import { getConePosition, getSpherePosition } from '../utils/coordinates';
-
-interface InteractiveItemsProps {
-  appState: AppState;
-  interactionMode: InteractionMode;
-  userPhotos: string[];
-  userGiftMessages: string[];
-}
+import { AppState, InteractionMode, InteractiveItemData, PointerAim, ItemPull, GiftContent } from '../types';
+import { FORMATIONS, getFormationPosition } from '../utils/formations';
+import { findAimedItem, AIM_DWELL_SECONDS } from '../utils/pointerAim';
+import {
+  sceneStore,
+  useSceneStore,
+  selectAppState,
+  selectFormationContext,
+  selectInteractionMode,
+  selectUserPhotos,
+  selectUserGifts,
+  selectItemStepRequest,
+  selectItemPullRequest,
+  selectSeed,
+} from '../utils/sceneStore';
+import { createRandom, deriveSeed } from '../utils/random';
+import { assignFramePhotos, formatPhotoDate } from '../utils/photoGallery';
+import { createCardGift } from '../utils/giftContent';
+import { GIFTS_COUNT, FRAMES_COUNT } from '../constants';
+import { GiftReveal, getGiftPaperSize } from './GiftReveal';
 
 // Constants
-const GIFTS_COUNT = 30;
-const FRAMES_COUNT = 15;
 const MAX_HISTORY_SIZE_RATIO = 0.5;
 const TARGETED_DISTANCE = 2.5;
 const TARGETED_SCALE_GIFT = 0.40; // Slightly larger than before (was 0.35)
 const TARGETED_SCALE_FRAME = 0.45;
+const HOVER_SCALE_MIN = 1.3; // Scale boost when aimed at, growing with the dwell progress
+const HOVER_SCALE_MAX = 1.8;
+const GRABBED_FOLLOW_SPEED = 8; // Faster follow while the hand holds the item, so it tracks the pull
 
 // Default gift messages
-const DEFAULT_GIFT_MESSAGES = [
+const DEFAULT_GIFTS: GiftContent[] = [
   "New iPhone 16", "World Peace", "A Pair of Socks", "NVIDIA RTX 5090",
   "A Warm Hug", "$1000 Amazon Card", "Coal :(", "Trip to Mars",
   "React Tutorials", "Infinite Coffee"
-];
+].map(message => createCardGift(message));
 
 // Premium Festive Gift Palette (Rich Reds, Greens, Golds, Creams)
 const GIFT_PALETTE = [
@@ -72,8 +84,11 @@ const FESTIVE_COLORS = [
 interface StaticItemData {
   id: string;
   type: 'gift' | 'frame';
+  index: number;        // Index among items of the same type
   imageUrl?: string;    // For user-uploaded photos
-  giftContent?: string;
+  caption?: string;     // Photo caption (frames)
+  captionDate?: string; // Formatted photo date (frames)
+  giftContent?: GiftContent;
   scale: number;
   color: string;        // Base color (for frames: primary gradient color)
   secondaryColor?: string; // Secondary color for gradients
@@ -294,13 +309,21 @@ const Item: React.FC<{
   data: InteractiveItemData & { phase: number, stripeColor?: string, ribbonColor?: string, hasStripes?: boolean }; 
   appState: AppState;
   isTargeted: boolean;
-}> = ({ data, appState, isTargeted }) => {
+  isHovered: boolean;
+  pointerAim: React.MutableRefObject<PointerAim>;
+  itemPull: React.MutableRefObject<ItemPull>;
+  /** Shared registry of aimable item positions */
+  positions: Map<string, THREE.Vector3>;
+}> = ({ data, appState, isTargeted, isHovered, pointerAim, itemPull, positions }) => {
   const meshRef = useRef<THREE.Group>(null);
   const lidRef = useRef<THREE.Group>(null);
   const paperRef = useRef<THREE.Group>(null);
+  const captionRef = useRef<THREE.Group>(null);
+  const paperReveal = useRef(0);
+  const paperHeight = getGiftPaperSize(data.giftContent)[1];
   
-  // We initialize position ONLY on mount, then lerp to targets.
-  const currentPos = useRef(data.scatterPosition.clone());
+  // We initialize position ONLY on mount (out in space), then lerp to targets.
+  const currentPos = useRef(getFormationPosition(AppState.SCATTERED, data.type, 0, 1, createRandom(deriveSeed(sceneStore.getState().seed, 'scatter', data.id))));
   const currentRot = useRef(new THREE.Quaternion().setFromEuler(data.rotation));
   
   const logic = useMemo(() => ({
@@ -308,12 +331,21 @@ const Item: React.FC<{
     dummyObj: new THREE.Object3D()
   }), []);
 
+  // Only items resting in the scene can be aimed at
+  useEffect(() => {
+    if (isTargeted) return;
+    positions.set(data.id, currentPos.current);
+    return () => { positions.delete(data.id); };
+  }, [data.id, isTargeted, positions]);
+
   useFrame((state, delta) => {
     if (!meshRef.current) return;
 
     // --- 1. Position Interpolation ---
-    let desiredPos = appState === AppState.TREE_SHAPE ? data.treePosition.clone() : data.scatterPosition.clone();
+    const desiredPos = data.position.clone();
     const time = state.clock.elapsedTime;
+    // Pull progress: 1 unless a pinching hand is dragging the item out of the scene
+    const pull = isTargeted ? itemPull.current.amount : 0;
 
     if (isTargeted) {
       // Calculate position relative to camera (HUD style)
@@ -322,16 +354,17 @@ const Item: React.FC<{
       const forward = new THREE.Vector3(0, 0, -1).applyQuaternion(camera.quaternion);
       const up = new THREE.Vector3(0, -1, 0).applyQuaternion(camera.quaternion);
       
-      desiredPos = camera.position.clone()
+      const hudPos = camera.position.clone()
         .add(forward.multiplyScalar(TARGETED_DISTANCE))
         .add(up.multiplyScalar(data.type === 'gift' ? 0.3 : 0.05)); // Frame moved up (0.2 -> 0.05)
+      desiredPos.lerp(hudPos, pull);
     } else {
       // Add "Breathing" motion when not targeted so they don't look frozen
       desiredPos.y += Math.sin(time * 1.5 + data.phase) * 0.2;
     }
 
     // Smoother speed settings (Lower = Heavier/Smoother)
-    const speed = isTargeted ? 3.5 : 1.5; 
+    const speed = isTargeted ? (itemPull.current.grabbed ? GRABBED_FOLLOW_SPEED : 3.5) : 1.5; 
     currentPos.current.lerp(desiredPos, delta * speed);
     meshRef.current.position.copy(currentPos.current);
 
@@ -350,7 +383,7 @@ const Item: React.FC<{
          const spin = new THREE.Quaternion().setFromAxisAngle(new THREE.Vector3(0, 1, 0), time * 0.2);
          logic.targetRot.multiply(spin);
       } else {
-         // Subtle sway in tree mode
+         // Subtle sway in formation
          const sway = new THREE.Quaternion().setFromAxisAngle(new THREE.Vector3(0, 0, 1), Math.sin(time + data.phase) * 0.05);
          logic.targetRot.multiply(sway);
       }
@@ -360,27 +393,47 @@ const Item: React.FC<{
     
     meshRef.current.setRotationFromQuaternion(currentRot.current);
 
+    // Scale: grows with the pull when targeted, and while the user dwells on it when aimed at
+    let desiredScale = data.scale;
+    if (isTargeted) {
+      const targetedScale = data.type === 'gift' ? TARGETED_SCALE_GIFT : TARGETED_SCALE_FRAME;
+      desiredScale = THREE.MathUtils.lerp(data.scale, targetedScale, pull);
+    } else if (isHovered) {
+      desiredScale *= THREE.MathUtils.lerp(HOVER_SCALE_MIN, HOVER_SCALE_MAX, pointerAim.current.dwell);
+    }
+    meshRef.current.scale.setScalar(THREE.MathUtils.lerp(meshRef.current.scale.x, desiredScale, delta * 8));
+
     // --- 3. Animation for Gifts ---
     if (data.type === 'gift') {
       if (lidRef.current) {
-        // Open the lid backwards (-X rotation)
-        const targetLidRot = isTargeted ? -Math.PI / 1.8 : 0; 
+        // Open the lid backwards (-X rotation), as far as the gift has been pulled
+        const targetLidRot = -Math.PI / 1.8 * pull; 
         lidRef.current.rotation.x = THREE.MathUtils.lerp(lidRef.current.rotation.x, targetLidRot, delta * 3);
       }
       if (paperRef.current) {
-        const targetPaperScale = isTargeted ? 1 : 0;
-        const targetPaperY = isTargeted ? 1.2 : 0.5;
+        // The wish rises out once the lid is mostly open; taller papers rise higher so they clear the box
+        const reveal = THREE.MathUtils.smoothstep(pull, 0.6, 1);
+        const targetPaperScale = reveal;
+        const targetPaperY = THREE.MathUtils.lerp(0.5, 0.9 + paperHeight / 2, reveal);
         paperRef.current.scale.setScalar(THREE.MathUtils.lerp(paperRef.current.scale.x, targetPaperScale, delta * 4));
+        paperReveal.current = paperRef.current.scale.x;
         paperRef.current.position.y = THREE.MathUtils.lerp(paperRef.current.position.y, targetPaperY, delta * 4);
       }
     }
+
+    // --- 4. Caption for Frames ---
+    if (captionRef.current) {
+      // Written on the mat once the frame is mostly pulled forward
+      const reveal = THREE.MathUtils.smoothstep(pull, 0.6, 1);
+      captionRef.current.scale.setScalar(THREE.MathUtils.lerp(captionRef.current.scale.x, reveal, delta * 4));
+    }
   });
 
   // --- RENDERERS ---
 
   if (data.type === 'gift') {
     return (
-      <group ref={meshRef} scale={isTargeted ? TARGETED_SCALE_GIFT : data.scale}>
+      <group ref={meshRef} scale={data.scale}>
         
         {/* Box Body */}
         <group>
@@ -414,20 +467,7 @@ const Item: React.FC<{
         
         {/* Paper Inside */}
         <group ref={paperRef} position={[0, 0.5, 0]} scale={[0, 0, 0]}>
-           <mesh castShadow>
-             <planeGeometry args={[0.8, 0.6]} />
-             <meshStandardMaterial color="#F5F5DC" roughness={0.9} metalness={0} />
-           </mesh>
-           <Text 
-             position={[0, 0, 0.01]} 
-             fontSize={0.1} 
-             color="black" 
-             maxWidth={0.7} 
-             textAlign="center"
-             font="https://fonts.gstatic.com/s/raleway/v14/1Ptrg8zYS_SKggPNwK4vaqI.woff"
-           >
-             {data.giftContent || "Happy Holidays!"}
-           </Text>
+           <GiftReveal gift={data.giftContent} reveal={paperReveal} />
         </group>
 
         {/* Lid Group */}
@@ -484,7 +524,7 @@ const Item: React.FC<{
   );
 
   return (
-    <group ref={meshRef} scale={isTargeted ? TARGETED_SCALE_FRAME : data.scale}>
+    <group ref={meshRef} scale={data.scale}>
       
       {/* 1. Main Frame Structure (4 Bars for realistic depth) */}
       <group>
@@ -522,6 +562,36 @@ const Item: React.FC<{
             <planeGeometry args={[frameW - border*2, frameH - border*2]} />
             <meshStandardMaterial color="#FDF5E6" roughness={0.9} /> {/* Creamy Off-White */}
           </mesh>
+
+          {/* Caption on the bottom margin, revealed when pulled */}
+          {(data.caption || data.captionDate) && (
+            <group ref={captionRef} position={[0, -frameH/2 + border + 0.05, 0.01]} scale={0}>
+              <Text
+                position={[0, data.captionDate && data.caption ? 0.018 : 0, 0]}
+                fontSize={0.042}
+                color="#3B2F2F"
+                maxWidth={frameW - border*2 - 0.1}
+                textAlign="center"
+                anchorX="center"
+                anchorY="middle"
+                font="https://fonts.gstatic.com/s/raleway/v14/1Ptrg8zYS_SKggPNwK4vaqI.woff"
+              >
+                {data.caption || data.captionDate}
+              </Text>
+              {data.caption && data.captionDate && (
+                <Text
+                  position={[0, -0.026, 0]}
+                  fontSize={0.03}
+                  color="#7A6A5A"
+                  anchorX="center"
+                  anchorY="middle"
+                  font="https://fonts.gstatic.com/s/raleway/v14/1Ptrg8zYS_SKggPNwK4vaqI.woff"
+                >
+                  {data.captionDate}
+                </Text>
+              )}
+            </group>
+          )}
       </group>
       
       {/* 3. The Image or Gradient Placeholder */}
@@ -558,16 +628,24 @@ const Item: React.FC<{
   );
 };
 
-export const InteractiveItems: React.FC<InteractiveItemsProps> = ({ appState, interactionMode, userPhotos, userGiftMessages }) => {
+export const InteractiveItems: React.FC = () => {
+  const appState = useSceneStore(selectAppState);
+  const formationContext = useSceneStore(selectFormationContext);
+  const interactionMode = useSceneStore(selectInteractionMode);
+  const userPhotos = useSceneStore(selectUserPhotos);
+  const userGifts = useSceneStore(selectUserGifts);
+  const itemStepRequest = useSceneStore(selectItemStepRequest);
+  const itemPullRequest = useSceneStore(selectItemPullRequest);
+  const seed = useSceneStore(selectSeed);
+  const { pointerAim, itemPull } = sceneStore.live;
   
   // 1. Static Identity Data
   const staticItems = useMemo<StaticItemData[]>(() => {
+    const random = createRandom(deriveSeed(seed, 'items'));
     const list: StaticItemData[] = [];
     
-    // Determine which message list to use
-    const activeMessages = (userGiftMessages && userGiftMessages.length > 0) 
-      ? userGiftMessages 
-      : DEFAULT_GIFT_MESSAGES;
+    // Determine which gift list to use
+    const activeGifts = userGifts.length > 0 ? userGifts : DEFAULT_GIFTS;
 
     // 30 Gifts
     for (let i = 0; i < GIFTS_COUNT; i++) {
@@ -575,17 +653,19 @@ export const InteractiveItems: React.FC<InteractiveItemsProps> = ({ appState, in
       list.push({
         id: `gift-${i}`,
         type: 'gift',
+        index: i,
         scale: 0.3, 
         color: theme.base,
         stripeColor: theme.stripe,
         ribbonColor: theme.ribbon,
-        giftContent: activeMessages[i % activeMessages.length],
-        phase: Math.random() * Math.PI * 2,
-        hasStripes: Math.random() > 0.5 // 50/50 balance between striped and solid
+        giftContent: activeGifts[i % activeGifts.length],
+        phase: random() * Math.PI * 2,
+        hasStripes: random() > 0.5 // 50/50 balance between striped and solid
       });
     }
 
-    // 15 Frames
+    // 15 Frames (pinned photos keep their frame, the rest cycle through the others)
+    const framePhotos = assignFramePhotos(userPhotos, FRAMES_COUNT);
     for (let i = 0; i < FRAMES_COUNT; i++) {
       const frameTheme = FRAME_PALETTE[i % FRAME_PALETTE.length];
       const colorTheme = FESTIVE_COLORS[i % FESTIVE_COLORS.length];
@@ -594,15 +674,19 @@ export const InteractiveItems: React.FC<InteractiveItemsProps> = ({ appState, in
       const frameData: StaticItemData = {
         id: `frame-${i}`,
         type: 'frame',
+        index: i,
         scale: 0.4, 
         color: frameTheme.color, // Frame border color
-        phase: Math.random() * Math.PI * 2,
+        phase: random() * Math.PI * 2,
         hasStripes: false
       };
 
-      if (userPhotos && userPhotos.length > 0) {
+      const photo = framePhotos[i];
+      if (photo) {
         // User has uploaded photos - use them
-        frameData.imageUrl = userPhotos[i % userPhotos.length];
+        frameData.imageUrl = photo.url;
+        frameData.caption = photo.caption;
+        frameData.captionDate = formatPhotoDate(photo.date);
       } else {
         // No user photos - use gradient colors as placeholder
         frameData.secondaryColor = colorTheme.primary;
@@ -612,47 +696,54 @@ export const InteractiveItems: React.FC<InteractiveItemsProps> = ({ appState, in
       list.push(frameData);
     }
     return list;
-  }, [userPhotos, userGiftMessages]);
+  }, [userPhotos, userGifts, seed]);
 
   // 2. Dynamic Position Data
   const dynamicItems = useMemo<InteractiveItemData[]>(() => {
+    const formation = FORMATIONS[appState];
+    const giftRandom = createRandom(deriveSeed(seed, 'gifts', appState));
+    const frameRandom = createRandom(deriveSeed(seed, 'frames', appState));
     return staticItems.map((item) => {
-      // 1. Calculate Base Positions
-      const treePos = item.type === 'gift' 
-        ? getConePosition(10, 4, -1, true)
-        : getConePosition(8, 3.5, 0, true);
-        
-      const scatterPos = getSpherePosition(12);
+      // 1. Calculate Base Position in the active formation
+      const count = item.type === 'gift' ? GIFTS_COUNT : FRAMES_COUNT;
+      const random = item.type === 'gift' ? giftRandom : frameRandom;
+      const position = getFormationPosition(appState, item.type, item.index, count, random, formationContext);
 
-      // 2. Calculate Oriented Rotation for Tree Mode
-      let orientedRotation = new THREE.Euler(0, Math.random() * Math.PI * 2, 0);
+      // 2. Calculate Oriented Rotation
+      let orientedRotation = new THREE.Euler(0, random() * Math.PI * 2, 0);
 
       if (item.type === 'frame') {
-         // Force Frames to face OUTWARDS from the center (0,0,0) so image is visible.
-         // Create a dummy object at the tree position
-         const dummy = new THREE.Object3D();
-         dummy.position.copy(treePos);
-         // Make it look at the center vertical axis at its own height
-         dummy.lookAt(0, treePos.y, 0); 
-         // Rotate 180 deg (PI) so the "Front" (+Z) faces AWAY from center
-         dummy.rotateY(Math.PI);
-         orientedRotation = dummy.rotation.clone();
+         if (formation.facing === 'front') {
+           // Flat formations face the viewer, so frames do too
+           orientedRotation = new THREE.Euler(0, 0, 0);
+         } else {
+           // Force Frames to face OUTWARDS from the center (0,0,0) so image is visible.
+           // Create a dummy object at the formation position
+           const dummy = new THREE.Object3D();
+           dummy.position.copy(position);
+           // Make it look at the center vertical axis at its own height
+           dummy.lookAt(0, position.y, 0); 
+           // Rotate 180 deg (PI) so the "Front" (+Z) faces AWAY from center
+           dummy.rotateY(Math.PI);
+           orientedRotation = dummy.rotation.clone();
+         }
       }
 
       return {
         ...item,
-        treePosition: treePos,
-        scatterPosition: scatterPos,
+        position,
         rotation: orientedRotation 
       };
     });
-  }, [appState, staticItems]);
+  }, [appState, formationContext, staticItems, seed]);
 
   const [activeItemId, setActiveItemId] = useState<string | null>(null);
   
   // HISTORY TRACKING:
   // We keep a history of recently selected IDs to ensure we don't pick the same ones continuously.
   const historyRef = useRef<string[]>([]);
+  // Id of the last aimed pull that was applied, so stepping away from it afterwards sticks
+  const handledPullRef = useRef(0);
 
   useEffect(() => {
     const pickRandomWithHistory = (candidates: InteractiveItemData[]) => {
@@ -680,6 +771,18 @@ export const InteractiveItems: React.FC<InteractiveItemsProps> = ({ appState, in
       return selected.id;
     };
 
+    // An aimed pull names its item; only pulls without one are picked at random
+    if (itemPullRequest && itemPullRequest.id !== handledPullRef.current) {
+      const requested = dynamicItems.find(i => i.id === itemPullRequest.itemId);
+      const type = interactionMode === InteractionMode.PULLING_GIFT ? 'gift'
+        : interactionMode === InteractionMode.PULLING_FRAME ? 'frame' : null;
+      if (requested && requested.type === type) {
+        handledPullRef.current = itemPullRequest.id;
+        if (requested.id !== activeItemId) setActiveItemId(requested.id);
+        return;
+      }
+    }
+
     if (interactionMode === InteractionMode.PULLING_GIFT) {
       const gifts = dynamicItems.filter(i => i.type === 'gift');
       if (!activeItemId || dynamicItems.find(i => i.id === activeItemId)?.type !== 'gift') {
@@ -695,7 +798,58 @@ export const InteractiveItems: React.FC<InteractiveItemsProps> = ({ appState, in
     } else {
       setActiveItemId(null);
     }
-  }, [interactionMode, dynamicItems, activeItemId]);
+  }, [interactionMode, dynamicItems, activeItemId, itemPullRequest]);
+
+  // POINT-TO-SELECT:
+  // The aim ray hovers the closest item; dwelling on it (or a pinch) pulls that specific item.
+  // Pulls without an aimed item still go through the random picker above.
+  const positions = useMemo(() => new Map<string, THREE.Vector3>(), []);
+  const [hoveredId, setHoveredId] = useState<string | null>(null);
+
+  const setHovered = (id: string | null) => {
+    pointerAim.current.hoveredId = id;
+    pointerAim.current.dwell = 0;
+    setHoveredId(id);
+  };
+
+  const selectAimedItem = (id: string) => {
+    const item = dynamicItems.find(i => i.id === id);
+    setHovered(null);
+    if (!item) return;
+    sceneStore.actions.pullItem(item.type, item.id);
+  };
+
+  useFrame((state, delta) => {
+    const aim = pointerAim.current;
+    if (aim.confirmRequested) {
+      aim.confirmRequested = false;
+      if (aim.hoveredId) {
+        selectAimedItem(aim.hoveredId);
+        return;
+      }
+    }
+
+    const aimed = aim.ndc ? findAimedItem(aim.ndc, state.camera, positions, aim.hoveredId) : null;
+    if (aimed !== aim.hoveredId) {
+      setHovered(aimed);
+    } else if (aimed) {
+      aim.dwell = Math.min(1, aim.dwell + delta / AIM_DWELL_SECONDS);
+      if (aim.dwell >= 1) selectAimedItem(aimed);
+    }
+  });
+
+  // Step through items of the pulled kind in order (keyboard / gamepad / buttons)
+  useEffect(() => {
+    if (!itemStepRequest || !activeItemId) return;
+    const active = dynamicItems.find(i => i.id === activeItemId);
+    if (!active) return;
+    const candidates = dynamicItems.filter(i => i.type === active.type);
+    const index = candidates.findIndex(i => i.id === activeItemId);
+    const next = candidates[(index + itemStepRequest.direction + candidates.length) % candidates.length];
+    setActiveItemId(next.id);
+    // Only react to new requests, not to the selection changing
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [itemStepRequest]);
 
   return (
     <group>
@@ -705,6 +859,10 @@ export const InteractiveItems: React.FC<InteractiveItemsProps> = ({ appState, in
           data={item as InteractiveItemData & { phase: number, stripeColor?: string, hasStripes?: boolean }} 
           appState={appState} 
           isTargeted={item.id === activeItemId} 
+          isHovered={item.id === hoveredId}
+          pointerAim={pointerAim}
+          itemPull={itemPull}
+          positions={positions}
         />
       ))}
     </group>
@@ -0,0 +1,153 @@
+// React
+import React, { useEffect, useRef } from 'react';
+
+// Types & Utils
+import { HandFrame } from '../types';
+import { HandsResult, GestureThresholds, GestureFeatures, THUMB_TIP, INDEX_TIP } from '../utils/gestureRecognizer';
+
+/**
+ * Recognizer state for one processed frame
+ */
+export interface GestureAnalysis {
+  frame: HandFrame;
+  result: HandsResult;
+  thresholds: GestureThresholds;
+  /** How far the current gesture is through the stability window (0..1) */
+  stability: number;
+}
+
+interface LandmarkOverlayProps {
+  /** Register a listener for analyzed frames; returns an unsubscribe function */
+  subscribeToAnalysis: (listener: (analysis: GestureAnalysis) => void) => () => void;
+  /** Canvas resolution - must match the webcam video so landmarks line up */
+  width: number;
+  height: number;
+}
+
+// Landmark chains per finger, starting at the wrist (MediaPipe hand model indices)
+const FINGER_CHAINS: { key: keyof GestureFeatures; chain: number[] }[] = [
+  { key: 'thumbExtended', chain: [0, 1, 2, 3, 4] },
+  { key: 'indexExtended', chain: [5, 6, 7, 8] },
+  { key: 'middleExtended', chain: [9, 10, 11, 12] },
+  { key: 'ringExtended', chain: [13, 14, 15, 16] },
+  { key: 'pinkyExtended', chain: [17, 18, 19, 20] },
+];
+const PALM_OUTLINE = [0, 5, 9, 13, 17, 0];
+
+const EXTENDED_COLOR = '#FFD700';
+const CURLED_COLOR = 'rgba(255,255,255,0.45)';
+const PINCH_ON_COLOR = '#34D399';
+const PINCH_OFF_COLOR = '#FB7185';
+
+/**
+ * Debug overlay for the webcam preview
+ * Draws the hand skeleton, highlights the fingers the recognizer considers extended,
+ * shows the pinch distance against its threshold and a ring that fills as the
+ * stability window agrees on a gesture. Drawn imperatively, without re-rendering.
+ */
+export const LandmarkOverlay: React.FC<LandmarkOverlayProps> = ({ subscribeToAnalysis, width, height }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+
+    // The canvas is CSS-mirrored like the video; text is flipped back so it stays readable
+    const drawText = (text: string, x: number, y: number, color: string) => {
+      ctx.save();
+      ctx.scale(-1, 1);
+      ctx.fillStyle = color;
+      ctx.fillText(text, -x, y);
+      ctx.restore();
+    };
+
+    const drawAnalysis = ({ frame, result, thresholds, stability }: GestureAnalysis) => {
+      ctx.clearRect(0, 0, width, height);
+      ctx.lineCap = 'round';
+      ctx.font = "bold 13px 'Lato', sans-serif";
+
+      frame.landmarks.forEach((landmarks, handIndex) => {
+        const features = result.hands[handIndex]?.features;
+        const point = (i: number) => [landmarks[i].x * width, landmarks[i].y * height] as const;
+        const strokeChain = (chain: number[], color: string) => {
+          ctx.strokeStyle = color;
+          ctx.beginPath();
+          chain.forEach((index, n) => {
+            const [x, y] = point(index);
+            if (n === 0) ctx.moveTo(x, y); else ctx.lineTo(x, y);
+          });
+          ctx.stroke();
+        };
+
+        // Bones
+        ctx.lineWidth = 2;
+        strokeChain(PALM_OUTLINE, CURLED_COLOR);
+        FINGER_CHAINS.forEach(({ key, chain }) => {
+          strokeChain(chain, features?.[key] ? EXTENDED_COLOR : CURLED_COLOR);
+        });
+
+        // Joints
+        ctx.fillStyle = 'white';
+        landmarks.forEach((_, i) => {
+          const [x, y] = point(i);
+          ctx.beginPath();
+          ctx.arc(x, y, 2.5, 0, Math.PI * 2);
+          ctx.fill();
+        });
+
+        // Pinch distance vs threshold
+        if (features) {
+          const pinching = features.pinchDistance < thresholds.pinchDistance;
+          const color = pinching ? PINCH_ON_COLOR : PINCH_OFF_COLOR;
+          const [tx, ty] = point(THUMB_TIP);
+          const [ix, iy] = point(INDEX_TIP);
+          ctx.setLineDash([4, 4]);
+          ctx.lineWidth = 1.5;
+          ctx.strokeStyle = color;
+          ctx.beginPath();
+          ctx.moveTo(tx, ty);
+          ctx.lineTo(ix, iy);
+          ctx.stroke();
+          ctx.setLineDash([]);
+          drawText(
+            `${features.pinchDistance.toFixed(3)} / ${thresholds.pinchDistance.toFixed(3)}`,
+            (tx + ix) / 2 + 6,
+            (ty + iy) / 2,
+            color
+          );
+        }
+      });
+
+      // Stability ring (top-left of the preview as seen by the user, i.e. canvas top-right)
+      const cx = width - 22;
+      const cy = 22;
+      ctx.lineWidth = 4;
+      ctx.strokeStyle = 'rgba(255,255,255,0.15)';
+      ctx.beginPath();
+      ctx.arc(cx, cy, 12, 0, Math.PI * 2);
+      ctx.stroke();
+      if (stability > 0) {
+        ctx.strokeStyle = stability >= 1 ? EXTENDED_COLOR : 'white';
+        ctx.beginPath();
+        ctx.arc(cx, cy, 12, -Math.PI / 2, -Math.PI / 2 + stability * Math.PI * 2);
+        ctx.stroke();
+      }
+      drawText(result.gesture, width - 42, cy + 5, 'white');
+    };
+
+    const unsubscribe = subscribeToAnalysis(drawAnalysis);
+    return () => {
+      unsubscribe();
+      ctx.clearRect(0, 0, width, height);
+    };
+  }, [subscribeToAnalysis, width, height]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      width={width}
+      height={height}
+      className="absolute inset-0 w-full h-full object-cover -scale-x-100 pointer-events-none"
+    />
+  );
+};
@@ -7,11 +7,12 @@ import { useFrame } from '@react-three/fiber';
 
 // Types & Utils
 import { AppState } from '../types';
-import { getConePosition, getSpherePosition } from '../utils/coordinates';
+import { getFormationPosition, getFormationColor } from '../utils/formations';
+import { useSceneStore, selectAppState, selectFormationContext, selectSeed } from '../utils/sceneStore';
+import { createRandom, deriveSeed } from '../utils/random';
 
 interface NeedlesProps {
   count: number;
-  appState: AppState;
 }
 
 // Reuse objects to avoid garbage collection
@@ -25,41 +26,57 @@ const GREEN_PALETTE = ['#004225', '#0f5132', '#146c43', '#198754', '#2E8B57'];
 const GOLD_PALETTE = ['#FFD700', '#D4AF37', '#DAA520', '#B8860B'];
 const GOLD_CHANCE = 0.15;
 
-export const Needles: React.FC<NeedlesProps> = ({ count, appState }) => {
+export const Needles: React.FC<NeedlesProps> = ({ count }) => {
+  const appState = useSceneStore(selectAppState);
+  const formationContext = useSceneStore(selectFormationContext);
+  const seed = useSceneStore(selectSeed);
   const meshRef = useRef<THREE.InstancedMesh>(null);
 
   // 1. Static Attributes - Memoized with stable dependencies
   const staticData = useMemo(() => {
+    const random = createRandom(deriveSeed(seed, 'needles'));
     const data = [];
     
     for (let i = 0; i < count; i++) {
       // Increased to 15% Chance of gold leaves for better visibility
-      const isGold = Math.random() < GOLD_CHANCE;
+      const isGold = random() < GOLD_CHANCE;
       const palette = isGold ? GOLD_PALETTE : GREEN_PALETTE;
-      const color = palette[Math.floor(Math.random() * palette.length)];
+      const color = palette[Math.floor(random() * palette.length)];
 
       data.push({
-        rotation: new THREE.Euler(Math.random() * Math.PI, Math.random() * Math.PI, 0),
-        scale: Math.random() * 0.5 + 0.2,
+        rotation: new THREE.Euler(random() * Math.PI, random() * Math.PI, 0),
+        scale: random() * 0.5 + 0.2,
         color: color,
-        speed: 0.5 + Math.random() * 1.5, // Random speed factor between 0.5 and 2.0
-        phase: Math.random() * Math.PI * 2, // Random starting phase for sine waves
+        speed: 0.5 + random() * 1.5, // Random speed factor between 0.5 and 2.0
+        phase: random() * Math.PI * 2, // Random starting phase for sine waves
       });
     }
     return data;
-  }, [count]);
+  }, [count, seed]);
 
-  // 2. Position Targets
+  // 2. Position Targets - regenerated for each formation (the same seed gives the same shape)
   const targets = useMemo(() => {
+    const random = createRandom(deriveSeed(seed, 'needles', appState));
     const data = [];
     for (let i = 0; i < count; i++) {
-      data.push({
-        treePosition: getConePosition(12, 4.5, -1),
-        scatterPosition: getSpherePosition(15),
-      });
+      data.push(getFormationPosition(appState, 'needle', i, count, random, formationContext));
     }
     return data;
-  }, [count, appState]);
+  }, [count, appState, formationContext, seed]);
+
+  // 3. Colour Targets - the palette, unless the formation brings its own colours (image silhouettes)
+  const colorTargets = useMemo(() => {
+    return staticData.map((d, i) =>
+      getFormationColor(appState, 'needle', i, count, formationContext) ?? new THREE.Color(d.color)
+    );
+  }, [staticData, count, appState, formationContext]);
+
+  // Colours currently shown, blended towards the targets after each change
+  const currentColors = useMemo(() => staticData.map(d => new THREE.Color(d.color)), [staticData]);
+  const colorsSettledRef = useRef(true);
+  useEffect(() => {
+    colorsSettledRef.current = false;
+  }, [colorTargets]);
 
   // Initial Setup
   useEffect(() => {
@@ -67,9 +84,7 @@ export const Needles: React.FC<NeedlesProps> = ({ count, appState }) => {
       staticData.forEach((d, i) => {
         meshRef.current!.setColorAt(i, new THREE.Color(d.color));
         
-        const initialPos = appState === AppState.TREE_SHAPE ? targets[i].treePosition : targets[i].scatterPosition;
-        
-        dummy.position.copy(initialPos);
+        dummy.position.copy(targets[i]);
         dummy.rotation.copy(d.rotation);
         dummy.scale.setScalar(d.scale);
         dummy.updateMatrix();
@@ -85,7 +100,7 @@ export const Needles: React.FC<NeedlesProps> = ({ count, appState }) => {
     if (!meshRef.current) return;
 
     const time = state.clock.elapsedTime;
-    const isTreeMode = appState === AppState.TREE_SHAPE;
+    const isFormed = appState !== AppState.SCATTERED;
     
     // Pre-calculate common values
     const scatterDriftMult = 0.5;
@@ -93,22 +108,20 @@ export const Needles: React.FC<NeedlesProps> = ({ count, appState }) => {
 
     for (let i = 0; i < count; i++) {
       const s = staticData[i];
-      const t = targets[i];
       
       // Read current position
       meshRef.current.getMatrixAt(i, dummy.matrix);
       dummy.position.setFromMatrixPosition(dummy.matrix);
       
       // Determine base target
-      const baseTarget = isTreeMode ? t.treePosition : t.scatterPosition;
-      targetPos.copy(baseTarget);
+      targetPos.copy(targets[i]);
 
       // --- ORGANIC MOVEMENT LOGIC ---
       // Calculate drift offset once
       const timePhase = time + s.phase;
       
-      if (isTreeMode) {
-        // Gentle shivering/twinkling on the tree
+      if (isFormed) {
+        // Gentle shivering/twinkling in formation
         driftOffset.set(
           Math.sin(time * 2 + s.phase) * treeDriftMult,
           Math.cos(time * 1.5 + s.phase) * treeDriftMult,
@@ -126,7 +139,7 @@ export const Needles: React.FC<NeedlesProps> = ({ count, appState }) => {
       targetPos.add(driftOffset);
 
       // 2. Interpolate with VARIABLE speed
-      const moveSpeed = isTreeMode ? s.speed * 4.0 : s.speed;
+      const moveSpeed = isFormed ? s.speed * 4.0 : s.speed;
       const lerpFactor = THREE.MathUtils.clamp(moveSpeed * delta, 0, 1);
       tempPos.lerpVectors(dummy.position, targetPos, lerpFactor);
       
@@ -142,6 +155,26 @@ export const Needles: React.FC<NeedlesProps> = ({ count, appState }) => {
       meshRef.current.setMatrixAt(i, dummy.matrix);
     }
     meshRef.current.instanceMatrix.needsUpdate = true;
+
+    // 3. Blend colours (only while a change is in progress)
+    if (!colorsSettledRef.current) {
+      const colorFactor = THREE.MathUtils.clamp(delta * 2, 0, 1);
+      let remaining = 0;
+      for (let i = 0; i < count; i++) {
+        const target = colorTargets[i];
+        const color = currentColors[i].lerp(target, colorFactor);
+        remaining += Math.abs(color.r - target.r) + Math.abs(color.g - target.g) + Math.abs(color.b - target.b);
+        meshRef.current.setColorAt(i, color);
+      }
+      if (meshRef.current.instanceColor) meshRef.current.instanceColor.needsUpdate = true;
+      if (remaining < 0.01 * count) {
+        colorTargets.forEach((target, i) => {
+          currentColors[i].copy(target);
+          meshRef.current!.setColorAt(i, target);
+        });
+        colorsSettledRef.current = true;
+      }
+    }
   });
 
   return (
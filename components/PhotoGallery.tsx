@@ -0,0 +1,201 @@
+// React
+import React, { useState } from 'react';
+
+// Types & Utils
+import { UserPhoto } from '../types';
+import { sceneStore, useSceneStore, selectUserPhotos } from '../utils/sceneStore';
+import { PHOTO_CAPTION_MAX_LENGTH } from '../utils/photoGallery';
+import { PhotoStorageUsage, formatBytes } from '../utils/photoStorage';
+import { FRAMES_COUNT } from '../constants';
+
+interface PhotoGalleryProps {
+  /** Space taken by the photos (null until measured) */
+  storage: PhotoStorageUsage | null;
+  /** Open the file picker; picked photos are appended */
+  onAddPhotos: () => void;
+  onClose: () => void;
+}
+
+const fieldClass = "px-2 py-1.5 rounded-lg font-['Lato'] text-xs text-white bg-white/5 border border-white/10 focus:border-white/30 outline-none";
+const iconButtonClass = "w-7 h-7 flex items-center justify-center rounded-lg text-white/40 hover:text-white/80 hover:bg-white/10 transition-all duration-200 disabled:opacity-20 disabled:pointer-events-none";
+
+// Single photo row: thumbnail (drag handle), caption, date, pinned frame
+const PhotoRow: React.FC<{
+  photo: UserPhoto;
+  index: number;
+  count: number;
+  isDropTarget: boolean;
+  onDragStart: () => void;
+  onDragOver: () => void;
+  onDrop: () => void;
+  onDragEnd: () => void;
+}> = ({ photo, index, count, isDropTarget, onDragStart, onDragOver, onDrop, onDragEnd }) => {
+  const { actions } = sceneStore;
+  // Captions are saved on blur / Enter rather than per keystroke, since every save rewrites the photo store
+  const [caption, setCaption] = useState(photo.caption);
+
+  const commitCaption = () => {
+    const trimmed = caption.trim();
+    setCaption(trimmed);
+    if (trimmed !== photo.caption) actions.updateUserPhoto(photo.id, { caption: trimmed });
+  };
+
+  return (
+    <div
+      onDragOver={(e) => { e.preventDefault(); onDragOver(); }}
+      onDrop={(e) => { e.preventDefault(); onDrop(); }}
+      className={`flex gap-3 items-center p-2 rounded-xl border transition-all duration-200 ${isDropTarget ? 'border-[#FFD700]/60 bg-white/10' : 'border-transparent'}`}
+    >
+      <img
+        src={photo.url}
+        alt={photo.caption || `Photo ${index + 1}`}
+        draggable
+        onDragStart={(e) => {
+          e.dataTransfer.effectAllowed = 'move';
+          e.dataTransfer.setData('text/plain', photo.id);
+          onDragStart();
+        }}
+        onDragEnd={onDragEnd}
+        className="w-14 h-14 object-cover rounded-lg cursor-grab active:cursor-grabbing border border-white/10"
+        title="Drag to reorder"
+      />
+
+      <div className="flex-1 min-w-0 space-y-1.5">
+        <input
+          type="text"
+          value={caption}
+          maxLength={PHOTO_CAPTION_MAX_LENGTH}
+          onChange={(e) => setCaption(e.target.value)}
+          onBlur={commitCaption}
+          onKeyDown={(e) => { if (e.key === 'Enter') (e.target as HTMLInputElement).blur(); }}
+          placeholder="Add a caption..."
+          className={`${fieldClass} w-full placeholder-white/30`}
+        />
+        <div className="flex gap-2">
+          <input
+            type="date"
+            value={photo.date}
+            onChange={(e) => actions.updateUserPhoto(photo.id, { date: e.target.value })}
+            className={`${fieldClass} flex-1 min-w-0 [color-scheme:dark]`}
+            title="Date shown under the caption"
+          />
+          <select
+            value={photo.frame ?? ''}
+            onChange={(e) => actions.updateUserPhoto(photo.id, { frame: e.target.value === '' ? null : Number(e.target.value) })}
+            className={fieldClass}
+            title="Keep this photo on one frame"
+          >
+            <option value="" className="bg-black">Any frame</option>
+            {Array.from({ length: FRAMES_COUNT }, (_, frame) => (
+              <option key={frame} value={frame} className="bg-black">Frame {frame + 1}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div className="flex flex-col">
+        <button onClick={() => actions.moveUserPhoto(photo.id, index - 1)} disabled={index === 0} className={iconButtonClass} title="Move up">
+          ↑
+        </button>
+        <button onClick={() => actions.moveUserPhoto(photo.id, index + 1)} disabled={index === count - 1} className={iconButtonClass} title="Move down">
+          ↓
+        </button>
+      </div>
+      <button onClick={() => actions.removeUserPhoto(photo.id)} className={iconButtonClass} title="Remove">
+        ×
+      </button>
+    </div>
+  );
+};
+
+/**
+ * Photo library manager
+ * Edits the scene store directly: add, remove, reorder, caption, date and pin photos to frames.
+ */
+export const PhotoGallery: React.FC<PhotoGalleryProps> = ({ storage, onAddPhotos, onClose }) => {
+  const photos = useSceneStore(selectUserPhotos);
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+
+  const endDrag = () => {
+    setDraggedId(null);
+    setDropIndex(null);
+  };
+
+  const dropAt = (index: number) => {
+    if (draggedId) sceneStore.actions.moveUserPhoto(draggedId, index);
+    endDrag();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 pointer-events-auto" style={{
+      background: 'rgba(0,0,0,0.85)',
+      backdropFilter: 'blur(12px)'
+    }}>
+      <div className="w-full max-w-lg flex flex-col max-h-[85vh] rounded-3xl overflow-hidden" style={{
+        background: 'rgba(0,0,0,0.6)',
+        border: '1px solid rgba(255,255,255,0.1)',
+        boxShadow: '0 25px 50px rgba(0,0,0,0.5)'
+      }}>
+        <div className="p-8 pb-4">
+          <h2 className="text-3xl font-['Playfair_Display'] text-white mb-2 text-center">
+            Your Photos
+          </h2>
+          <p className="text-white/40 text-sm font-['Lato'] text-center">
+            {photos.length} {photos.length === 1 ? 'photo' : 'photos'}
+            {storage && photos.length > 0 && ` · ${formatBytes(storage.photoBytes)}`}
+          </p>
+          {storage && storage.usedBytes !== null && storage.quotaBytes !== null && (
+            <p className="mt-1 text-white/25 text-[10px] font-['Lato'] text-center">
+              Browser storage: {formatBytes(storage.usedBytes)} of {formatBytes(storage.quotaBytes)} used
+            </p>
+          )}
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-6 pb-4 space-y-1">
+          {photos.map((photo, index) => (
+            <PhotoRow
+              key={photo.id}
+              photo={photo}
+              index={index}
+              count={photos.length}
+              isDropTarget={draggedId !== null && draggedId !== photo.id && dropIndex === index}
+              onDragStart={() => setDraggedId(photo.id)}
+              onDragOver={() => setDropIndex(index)}
+              onDrop={() => dropAt(index)}
+              onDragEnd={endDrag}
+            />
+          ))}
+
+          {photos.length === 0 && (
+            <div className="text-center py-12 text-white/30 text-sm font-['Lato']">
+              No photos yet
+            </div>
+          )}
+        </div>
+
+        <div className="px-8 pb-8 space-y-3">
+          <p className="text-white/30 text-[10px] font-['Lato'] text-center">
+            Drag to reorder. Photos without a frame fill the remaining frames in order.
+          </p>
+          <button
+            onClick={onAddPhotos}
+            className="w-full py-3 rounded-xl font-['Lato'] text-sm text-white/60 hover:text-white border border-white/10 hover:border-white/20 hover:bg-white/5 transition-all duration-200 flex items-center justify-center gap-2"
+          >
+            <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+              <line x1="12" y1="5" x2="12" y2="19"></line>
+              <line x1="5" y1="12" x2="19" y2="12"></line>
+            </svg>
+            Add photos
+          </button>
+          <button
+            onClick={onClose}
+            className="w-full py-3 rounded-xl font-['Lato'] text-sm font-medium bg-white text-black hover:bg-white/90 transition-all duration-200"
+          >
+            Done
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
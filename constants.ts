@@ -17,6 +17,12 @@ export const NEEDLES_COUNT = 2400;
 export const BAUBLES_COUNT = 150;
 export const SPIRAL_LIGHTS_COUNT = 400;
 
+// ============================================================================
+// INTERACTIVE ITEMS
+// ============================================================================
+export const GIFTS_COUNT = 30;
+export const FRAMES_COUNT = 15;
+
 // ============================================================================
 // ANIMATION SPEEDS
 // ============================================================================
@@ -28,6 +34,8 @@ export const AUTO_ROTATE_SPEED = 0.3;
 export const CAMERA_POSITION_DESKTOP: [number, number, number] = [0, 0, 18];
 export const CAMERA_POSITION_MOBILE: [number, number, number] = [0, 0, 28];
 export const CAMERA_FOV = 45;
+export const CAMERA_MIN_DISTANCE = 8;
+export const CAMERA_MAX_DISTANCE = 25;
 
 // ============================================================================
 // COLOR PALETTES
@@ -0,0 +1,50 @@
+/**
+ * Copy the MediaPipe tasks-vision WASM runtime and download the hand landmarker model
+ * into public/mediapipe, so Vite bundles them into dist/ and server.js can serve them
+ * without reaching external hosts at runtime.
+ *
+ * Runs automatically before `npm run dev` and `npm run build`. A failed model download
+ * is not fatal: the app falls back to the CDN when the self-hosted copy is missing.
+ */
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const rootDir = path.join(__dirname, '..');
+
+const packageDir = path.join(rootDir, 'node_modules', '@mediapipe', 'tasks-vision');
+const { version } = JSON.parse(fs.readFileSync(path.join(packageDir, 'package.json'), 'utf8'));
+
+// Versioned directory so the files can be cached forever
+const targetDir = path.join(rootDir, 'public', 'mediapipe', version);
+const wasmTargetDir = path.join(targetDir, 'wasm');
+const modelTarget = path.join(targetDir, 'hand_landmarker.task');
+
+const MODEL_URL = process.env.HAND_LANDMARKER_MODEL_SOURCE_URL ||
+  'https://storage.googleapis.com/mediapipe-models/hand_landmarker/hand_landmarker/float16/1/hand_landmarker.task';
+const DOWNLOAD_TIMEOUT_MS = 60000;
+
+// 1. WASM runtime (shipped in the npm package)
+fs.mkdirSync(wasmTargetDir, { recursive: true });
+const wasmSourceDir = path.join(packageDir, 'wasm');
+for (const file of fs.readdirSync(wasmSourceDir)) {
+  fs.copyFileSync(path.join(wasmSourceDir, file), path.join(wasmTargetDir, file));
+}
+console.log(`📦 MediaPipe ${version} WASM copied to ${path.relative(rootDir, wasmTargetDir)}`);
+
+// 2. Hand landmarker model (downloaded once, then reused)
+if (fs.existsSync(modelTarget)) {
+  console.log('📦 Hand landmarker model already present');
+} else {
+  try {
+    console.log(`⬇️ Downloading hand landmarker model from ${MODEL_URL}`);
+    const response = await fetch(MODEL_URL, { signal: AbortSignal.timeout(DOWNLOAD_TIMEOUT_MS) });
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    fs.writeFileSync(modelTarget, Buffer.from(await response.arrayBuffer()));
+    console.log(`✅ Model saved to ${path.relative(rootDir, modelTarget)}`);
+  } catch (error) {
+    console.warn('⚠️ Could not download the hand landmarker model:', error.message);
+    console.warn('💡 The app will fall back to the CDN copy unless you place the file manually at', modelTarget);
+  }
+}
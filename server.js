@@ -22,6 +22,25 @@ if (fs.existsSync(distPath)) {
   console.error('💡 Make sure to run "npm run build" before starting the server');
 }
 
+// Serve self-hosted MediaPipe assets (WASM runtime + hand landmarker model)
+// Paths are versioned (/mediapipe/<version>/...), so they can be cached for a year
+const mediapipePath = path.join(distPath, 'mediapipe');
+const MEDIAPIPE_MIME_TYPES = {
+  '.wasm': 'application/wasm',
+  '.task': 'application/octet-stream',
+  '.js': 'text/javascript; charset=utf-8',
+};
+app.use('/mediapipe', express.static(mediapipePath, {
+  maxAge: '1y',
+  immutable: true,
+  etag: true,
+  fallthrough: false, // Missing asset -> 404 so the client falls back to the CDN, not index.html
+  setHeaders: (res, filePath) => {
+    const mimeType = MEDIAPIPE_MIME_TYPES[path.extname(filePath)];
+    if (mimeType) res.setHeader('Content-Type', mimeType);
+  }
+}));
+
 // Serve static files from the dist directory
 app.use(express.static(distPath, {
   maxAge: '1d',
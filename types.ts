@@ -1,13 +1,27 @@
 import * as THREE from 'three';
 
 /**
- * Application state enumeration
+ * Application state enumeration (the formation all particle systems assemble into)
  */
 export enum AppState {
   /** Particles scattered in space */
   SCATTERED = 'SCATTERED',
   /** Particles formed into a Christmas tree shape */
   TREE_SHAPE = 'TREE_SHAPE',
+  /** Spiral galaxy with a glowing core */
+  GALAXY = 'GALAXY',
+  /** Puffy heart */
+  HEART = 'HEART',
+  /** Giant five-pointed star */
+  STAR = 'STAR',
+  /** Three stacked snowballs */
+  SNOWMAN = 'SNOWMAN',
+  /** Ring wreath wound with lights */
+  WREATH = 'WREATH',
+  /** The user's own words */
+  TEXT = 'TEXT',
+  /** Silhouette of an uploaded photo or logo */
+  IMAGE = 'IMAGE',
 }
 
 /**
@@ -23,13 +37,11 @@ export enum InteractionMode {
 }
 
 /**
- * Base interface for objects with dual positions (tree and scattered)
+ * Base interface for objects placed by the active formation
  */
-export interface DualPosition {
-  /** Position when in tree formation */
-  treePosition: THREE.Vector3;
-  /** Position when scattered */
-  scatterPosition: THREE.Vector3;
+export interface FormationPlacement {
+  /** Target position in the active formation */
+  position: THREE.Vector3;
   /** Rotation of the object */
   rotation: THREE.Euler;
   /** Scale factor */
@@ -41,13 +53,310 @@ export interface DualPosition {
 /**
  * Interactive item data (gifts and photo frames)
  */
-export interface InteractiveItemData extends DualPosition {
+export interface InteractiveItemData extends FormationPlacement {
   /** Unique identifier */
   id: string;
   /** Type of interactive item */
   type: 'gift' | 'frame';
   /** Image URL for frames */
   imageUrl?: string;
-  /** Text message for gifts */
-  giftContent?: string;
-}
\ No newline at end of file
+  /** Photo caption for frames, shown on the mat when pulled */
+  caption?: string;
+  /** Formatted photo date shown under the caption */
+  captionDate?: string;
+  /** What a gift reveals when opened */
+  giftContent?: GiftContent;
+}
+
+/**
+ * Recorded or uploaded file attached to a gift (stored in IndexedDB)
+ */
+export interface GiftMedia {
+  /** Key in the media database */
+  id: string;
+  blob: Blob;
+  /** Object URL of the blob, valid for this session */
+  url: string;
+}
+
+/**
+ * Contents of a gift, revealed when its lid opens
+ * M is how attached media is held: loaded files in the scene, database keys or
+ * data URLs when saved.
+ */
+export type GiftContent<M = GiftMedia> =
+  /** Written card (an empty title gives a plain message) */
+  | { kind: 'card'; title: string; body: string }
+  /** Picture with an optional caption */
+  | { kind: 'photo'; media: M; caption: string }
+  /** Web link, opened by tapping the card, optionally shown as a QR code */
+  | { kind: 'link'; url: string; label: string; qr: boolean }
+  /** Short voice message recorded in the browser (duration in seconds) */
+  | { kind: 'audio'; media: M; label: string; duration: number };
+
+export type GiftKind = GiftContent['kind'];
+
+/**
+ * Hand gesture recognized from camera landmarks
+ */
+export enum Gesture {
+  /** No hand in view */
+  NONE = 'NONE',
+  /** Hand visible but not matching any known pose */
+  NEUTRAL = 'NEUTRAL',
+  /** Closed fist (at most one finger extended) */
+  FIST = 'FIST',
+  /** Thumb and index finger tips touching */
+  PINCH = 'PINCH',
+  /** Only the index finger extended */
+  POINT = 'POINT',
+  /** Four or more fingers extended */
+  OPEN = 'OPEN',
+  /** Two hands: index pointing with the user's left hand */
+  LEFT_POINT = 'LEFT_POINT',
+  /** Two hands: index pointing with the user's right hand */
+  RIGHT_POINT = 'RIGHT_POINT',
+  /** Two hands: both closed into fists */
+  BOTH_FISTS = 'BOTH_FISTS',
+  /** Two hands: both palms open (spreading/closing them zooms) */
+  BOTH_OPEN = 'BOTH_OPEN',
+  /** Quick horizontal hand movement to the user's left (momentary, while an item is pulled) */
+  SWIPE_LEFT = 'SWIPE_LEFT',
+  /** Quick horizontal hand movement to the user's right (momentary, while an item is pulled) */
+  SWIPE_RIGHT = 'SWIPE_RIGHT',
+}
+
+/**
+ * Scene action that gestures, buttons and keys can be bound to
+ */
+export enum SceneAction {
+  /** Disabled - the trigger does nothing */
+  NONE = 'NONE',
+  /** Scatter particles into space */
+  SCATTER = 'SCATTER',
+  /** Form the Christmas tree */
+  FORM_TREE = 'FORM_TREE',
+  /** Pull a photo frame to the camera */
+  PULL_FRAME = 'PULL_FRAME',
+  /** Pull and open a gift */
+  PULL_GIFT = 'PULL_GIFT',
+  /** Drop any pulled item (back to IDLE) */
+  RELEASE_ITEM = 'RELEASE_ITEM',
+  /** Form the tree, drop items and reset the camera */
+  RESET_SCENE = 'RESET_SCENE',
+  /** Aim at a gift or frame with the index finger; dwell or pinch picks it */
+  AIM = 'AIM',
+  /** Switch the pulled item to the next one of its kind */
+  NEXT_ITEM = 'NEXT_ITEM',
+  /** Switch the pulled item to the previous one of its kind */
+  PREVIOUS_ITEM = 'PREVIOUS_ITEM',
+  /** Form the spiral galaxy */
+  FORM_GALAXY = 'FORM_GALAXY',
+  /** Form the heart */
+  FORM_HEART = 'FORM_HEART',
+  /** Form the giant star */
+  FORM_STAR = 'FORM_STAR',
+  /** Form the snowman */
+  FORM_SNOWMAN = 'FORM_SNOWMAN',
+  /** Form the wreath */
+  FORM_WREATH = 'FORM_WREATH',
+  /** Spell out the user's text */
+  FORM_TEXT = 'FORM_TEXT',
+  /** Form the silhouette of the user's image */
+  FORM_IMAGE = 'FORM_IMAGE',
+  /** Switch to the next formation in the cycle */
+  NEXT_FORMATION = 'NEXT_FORMATION',
+}
+
+/**
+ * How a binding reacts to its trigger
+ * - trigger: perform the action once when pressed
+ * - toggle: switch the action on, or back off if it is already active
+ * - hold: action is active only while the trigger is held
+ */
+export type BindingMode = 'trigger' | 'toggle' | 'hold';
+
+/**
+ * Action bound to a single trigger
+ */
+export interface ActionBinding {
+  action: SceneAction;
+  mode: BindingMode;
+}
+
+/**
+ * On-screen control buttons
+ */
+export type ControlButton = 'scatter' | 'tree' | 'photo' | 'gift';
+
+/**
+ * Complete gesture/button/key to action mapping (serializable to JSON)
+ */
+export interface BindingMap {
+  version: number;
+  gestures: Partial<Record<Gesture, ActionBinding>>;
+  buttons: Record<ControlButton, ActionBinding>;
+  /** Keyed by lower-cased KeyboardEvent.key */
+  keys: Record<string, ActionBinding>;
+  /** Keyed by Gamepad API button index (standard mapping) */
+  gamepad: Record<string, ActionBinding>;
+}
+
+/**
+ * Point-to-select state shared between the gesture layer and the scene (mutated per frame)
+ */
+export interface PointerAim {
+  /** Aim point in normalized device coordinates (-1..1), null while not aiming */
+  ndc: { x: number; y: number } | null;
+  /** Item currently under the aim ray */
+  hoveredId: string | null;
+  /** Dwell progress on the hovered item (0..1, picks it at 1) */
+  dwell: number;
+  /** Pick the hovered item immediately (pinch confirm) */
+  confirmRequested: boolean;
+}
+
+/**
+ * Analog pull of the targeted item, driven by a pinch-and-pull hand movement (mutated per frame)
+ */
+export interface ItemPull {
+  /** True while the hand holds the item */
+  grabbed: boolean;
+  /** How far the item has travelled (0 = resting in the scene, 1 = in front of the camera) */
+  amount: number;
+}
+
+/**
+ * Request to switch the pulled item (a new id re-triggers the same direction)
+ */
+export interface ItemStepRequest {
+  direction: 1 | -1;
+  id: number;
+}
+
+/**
+ * Request to pull one specific item (a new id re-triggers the same item)
+ */
+export interface ItemPullRequest {
+  itemId: string;
+  id: number;
+}
+
+/**
+ * How an uploaded image is turned into a particle silhouette
+ */
+export interface ImageShapeSettings {
+  /** Foreground cut-off (0..1): difference from the background colour, or opacity for transparent images */
+  threshold: number;
+  /** Fill the whole silhouette, or only trace its outline (crisper for logos) */
+  mode: 'silhouette' | 'outline';
+  /** Swap foreground and background */
+  invert: boolean;
+}
+
+/**
+ * Image the image formation is built from (persisted)
+ */
+export interface ShapeImage {
+  /** PNG data URL (keeps transparency) */
+  url: string;
+  settings: ImageShapeSettings;
+}
+
+/**
+ * Photo uploaded for the frames (stored in IndexedDB)
+ */
+export interface UserPhoto {
+  /** Key in the photo database */
+  id: string;
+  /** Compressed image */
+  blob: Blob;
+  /** Object URL of the blob, valid for this session */
+  url: string;
+  /** Shown on the mat board when the frame is pulled (empty = none) */
+  caption: string;
+  /** Day the photo was taken, as YYYY-MM-DD (empty = none) */
+  date: string;
+  /** Frame the photo is pinned to (index), or null to be placed automatically */
+  frame: number | null;
+}
+
+/**
+ * Where the most recent user input came from
+ */
+export type InputSource = 'gesture' | 'pointer' | 'keyboard' | 'gamepad';
+
+/**
+ * Which of the user's hands a landmark set belongs to
+ */
+export type HandSide = 'left' | 'right';
+
+/**
+ * Single hand landmark in normalized image coordinates (0..1)
+ * Structurally compatible with MediaPipe's NormalizedLandmark
+ */
+export interface HandLandmark {
+  x: number;
+  y: number;
+  z?: number;
+}
+
+/**
+ * Handedness classification of a tracked hand
+ */
+export interface HandednessCategory {
+  /** "Left" or "Right" */
+  categoryName: string;
+  /** Classification confidence (0..1) */
+  score: number;
+}
+
+/**
+ * Hand tracking output for a single video frame
+ * Subset of MediaPipe's HandLandmarkerResult, so recorded sessions can be replayed
+ */
+export interface HandFrame {
+  /** Landmarks of each detected hand */
+  landmarks: HandLandmark[][];
+  /** Handedness of each detected hand (same order as landmarks) */
+  handedness: HandednessCategory[][];
+}
+
+/**
+ * Continuous camera input written by the UI layer and consumed by the scene every frame
+ * Kept in a mutable ref so per-frame hand tracking does not trigger React renders
+ */
+export interface CameraInput {
+  /** Accumulated zoom request (positive zooms in), reset to 0 once applied */
+  zoomDelta: number;
+  /** Animate the camera back to its initial position */
+  resetRequested: boolean;
+  /** Analog steering from the palm position, null while not steering */
+  steer: CameraSteer | null;
+  /** Orbit rate from keys / gamepad stick (-1..1 per axis), zero while idle */
+  orbit: { x: number; y: number };
+  /** Animate the camera to this viewpoint (e.g. from a shared link), cleared once taken over */
+  moveTo: CameraPose | null;
+}
+
+/**
+ * Camera viewpoint
+ */
+export interface CameraPose {
+  /** Camera position in world space */
+  position: [number, number, number];
+  /** Point the camera orbits around and looks at */
+  target: [number, number, number];
+}
+
+/**
+ * Analog camera steering target derived from the user's hand
+ */
+export interface CameraSteer {
+  /** Horizontal position (-1 left .. 1 right), drives the orbit azimuth */
+  x: number;
+  /** Vertical position (-1 top .. 1 bottom), drives the orbit polar angle */
+  y: number;
+  /** Hand closeness (0 far .. 1 near), drives the zoom distance */
+  zoom: number;
+}
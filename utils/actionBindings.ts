@@ -0,0 +1,353 @@
+/**
+ * Gesture / button / key to scene action bindings
+ * Defaults reproduce the original hard-coded behavior; custom maps are persisted in localStorage.
+ */
+
+import {
+  AppState,
+  InteractionMode,
+  Gesture,
+  SceneAction,
+  BindingMode,
+  ActionBinding,
+  BindingMap,
+  ControlButton,
+} from '../types';
+import { getFormationForAction, getNextFormation } from './formations';
+
+export const BINDINGS_STORAGE_KEY = 'celestial-tree-bindings';
+export const BINDINGS_FORMAT_VERSION = 2;
+
+export const SCENE_ACTIONS = Object.values(SceneAction);
+export const BINDING_MODES: BindingMode[] = ['trigger', 'toggle', 'hold'];
+export const CONTROL_BUTTONS: ControlButton[] = ['scatter', 'tree', 'photo', 'gift'];
+
+/** Human-readable action names (also used as button labels) */
+export const ACTION_LABELS: Record<SceneAction, string> = {
+  [SceneAction.NONE]: 'Disabled',
+  [SceneAction.SCATTER]: 'Scatter',
+  [SceneAction.FORM_TREE]: 'Tree',
+  [SceneAction.PULL_FRAME]: 'Photo',
+  [SceneAction.PULL_GIFT]: 'Gift',
+  [SceneAction.RELEASE_ITEM]: 'Release',
+  [SceneAction.RESET_SCENE]: 'Reset',
+  [SceneAction.AIM]: 'Aim & Pick',
+  [SceneAction.NEXT_ITEM]: 'Next',
+  [SceneAction.PREVIOUS_ITEM]: 'Previous',
+  [SceneAction.FORM_GALAXY]: 'Galaxy',
+  [SceneAction.FORM_HEART]: 'Heart',
+  [SceneAction.FORM_STAR]: 'Star',
+  [SceneAction.FORM_SNOWMAN]: 'Snowman',
+  [SceneAction.FORM_WREATH]: 'Wreath',
+  [SceneAction.FORM_TEXT]: 'Text',
+  [SceneAction.FORM_IMAGE]: 'Image',
+  [SceneAction.NEXT_FORMATION]: 'Next Shape',
+};
+
+/** Human-readable gesture names */
+export const GESTURE_LABELS: Record<Gesture, string> = {
+  [Gesture.NONE]: 'No Hand',
+  [Gesture.NEUTRAL]: 'Relaxed Hand',
+  [Gesture.FIST]: 'Closed Fist',
+  [Gesture.PINCH]: 'Pinch Index & Thumb',
+  [Gesture.POINT]: 'Point Finger',
+  [Gesture.OPEN]: 'Open Hand',
+  [Gesture.LEFT_POINT]: 'Two Hands, Left Points',
+  [Gesture.RIGHT_POINT]: 'Two Hands, Right Points',
+  [Gesture.BOTH_FISTS]: 'Two Fists',
+  [Gesture.BOTH_OPEN]: 'Two Open Palms',
+  [Gesture.SWIPE_LEFT]: 'Swipe Left',
+  [Gesture.SWIPE_RIGHT]: 'Swipe Right',
+};
+
+/** Names of the standard-mapping gamepad buttons */
+export const GAMEPAD_BUTTON_LABELS: Record<string, string> = {
+  0: 'A / Cross',
+  1: 'B / Circle',
+  2: 'X / Square',
+  3: 'Y / Triangle',
+  4: 'Left Bumper',
+  5: 'Right Bumper',
+  6: 'Left Trigger',
+  7: 'Right Trigger',
+  8: 'Back / Select',
+  9: 'Start',
+  10: 'Left Stick Press',
+  11: 'Right Stick Press',
+  12: 'D-pad Up',
+  13: 'D-pad Down',
+  14: 'D-pad Left',
+  15: 'D-pad Right',
+};
+
+const bind = (action: SceneAction, mode: BindingMode = 'trigger'): ActionBinding => ({ action, mode });
+
+export const DEFAULT_BINDINGS: BindingMap = {
+  version: BINDINGS_FORMAT_VERSION,
+  gestures: {
+    [Gesture.NONE]: bind(SceneAction.RELEASE_ITEM),
+    [Gesture.NEUTRAL]: bind(SceneAction.RELEASE_ITEM),
+    [Gesture.FIST]: bind(SceneAction.FORM_TREE),
+    [Gesture.OPEN]: bind(SceneAction.SCATTER),
+    [Gesture.PINCH]: bind(SceneAction.PULL_FRAME, 'toggle'),
+    // Pointing aims at a specific item; dwell or pinch picks it
+    [Gesture.POINT]: bind(SceneAction.AIM, 'hold'),
+    [Gesture.LEFT_POINT]: bind(SceneAction.PULL_GIFT, 'toggle'),
+    [Gesture.RIGHT_POINT]: bind(SceneAction.PULL_FRAME, 'toggle'),
+    [Gesture.BOTH_FISTS]: bind(SceneAction.RESET_SCENE),
+    // Two open palms drive the continuous zoom instead
+    [Gesture.BOTH_OPEN]: bind(SceneAction.NONE),
+    // Swipes browse the pulled items like turning pages
+    [Gesture.SWIPE_LEFT]: bind(SceneAction.NEXT_ITEM),
+    [Gesture.SWIPE_RIGHT]: bind(SceneAction.PREVIOUS_ITEM),
+  },
+  buttons: {
+    scatter: bind(SceneAction.SCATTER),
+    tree: bind(SceneAction.FORM_TREE),
+    photo: bind(SceneAction.PULL_FRAME, 'toggle'),
+    gift: bind(SceneAction.PULL_GIFT, 'toggle'),
+  },
+  keys: {
+    s: bind(SceneAction.SCATTER),
+    t: bind(SceneAction.FORM_TREE),
+    p: bind(SceneAction.PULL_FRAME, 'toggle'),
+    g: bind(SceneAction.PULL_GIFT, 'toggle'),
+    escape: bind(SceneAction.RELEASE_ITEM),
+    r: bind(SceneAction.RESET_SCENE),
+    '[': bind(SceneAction.PREVIOUS_ITEM),
+    ']': bind(SceneAction.NEXT_ITEM),
+    1: bind(SceneAction.FORM_TREE),
+    2: bind(SceneAction.FORM_GALAXY),
+    3: bind(SceneAction.FORM_HEART),
+    4: bind(SceneAction.FORM_STAR),
+    5: bind(SceneAction.FORM_SNOWMAN),
+    6: bind(SceneAction.FORM_WREATH),
+    7: bind(SceneAction.FORM_TEXT),
+    8: bind(SceneAction.FORM_IMAGE),
+    f: bind(SceneAction.NEXT_FORMATION),
+  },
+  gamepad: {
+    0: bind(SceneAction.PULL_FRAME, 'toggle'),
+    1: bind(SceneAction.PULL_GIFT, 'toggle'),
+    2: bind(SceneAction.SCATTER),
+    3: bind(SceneAction.FORM_TREE),
+    4: bind(SceneAction.PREVIOUS_ITEM),
+    5: bind(SceneAction.NEXT_ITEM),
+    8: bind(SceneAction.RELEASE_ITEM),
+    9: bind(SceneAction.RESET_SCENE),
+    12: bind(SceneAction.NEXT_FORMATION),
+    14: bind(SceneAction.PREVIOUS_ITEM),
+    15: bind(SceneAction.NEXT_ITEM),
+  },
+};
+
+/**
+ * Scene state setters an action is applied to
+ */
+export interface SceneActionContext {
+  /** Current formation (toggled formations switch back to the tree, or scatter) */
+  appState: AppState;
+  setAppState: (s: AppState) => void;
+  setInteractionMode: (update: (prev: InteractionMode) => InteractionMode) => void;
+  requestCameraReset: () => void;
+  /** Switch the pulled item to the next (1) or previous (-1) one */
+  stepItem: (direction: 1 | -1) => void;
+  /** Turn point-to-select aiming on or off */
+  setAiming: (update: (prev: boolean) => boolean) => void;
+}
+
+/**
+ * Perform (or, for hold bindings, undo) a bound action
+ * @param binding - Binding that fired
+ * @param phase - 'press' when the trigger starts, 'release' when it ends
+ * @param ctx - Scene state setters
+ */
+export const applyBinding = (
+  binding: ActionBinding | undefined,
+  phase: 'press' | 'release',
+  ctx: SceneActionContext
+): void => {
+  if (!binding || binding.action === SceneAction.NONE) return;
+  // Only hold bindings react to release
+  if (phase === 'release' && binding.mode !== 'hold') return;
+
+  const { action, mode } = binding;
+  const releasing = phase === 'release';
+
+  const pull = (target: InteractionMode) => {
+    ctx.setInteractionMode(prev => {
+      if (releasing) return prev === target ? InteractionMode.IDLE : prev;
+      if (mode === 'toggle' && prev === target) return InteractionMode.IDLE;
+      return target;
+    });
+  };
+
+  const formation = (target: AppState, other: AppState) => {
+    const toggledOff = mode === 'toggle' && ctx.appState === target;
+    ctx.setInteractionMode(() => InteractionMode.IDLE);
+    ctx.setAppState(releasing || toggledOff ? other : target);
+  };
+
+  switch (action) {
+    case SceneAction.PULL_FRAME:
+      pull(InteractionMode.PULLING_FRAME);
+      break;
+    case SceneAction.PULL_GIFT:
+      pull(InteractionMode.PULLING_GIFT);
+      break;
+    case SceneAction.SCATTER:
+      formation(AppState.SCATTERED, AppState.TREE_SHAPE);
+      break;
+    case SceneAction.FORM_TREE:
+    case SceneAction.FORM_GALAXY:
+    case SceneAction.FORM_HEART:
+    case SceneAction.FORM_STAR:
+    case SceneAction.FORM_SNOWMAN:
+    case SceneAction.FORM_WREATH:
+    case SceneAction.FORM_TEXT:
+    case SceneAction.FORM_IMAGE:
+      formation(getFormationForAction(action)!, AppState.SCATTERED);
+      break;
+    case SceneAction.NEXT_FORMATION:
+      if (!releasing) {
+        ctx.setInteractionMode(() => InteractionMode.IDLE);
+        ctx.setAppState(getNextFormation(ctx.appState));
+      }
+      break;
+    case SceneAction.RELEASE_ITEM:
+      if (!releasing) ctx.setInteractionMode(() => InteractionMode.IDLE);
+      break;
+    case SceneAction.RESET_SCENE:
+      if (!releasing) {
+        ctx.setInteractionMode(() => InteractionMode.IDLE);
+        ctx.setAppState(AppState.TREE_SHAPE);
+        ctx.requestCameraReset();
+      }
+      break;
+    case SceneAction.AIM:
+      ctx.setAiming(prev => {
+        if (releasing) return false;
+        return mode === 'toggle' ? !prev : true;
+      });
+      break;
+    case SceneAction.NEXT_ITEM:
+    case SceneAction.PREVIOUS_ITEM:
+      if (!releasing) ctx.stepItem(action === SceneAction.NEXT_ITEM ? 1 : -1);
+      break;
+  }
+};
+
+/**
+ * Gestures bound to an action (for instruction hints)
+ * @param bindings - Binding map
+ * @param action - Action to look up
+ * @returns Labels of the single-hand gestures that perform the action
+ */
+export const describeGesturesFor = (bindings: BindingMap, action: SceneAction): string[] => {
+  const singleHand = [Gesture.OPEN, Gesture.FIST, Gesture.PINCH, Gesture.POINT, Gesture.NEUTRAL];
+  return singleHand
+    .filter(g => bindings.gestures[g]?.action === action)
+    .map(g => GESTURE_LABELS[g]);
+};
+
+type BindingsMigration = (map: BindingMap) => BindingMap;
+
+// Upgrades of saved maps, keyed by the version they upgrade from
+const MIGRATIONS: Record<number, BindingsMigration> = {
+  // 1 → 2: pointing aims at an item instead of pulling a gift (only if the old default was kept),
+  // and gestures added since (the swipes) get their default bindings
+  1: (map) => {
+    const gestures = { ...DEFAULT_BINDINGS.gestures, ...map.gestures };
+    const point = gestures[Gesture.POINT];
+    if (point?.action === SceneAction.PULL_GIFT && point.mode === 'toggle') {
+      gestures[Gesture.POINT] = DEFAULT_BINDINGS.gestures[Gesture.POINT];
+    }
+    return { ...map, gestures };
+  },
+};
+
+const isValidBinding = (value: unknown): value is ActionBinding => {
+  const b = value as ActionBinding;
+  return !!b && typeof b === 'object'
+    && SCENE_ACTIONS.includes(b.action)
+    && BINDING_MODES.includes(b.mode);
+};
+
+/**
+ * Parse and validate a binding map
+ * Maps saved by older versions are upgraded first.
+ * @param data - Parsed JSON
+ * @returns Binding map (missing buttons and gamepad bindings fall back to defaults)
+ * @throws Error describing the first invalid entry
+ */
+export const parseBindings = (data: unknown): BindingMap => {
+  let map = data as BindingMap;
+  if (!map || typeof map !== 'object') throw new Error('Bindings must be an object');
+  let version = map.version;
+  if (!Number.isInteger(version) || version < 1 || version > BINDINGS_FORMAT_VERSION) {
+    throw new Error(`Unsupported bindings version: ${map.version}`);
+  }
+  while (version < BINDINGS_FORMAT_VERSION) {
+    map = MIGRATIONS[version](map);
+    version++;
+  }
+
+  const gestures: BindingMap['gestures'] = {};
+  for (const [gesture, binding] of Object.entries(map.gestures ?? {})) {
+    if (!Object.values(Gesture).includes(gesture as Gesture)) throw new Error(`Unknown gesture: ${gesture}`);
+    if (!isValidBinding(binding)) throw new Error(`Invalid binding for gesture ${gesture}`);
+    gestures[gesture as Gesture] = binding;
+  }
+
+  const buttons = { ...DEFAULT_BINDINGS.buttons };
+  for (const [button, binding] of Object.entries(map.buttons ?? {})) {
+    if (!CONTROL_BUTTONS.includes(button as ControlButton)) throw new Error(`Unknown button: ${button}`);
+    if (!isValidBinding(binding)) throw new Error(`Invalid binding for button ${button}`);
+    buttons[button as ControlButton] = binding;
+  }
+
+  const keys: BindingMap['keys'] = {};
+  for (const [key, binding] of Object.entries(map.keys ?? {})) {
+    if (!isValidBinding(binding)) throw new Error(`Invalid binding for key ${key}`);
+    keys[key.toLowerCase()] = binding;
+  }
+
+  // Maps saved before gamepad support have no gamepad section
+  let gamepad = { ...DEFAULT_BINDINGS.gamepad };
+  if (map.gamepad) {
+    gamepad = {};
+    for (const [button, binding] of Object.entries(map.gamepad)) {
+      if (!/^\d+$/.test(button)) throw new Error(`Invalid gamepad button: ${button}`);
+      if (!isValidBinding(binding)) throw new Error(`Invalid binding for gamepad button ${button}`);
+      gamepad[button] = binding;
+    }
+  }
+
+  return { version: BINDINGS_FORMAT_VERSION, gestures, buttons, keys, gamepad };
+};
+
+/**
+ * Load persisted bindings
+ * @returns Saved bindings, or the defaults if none are saved or they are invalid
+ */
+export const loadBindings = (): BindingMap => {
+  try {
+    const saved = localStorage.getItem(BINDINGS_STORAGE_KEY);
+    if (saved) return parseBindings(JSON.parse(saved));
+  } catch (error) {
+    console.error('❌ Failed to load bindings from localStorage:', error);
+  }
+  return DEFAULT_BINDINGS;
+};
+
+/**
+ * Persist bindings
+ * @param bindings - Binding map to save
+ */
+export const saveBindings = (bindings: BindingMap): void => {
+  try {
+    localStorage.setItem(BINDINGS_STORAGE_KEY, JSON.stringify(bindings));
+  } catch (error) {
+    console.error('❌ Failed to save bindings to localStorage:', error);
+  }
+};
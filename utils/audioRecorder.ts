@@ -0,0 +1,93 @@
+/**
+ * Voice message recording
+ * Records a short clip from the microphone with MediaRecorder, for audio gifts.
+ */
+
+/**
+ * Finished recording
+ */
+export interface AudioRecording {
+  blob: Blob;
+  /** Length in seconds */
+  duration: number;
+}
+
+export interface AudioRecorder {
+  /**
+   * Ask for the microphone and start recording
+   * @throws Error if recording is unsupported or the microphone is denied
+   */
+  start: () => Promise<void>;
+  /** Finish recording; the clip is passed to onRecorded */
+  stop: () => void;
+  /** Stop without keeping the clip */
+  cancel: () => void;
+  isRecording: () => boolean;
+}
+
+// Low bitrate keeps voice clips small (about 4 KB per second)
+const AUDIO_BITS_PER_SECOND = 32000;
+
+/**
+ * Check whether this browser can record audio
+ */
+export const canRecordAudio = (): boolean => {
+  return typeof MediaRecorder !== 'undefined' && !!navigator.mediaDevices?.getUserMedia;
+};
+
+/**
+ * Create a recorder for one voice message at a time
+ * @param maxSeconds - Recording stops by itself after this long
+ * @param onRecorded - Receives each finished clip
+ * @returns Recorder instance
+ */
+export const createAudioRecorder = (
+  maxSeconds: number,
+  onRecorded: (recording: AudioRecording) => void
+): AudioRecorder => {
+  let recorder: MediaRecorder | null = null;
+  let limitTimer: ReturnType<typeof setTimeout> | null = null;
+  let discard = false;
+
+  const finish = () => {
+    if (limitTimer) clearTimeout(limitTimer);
+    limitTimer = null;
+    if (recorder && recorder.state !== 'inactive') recorder.stop();
+  };
+
+  return {
+    start: async () => {
+      if (recorder) return;
+      if (!canRecordAudio()) throw new Error('Recording audio is not supported in this browser');
+
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      const chunks: Blob[] = [];
+      const current = new MediaRecorder(stream, { audioBitsPerSecond: AUDIO_BITS_PER_SECOND });
+      const startedAt = performance.now();
+      discard = false;
+
+      current.ondataavailable = (event) => {
+        if (event.data.size > 0) chunks.push(event.data);
+      };
+      current.onstop = () => {
+        stream.getTracks().forEach(track => track.stop());
+        recorder = null;
+        if (discard || chunks.length === 0) return;
+        const duration = Math.min(maxSeconds, (performance.now() - startedAt) / 1000);
+        const blob = new Blob(chunks, { type: current.mimeType || 'audio/webm' });
+        console.log(`🎙️ Recorded ${duration.toFixed(1)}s voice message (${(blob.size / 1024).toFixed(0)}KB)`);
+        onRecorded({ blob, duration });
+      };
+
+      recorder = current;
+      current.start();
+      limitTimer = setTimeout(finish, maxSeconds * 1000);
+    },
+    stop: finish,
+    cancel: () => {
+      discard = true;
+      finish();
+    },
+    isRecording: () => recorder !== null,
+  };
+};
@@ -1,27 +1,30 @@
 import * as THREE from 'three';
+import { Random } from './random';
 
 /**
  * Generate a random number within a range
+ * @param random - Random source
  * @param min - Minimum value (inclusive)
  * @param max - Maximum value (inclusive)
  * @returns Random number between min and max
  */
-export const randomRange = (min: number, max: number): number => {
-  return Math.random() * (max - min) + min;
+export const randomRange = (random: Random, min: number, max: number): number => {
+  return random() * (max - min) + min;
 };
 
 /**
  * Generate a random point inside a sphere using uniform distribution
  * Uses cube root for uniform volumetric distribution
+ * @param random - Random source
  * @param radius - Radius of the sphere
  * @returns Random Vector3 position inside the sphere
  */
-export const getSpherePosition = (radius: number): THREE.Vector3 => {
-  const u = Math.random();
-  const v = Math.random();
+export const getSpherePosition = (random: Random, radius: number): THREE.Vector3 => {
+  const u = random();
+  const v = random();
   const theta = 2 * Math.PI * u;
   const phi = Math.acos(2 * v - 1);
-  const r = Math.cbrt(Math.random()) * radius;
+  const r = Math.cbrt(random()) * radius;
   
   const x = r * Math.sin(phi) * Math.cos(theta);
   const y = r * Math.sin(phi) * Math.sin(theta);
@@ -33,6 +36,7 @@ export const getSpherePosition = (radius: number): THREE.Vector3 => {
 /**
  * Generate a random point on or inside a cone (Christmas tree shape)
  * Uses power distribution for more uniform visual appearance
+ * @param random - Random source
  * @param height - Height of the cone
  * @param baseRadius - Radius at the base of the cone
  * @param yOffset - Vertical offset to apply to final position (default: 0)
@@ -40,6 +44,7 @@ export const getSpherePosition = (radius: number): THREE.Vector3 => {
  * @returns Random Vector3 position on/in the cone
  */
 export const getConePosition = (
+  random: Random,
   height: number, 
   baseRadius: number, 
   yOffset: number = 0,
@@ -47,7 +52,7 @@ export const getConePosition = (
 ): THREE.Vector3 => {
   // Correctly sample height based on volume/area to ensure uniform density.
   // A cone is much wider at the bottom. If we pick Y linearly, the tip looks too dense.
-  const u = Math.random();
+  const u = random();
   let y: number;
 
   if (surfaceOnly) {
@@ -65,14 +70,117 @@ export const getConePosition = (
   const rAtY = (1 - y / height) * baseRadius;
   
   // Random angle
-  const theta = Math.random() * Math.PI * 2;
+  const theta = random() * Math.PI * 2;
   
   // Random distance from center (if surfaceOnly is true, push to edge)
-  const r = surfaceOnly ? rAtY * randomRange(0.9, 1.0) : Math.sqrt(Math.random()) * rAtY;
+  const r = surfaceOnly ? rAtY * randomRange(random, 0.9, 1.0) : Math.sqrt(random()) * rAtY;
   
   const x = r * Math.cos(theta);
   const z = r * Math.sin(theta);
   
   // Adjust y to center the tree vertically (y calculated above is 0..height from base)
   return new THREE.Vector3(x, y - height / 2 + yOffset, z);
-};
\ No newline at end of file
+};
+
+/**
+ * Points sampled from rendered text
+ */
+export interface TextShape {
+  /** Points filling the glyphs */
+  fill: THREE.Vector3[];
+  /** Points on the glyph outlines, ordered left to right */
+  edge: THREE.Vector3[];
+  /** Width of the laid-out text in world units */
+  width: number;
+  /** Height of the laid-out text in world units */
+  height: number;
+}
+
+const TEXT_FONT = '600 96px "Playfair Display", serif';
+const TEXT_LINE_HEIGHT = 110; // px
+const TEXT_PADDING = 8; // px around the text so outlines are not clipped
+const TEXT_SAMPLE_STEP = 3; // px between sampled pixels
+export const TEXT_MAX_LINE_CHARS = 12;
+
+/**
+ * Break text into lines of at most maxChars characters (long words are split)
+ * @param text - Text to wrap
+ * @param maxChars - Maximum characters per line
+ * @returns Wrapped lines
+ */
+export const wrapText = (text: string, maxChars: number): string[] => {
+  const lines: string[] = [];
+  let line = '';
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    for (let i = 0; i < word.length; i += maxChars) {
+      const chunk = word.slice(i, i + maxChars);
+      if (line && line.length + 1 + chunk.length <= maxChars) {
+        line += ' ' + chunk;
+      } else {
+        if (line) lines.push(line);
+        line = chunk;
+      }
+    }
+  }
+  if (line) lines.push(line);
+  return lines;
+};
+
+/**
+ * Render text to an offscreen canvas and sample the pixels covered by its glyphs
+ * Long text is wrapped, then scaled down to fit the given box.
+ * @param text - Text to sample
+ * @param maxWidth - Maximum width in world units
+ * @param maxHeight - Maximum height in world units
+ * @param yOffset - Vertical offset to apply to all points (default: 0)
+ * @returns Sampled points centered on the origin (empty if the text has no visible glyphs)
+ */
+export const sampleTextShape = (
+  text: string,
+  maxWidth: number,
+  maxHeight: number,
+  yOffset: number = 0
+): TextShape => {
+  const lines = wrapText(text, TEXT_MAX_LINE_CHARS);
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx || lines.length === 0) return { fill: [], edge: [], width: 0, height: 0 };
+
+  ctx.font = TEXT_FONT;
+  const textWidth = Math.max(...lines.map(line => ctx.measureText(line).width));
+  const w = Math.ceil(textWidth) + TEXT_PADDING * 2;
+  const h = lines.length * TEXT_LINE_HEIGHT + TEXT_PADDING * 2;
+  canvas.width = w;
+  canvas.height = h;
+
+  // Resizing the canvas resets the context state
+  ctx.font = TEXT_FONT;
+  ctx.fillStyle = '#FFFFFF';
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  lines.forEach((line, i) => ctx.fillText(line, w / 2, TEXT_PADDING + TEXT_LINE_HEIGHT * (i + 0.5)));
+
+  const { data } = ctx.getImageData(0, 0, w, h);
+  const isInk = (x: number, y: number) => x >= 0 && y >= 0 && x < w && y < h && data[(y * w + x) * 4 + 3] > 128;
+
+  // Fit the whole block into the box, keeping its aspect ratio
+  const scale = Math.min(maxWidth / w, maxHeight / h);
+  const toWorld = (x: number, y: number) => new THREE.Vector3((x - w / 2) * scale, (h / 2 - y) * scale + yOffset, 0);
+
+  const fill: THREE.Vector3[] = [];
+  const edge: THREE.Vector3[] = [];
+  for (let y = 0; y < h; y += TEXT_SAMPLE_STEP) {
+    for (let x = 0; x < w; x += TEXT_SAMPLE_STEP) {
+      if (!isInk(x, y)) continue;
+      const point = toWorld(x, y);
+      fill.push(point);
+      const s = TEXT_SAMPLE_STEP;
+      if (!isInk(x - s, y) || !isInk(x + s, y) || !isInk(x, y - s) || !isInk(x, y + s)) {
+        edge.push(point.clone());
+      }
+    }
+  }
+  edge.sort((a, b) => a.x - b.x);
+
+  return { fill, edge, width: w * scale, height: h * scale };
+};
@@ -0,0 +1,119 @@
+/**
+ * App database
+ * One IndexedDB database holds the binary user data (frame photos, gift media),
+ * which is too large for localStorage.
+ */
+
+const DATABASE_NAME = 'celestial-tree';
+const DATABASE_VERSION = 2;
+
+// Object stores (all keyed by `id`)
+export const DATABASE_STORES = {
+  PHOTOS: 'photos',
+  GIFT_MEDIA: 'gift-media', // Added in version 2
+};
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Open the database, creating or upgrading its stores as needed
+ * @returns Shared connection
+ */
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!databasePromise) {
+    databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available in this browser'));
+        return;
+      }
+      const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+      request.onupgradeneeded = () => {
+        const database = request.result;
+        Object.values(DATABASE_STORES).forEach(name => {
+          if (!database.objectStoreNames.contains(name)) database.createObjectStore(name, { keyPath: 'id' });
+        });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error ?? new Error('Failed to open the database'));
+      request.onblocked = () => console.warn('⚠️ Database upgrade is waiting for another tab to close');
+    });
+    // Allow a later call to retry after a failure
+    databasePromise.catch(() => { databasePromise = null; });
+  }
+  return databasePromise;
+};
+
+const completeTransaction = (transaction: IDBTransaction): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error ?? new Error('Database transaction failed'));
+    transaction.onabort = () => reject(transaction.error ?? new Error('Database transaction aborted'));
+  });
+};
+
+/**
+ * Read every record of a store
+ * @param storeName - One of DATABASE_STORES
+ * @returns Records in key order
+ */
+export const readAllRecords = async <T>(storeName: string): Promise<T[]> => {
+  const database = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const request = database.transaction(storeName, 'readonly').objectStore(storeName).getAll();
+    request.onsuccess = () => resolve(request.result as T[]);
+    request.onerror = () => reject(request.error ?? new Error(`Failed to read ${storeName}`));
+  });
+};
+
+/**
+ * Replace the contents of a store in one transaction
+ * @param storeName - One of DATABASE_STORES
+ * @param records - Records to keep (anything else is deleted)
+ * @throws DOMException (QuotaExceededError) when the browser refuses the space
+ */
+export const replaceAllRecords = async <T extends { id: string }>(storeName: string, records: T[]): Promise<void> => {
+  const database = await openDatabase();
+  const transaction = database.transaction(storeName, 'readwrite');
+  const store = transaction.objectStore(storeName);
+  store.clear();
+  records.forEach(record => store.put(record));
+  await completeTransaction(transaction);
+};
+
+/**
+ * Bring a store in line with a list of records in one transaction
+ * Records already stored as they are are not rewritten, and records missing from the list are deleted.
+ * @param storeName - One of DATABASE_STORES
+ * @param records - Records to keep
+ * @param isUnchanged - Whether a stored record already matches its new version
+ * @throws DOMException (QuotaExceededError) when the browser refuses the space
+ */
+export const syncRecords = async <T extends { id: string }>(
+  storeName: string,
+  records: T[],
+  isUnchanged: (stored: T, record: T) => boolean
+): Promise<void> => {
+  const database = await openDatabase();
+  const transaction = database.transaction(storeName, 'readwrite');
+  const store = transaction.objectStore(storeName);
+  const request = store.getAll();
+  request.onsuccess = () => {
+    const stored = new Map((request.result as T[]).map(record => [record.id, record]));
+    const kept = new Set(records.map(record => record.id));
+    stored.forEach((_, id) => { if (!kept.has(id)) store.delete(id); });
+    records.forEach(record => {
+      const previous = stored.get(record.id);
+      if (!previous || !isUnchanged(previous, record)) store.put(record);
+    });
+  };
+  await completeTransaction(transaction);
+};
+
+/**
+ * Ask the browser not to evict the user's data when disk space runs low (best effort)
+ */
+export const requestPersistentStorage = (): void => {
+  navigator.storage?.persist?.()
+    ?.then(granted => { if (!granted) console.log('💾 Browser may clear stored media under storage pressure'); })
+    ?.catch(() => { /* Not supported; data is still stored */ });
+};
@@ -0,0 +1,567 @@
+/**
+ * Formation registry
+ * Every shape the particle systems can assemble into. Each formation places the needles,
+ * baubles, lights, gifts, frames and star topper, so switching formations morphs the whole scene.
+ */
+
+import * as THREE from 'three';
+import { AppState, SceneAction, ImageShapeSettings } from '../types';
+import { TREE_HEIGHT, TREE_BASE_RADIUS, TREE_Y_OFFSET } from '../constants';
+import { getConePosition, getSpherePosition, randomRange, sampleTextShape, TextShape } from './coordinates';
+import { sampleImageShape, ImageShape } from './imageShape';
+import { Random, createRandom } from './random';
+
+/**
+ * Which part of the scene a position is generated for
+ * - needle: fills the body of the shape
+ * - bauble / gift / frame: sits on the outer surface
+ * - light: follows a path through the shape in index order
+ */
+export type FormationRole = 'needle' | 'bauble' | 'light' | 'gift' | 'frame';
+
+/**
+ * User data that formations can be built from
+ */
+export interface FormationContext {
+  /** Words spelled out by the text formation */
+  text: string;
+  /** Decoded image the image formation is built from, null if none is uploaded */
+  image: { pixels: ImageData; settings: ImageShapeSettings } | null;
+}
+
+/**
+ * A registered shape
+ */
+export interface Formation {
+  /** Name shown in the UI */
+  label: string;
+  /** Action that switches to this formation */
+  action: SceneAction;
+  /** Photo frames face away from the vertical axis ('outward') or towards the viewer ('front') */
+  facing: 'outward' | 'front';
+  /** Camera slowly orbits the shape while nothing is pulled */
+  autoRotate: boolean;
+  /** Resting place and size of the star topper */
+  topper: { position: THREE.Vector3; scale: number };
+  /**
+   * Target position of a single object
+   * @param role - Kind of object
+   * @param index - Index of the object among its kind
+   * @param count - Number of objects of this kind
+   * @param random - Random source (seeded, so the same seed gives the same shape)
+   * @param context - User data the shape is built from
+   * @returns World position in this formation
+   */
+  getPosition: (role: FormationRole, index: number, count: number, random: Random, context: FormationContext) => THREE.Vector3;
+  /**
+   * Colour of a single object, for shapes that bring their own colours
+   * @returns Colour, or null to keep the object's palette colour
+   */
+  getColor?: (role: FormationRole, index: number, count: number, context: FormationContext) => THREE.Color | null;
+}
+
+// Tree spiral lights
+const SPIRAL_HEIGHT = 13;
+const SPIRAL_BASE_RADIUS = 5.0;
+const SPIRAL_TURNS = 8;
+const SPIRAL_START_OFFSET = (1/3) / SPIRAL_TURNS;
+
+// Spiral galaxy (a disk tilted back slightly, facing the viewer)
+const GALAXY_ARMS = 3;
+const GALAXY_RADIUS = 7;
+const GALAXY_CORE_RADIUS = 1.4;
+const GALAXY_CORE_SHARE = 0.2; // Fraction of the needles packed into the core
+const GALAXY_TWIST = 0.6; // Radians of arm rotation per unit of radius
+const GALAXY_TILT = -0.4;
+
+// Heart (classic parametric heart curve, scaled to world units)
+const HEART_SCALE = 0.36;
+const HEART_CENTER_Y = 2.5; // Curve units; moves the middle of the heart to the origin
+const HEART_DEPTH = 2.4;
+
+// Giant five-pointed star
+const STAR_OUTER_RADIUS = 6.5;
+const STAR_INNER_RADIUS = 2.6;
+const STAR_POINTS = 5;
+const STAR_DEPTH = 1.4;
+
+// Snowman (bottom to top)
+const SNOWMAN_BALLS = [
+  { y: -4.6, radius: 2.8 },
+  { y: -0.6, radius: 2.0 },
+  { y: 2.3, radius: 1.4 },
+];
+const SNOWMAN_LIGHT_TURNS = 12;
+
+// Wreath (torus facing the viewer)
+const WREATH_RADIUS = 4.8;
+const WREATH_THICKNESS = 1.1;
+const WREATH_LIGHT_WINDS = 16;
+
+// Text and image (points sampled from the user's words or picture)
+export const DEFAULT_FORMATION_TEXT = 'MERRY XMAS';
+export const FORMATION_TEXT_MAX_LENGTH = 60;
+const SAMPLED_MAX_WIDTH = 16;
+const SAMPLED_MAX_HEIGHT = 8;
+const SAMPLED_DEPTH = 0.6;
+const SAMPLED_ITEM_GAP = 1.2; // Distance of the gift row below / frame row above the shape
+
+const FORMATION_Y_OFFSET = -0.5; // Centers the flat shapes on the camera target
+const X_AXIS = new THREE.Vector3(1, 0, 0);
+
+/**
+ * Random unit vector (uniform on the sphere)
+ */
+const randomDirection = (random: Random): THREE.Vector3 => {
+  const theta = random() * Math.PI * 2;
+  const z = random() * 2 - 1;
+  const r = Math.sqrt(1 - z * z);
+  return new THREE.Vector3(r * Math.cos(theta), r * Math.sin(theta), z);
+};
+
+const isOnSurface = (role: FormationRole) => role !== 'needle' && role !== 'light';
+
+// --- TREE ---
+
+const getTreeBaublePosition = (random: Random): THREE.Vector3 => {
+  const u = random();
+  const y = TREE_HEIGHT * (1 - Math.sqrt(u)); // Uniform vertical density
+
+  // Constrain to 85%-100% of the surface radius (stay inside or on the surface)
+  const rSurface = (1 - y / TREE_HEIGHT) * TREE_BASE_RADIUS;
+  const r = rSurface * (0.85 + random() * 0.15);
+  const theta = random() * Math.PI * 2;
+
+  // Local jitter
+  const jitter = 0.15;
+  return new THREE.Vector3(
+    r * Math.cos(theta) + (random() - 0.5) * jitter,
+    y - TREE_HEIGHT / 2 + TREE_Y_OFFSET + (random() - 0.5) * jitter,
+    r * Math.sin(theta) + (random() - 0.5) * jitter
+  );
+};
+
+const getTreeLightPosition = (index: number, count: number): THREE.Vector3 => {
+  // Map the index to [startOffset, 1] so the spiral starts slightly 'up' the tree
+  const t = SPIRAL_START_OFFSET + (index / count) * (1 - SPIRAL_START_OFFSET);
+  const y = t * SPIRAL_HEIGHT - SPIRAL_HEIGHT / 2 + TREE_Y_OFFSET;
+  const angle = t * Math.PI * 2 * SPIRAL_TURNS;
+  const r = (1 - t) * SPIRAL_BASE_RADIUS; // Radius shrinks as we go up
+  return new THREE.Vector3(r * Math.cos(angle), y, r * Math.sin(angle));
+};
+
+const getTreePosition = (role: FormationRole, index: number, count: number, random: Random): THREE.Vector3 => {
+  switch (role) {
+    case 'needle': return getConePosition(random, TREE_HEIGHT, TREE_BASE_RADIUS, TREE_Y_OFFSET);
+    case 'bauble': return getTreeBaublePosition(random);
+    case 'light': return getTreeLightPosition(index, count);
+    case 'gift': return getConePosition(random, 10, 4, -1, true);
+    case 'frame': return getConePosition(random, 8, 3.5, 0, true);
+  }
+};
+
+// --- SCATTERED ---
+
+const SCATTER_RADII: Record<FormationRole, number> = {
+  needle: 15,
+  bauble: 14,
+  light: 16,
+  gift: 12,
+  frame: 12,
+};
+
+const getScatterPosition = (role: FormationRole, _index: number, _count: number, random: Random): THREE.Vector3 => getSpherePosition(random, SCATTER_RADII[role]);
+
+// --- GALAXY ---
+
+const getGalaxyPosition = (role: FormationRole, index: number, count: number, random: Random): THREE.Vector3 => {
+  let point: THREE.Vector3;
+
+  if (role === 'needle' && random() < GALAXY_CORE_SHARE) {
+    // Bright, slightly flattened core
+    point = getSpherePosition(random, GALAXY_CORE_RADIUS);
+    point.z *= 0.6;
+  } else {
+    let arm: number;
+    let r: number;
+    let spread: number;
+    if (role === 'light') {
+      // Lights trace the arms from the core outwards
+      const t = (index / count) * GALAXY_ARMS;
+      arm = Math.floor(t);
+      r = GALAXY_CORE_RADIUS + (t - arm) * (GALAXY_RADIUS - GALAXY_CORE_RADIUS);
+      spread = 0;
+    } else {
+      arm = index % GALAXY_ARMS;
+      r = GALAXY_CORE_RADIUS + Math.pow(random(), 0.8) * (GALAXY_RADIUS - GALAXY_CORE_RADIUS);
+      // Arms fan out towards the rim
+      spread = (random() - 0.5) * (isOnSurface(role) ? 0.25 : 0.7) * (1 + r / GALAXY_RADIUS);
+    }
+    const angle = (arm / GALAXY_ARMS) * Math.PI * 2 + r * GALAXY_TWIST + spread;
+    const thickness = (1 - r / GALAXY_RADIUS) * 0.8 + 0.15;
+    point = new THREE.Vector3(
+      r * Math.cos(angle),
+      r * Math.sin(angle),
+      role === 'light' ? 0 : (random() - 0.5) * thickness
+    );
+  }
+
+  point.applyAxisAngle(X_AXIS, GALAXY_TILT);
+  point.y += FORMATION_Y_OFFSET;
+  return point;
+};
+
+// --- HEART ---
+
+const getHeartCurvePoint = (t: number): THREE.Vector2 => new THREE.Vector2(
+  16 * Math.pow(Math.sin(t), 3),
+  13 * Math.cos(t) - 5 * Math.cos(2 * t) - 2 * Math.cos(3 * t) - Math.cos(4 * t) + HEART_CENTER_Y
+).multiplyScalar(HEART_SCALE);
+
+const getHeartPosition = (role: FormationRole, index: number, count: number, random: Random): THREE.Vector3 => {
+  if (role === 'light') {
+    // Lights outline the heart
+    const outline = getHeartCurvePoint((index / count) * Math.PI * 2);
+    return new THREE.Vector3(outline.x, outline.y + FORMATION_Y_OFFSET, 0.3);
+  }
+
+  const outline = getHeartCurvePoint(random() * Math.PI * 2);
+  // The heart is star-shaped around its middle, so scaling the outline point fills it
+  const fill = isOnSurface(role) ? randomRange(random, 0.9, 1.0) : Math.sqrt(random());
+  // Puffy in the middle, thin at the rim
+  const depth = isOnSurface(role) ? 0.4 : HEART_DEPTH * Math.sqrt(1 - fill * fill);
+  return new THREE.Vector3(
+    outline.x * fill,
+    outline.y * fill + FORMATION_Y_OFFSET,
+    (random() - 0.5) * depth
+  );
+};
+
+// --- STAR ---
+
+const getStarVertex = (k: number): THREE.Vector2 => {
+  // Start from the top point, alternating outer and inner corners
+  const angle = (k * Math.PI) / STAR_POINTS + Math.PI / 2;
+  const r = k % 2 === 0 ? STAR_OUTER_RADIUS : STAR_INNER_RADIUS;
+  return new THREE.Vector2(Math.cos(angle) * r, Math.sin(angle) * r);
+};
+
+const getStarPosition = (role: FormationRole, index: number, count: number, random: Random): THREE.Vector3 => {
+  const corners = STAR_POINTS * 2;
+  let point: THREE.Vector2;
+  let depth: number;
+
+  if (role === 'needle') {
+    // Uniform point in one of the triangles (center, corner k, corner k + 1)
+    const k = Math.floor(random() * corners);
+    let a = random();
+    let b = random();
+    if (a + b > 1) {
+      a = 1 - a;
+      b = 1 - b;
+    }
+    point = getStarVertex(k).multiplyScalar(a).add(getStarVertex(k + 1).multiplyScalar(b));
+    depth = STAR_DEPTH * (1 - point.length() / STAR_OUTER_RADIUS);
+  } else {
+    // Lights trace the outline in order; everything else sits at a random spot on it
+    const t = role === 'light' ? (index / count) * corners : random() * corners;
+    const k = Math.floor(t);
+    point = getStarVertex(k).lerp(getStarVertex(k + 1), t - k);
+    depth = role === 'light' ? 0 : 0.3;
+  }
+
+  return new THREE.Vector3(point.x, point.y + FORMATION_Y_OFFSET, (random() - 0.5) * depth);
+};
+
+// --- SNOWMAN ---
+
+const getSnowmanPosition = (role: FormationRole, index: number, count: number, random: Random): THREE.Vector3 => {
+  if (role === 'light') {
+    // One helix winding up over all three balls
+    const totalHeight = SNOWMAN_BALLS.reduce((sum, ball) => sum + ball.radius * 2, 0);
+    let h = (index / count) * totalHeight;
+    const ball = SNOWMAN_BALLS.find(b => {
+      if (h <= b.radius * 2) return true;
+      h -= b.radius * 2;
+      return false;
+    }) ?? SNOWMAN_BALLS[SNOWMAN_BALLS.length - 1];
+    const dy = h - ball.radius;
+    const r = Math.sqrt(Math.max(0, ball.radius * ball.radius - dy * dy)) * 1.05;
+    const angle = (index / count) * Math.PI * 2 * SNOWMAN_LIGHT_TURNS;
+    return new THREE.Vector3(r * Math.cos(angle), ball.y + dy, r * Math.sin(angle));
+  }
+
+  // Larger balls get proportionally more objects (by surface area)
+  const totalArea = SNOWMAN_BALLS.reduce((sum, ball) => sum + ball.radius * ball.radius, 0);
+  let pick = random() * totalArea;
+  const ball = SNOWMAN_BALLS.find(b => (pick -= b.radius * b.radius) <= 0) ?? SNOWMAN_BALLS[0];
+
+  // Needles form a thick shell so the balls read as solid snow
+  const depth = isOnSurface(role) ? randomRange(random, 0.95, 1.0) : randomRange(random, 0.75, 1.0);
+  return randomDirection(random).multiplyScalar(ball.radius * depth).add(new THREE.Vector3(0, ball.y, 0));
+};
+
+// --- WREATH ---
+
+const getWreathPosition = (role: FormationRole, index: number, count: number, random: Random): THREE.Vector3 => {
+  let u: number;
+  let v: number;
+  let rho: number;
+
+  if (role === 'light') {
+    // Garland winding around the ring
+    const t = index / count;
+    u = t * Math.PI * 2;
+    v = t * Math.PI * 2 * WREATH_LIGHT_WINDS;
+    rho = WREATH_THICKNESS * 1.05;
+  } else {
+    u = random() * Math.PI * 2;
+    // Gifts and frames stay on the half facing the viewer
+    v = role === 'gift' || role === 'frame' ? random() * Math.PI : random() * Math.PI * 2;
+    rho = isOnSurface(role) ? WREATH_THICKNESS * randomRange(random, 0.9, 1.0) : WREATH_THICKNESS * Math.sqrt(random());
+  }
+
+  const ring = WREATH_RADIUS + rho * Math.cos(v);
+  return new THREE.Vector3(
+    ring * Math.cos(u),
+    ring * Math.sin(u) + FORMATION_Y_OFFSET,
+    rho * Math.sin(v)
+  );
+};
+
+// --- TEXT & IMAGE ---
+
+/**
+ * Gifts line up below and frames above a flat sampled shape, so they don't hide it
+ */
+const getItemRowPosition = (role: 'gift' | 'frame', index: number, count: number, random: Random, width: number, height: number): THREE.Vector3 => {
+  const x = ((index + 0.5) / count - 0.5) * width;
+  const y = role === 'gift'
+    ? FORMATION_Y_OFFSET - height / 2 - SAMPLED_ITEM_GAP
+    : FORMATION_Y_OFFSET + height / 2 + SAMPLED_ITEM_GAP;
+  return new THREE.Vector3(x, y + (random() - 0.5) * 0.3, (random() - 0.5) * SAMPLED_DEPTH);
+};
+
+// Sampling renders the text to a canvas, so keep the last result (all systems ask for the same text)
+let cachedTextShape: { text: string; shape: TextShape } | null = null;
+
+const getTextShape = (text: string): TextShape => {
+  if (cachedTextShape?.text !== text) {
+    cachedTextShape = { text, shape: sampleTextShape(text, SAMPLED_MAX_WIDTH, SAMPLED_MAX_HEIGHT, FORMATION_Y_OFFSET) };
+  }
+  return cachedTextShape.shape;
+};
+
+const getTextPosition = (role: FormationRole, index: number, count: number, random: Random, context: FormationContext): THREE.Vector3 => {
+  const shape = getTextShape(context.text.trim() || DEFAULT_FORMATION_TEXT);
+  // Nothing visible to spell (e.g. only unsupported glyphs): fall back to the tree
+  if (shape.fill.length === 0) return getTreePosition(role, index, count, random);
+
+  const jitter = () => (random() - 0.5) * 0.1;
+  switch (role) {
+    case 'needle': {
+      const point = shape.fill[Math.floor(random() * shape.fill.length)];
+      return new THREE.Vector3(point.x + jitter(), point.y + jitter(), (random() - 0.5) * SAMPLED_DEPTH);
+    }
+    case 'light':
+      // Lights trace the outlines from left to right
+      return shape.edge[Math.floor((index / count) * shape.edge.length)].clone();
+    case 'bauble': {
+      const point = shape.edge[Math.floor(random() * shape.edge.length)];
+      return new THREE.Vector3(point.x, point.y, (random() - 0.5) * SAMPLED_DEPTH);
+    }
+    case 'gift':
+    case 'frame':
+      return getItemRowPosition(role, index, count, random, shape.width, shape.height);
+  }
+};
+
+// Same for the image: sampled once per decoded image and settings (with a fixed point order)
+const IMAGE_SHUFFLE_SEED = 0x1A6E;
+let cachedImageShape: { source: FormationContext['image']; shape: ImageShape } | null = null;
+
+const getImageShape = (context: FormationContext): ImageShape | null => {
+  if (!context.image) return null;
+  if (cachedImageShape?.source !== context.image) {
+    const { pixels, settings } = context.image;
+    cachedImageShape = {
+      source: context.image,
+      shape: sampleImageShape(pixels, settings, createRandom(IMAGE_SHUFFLE_SEED), SAMPLED_MAX_WIDTH, SAMPLED_MAX_HEIGHT, FORMATION_Y_OFFSET),
+    };
+  }
+  return cachedImageShape.shape;
+};
+
+const getImagePosition = (role: FormationRole, index: number, count: number, random: Random, context: FormationContext): THREE.Vector3 => {
+  const shape = getImageShape(context);
+  // No image yet, or the threshold removed everything: fall back to the tree
+  if (!shape || shape.fill.length === 0) return getTreePosition(role, index, count, random);
+
+  const jitter = () => (random() - 0.5) * 0.1;
+  switch (role) {
+    case 'needle': {
+      // Fill order is random, so consecutive needles spread over the whole silhouette
+      const { position } = shape.fill[index % shape.fill.length];
+      return new THREE.Vector3(position.x + jitter(), position.y + jitter(), (random() - 0.5) * SAMPLED_DEPTH);
+    }
+    case 'light':
+      return shape.edge[Math.floor((index / count) * shape.edge.length)].position.clone();
+    case 'bauble': {
+      const { position } = shape.edge[Math.floor(random() * shape.edge.length)];
+      return new THREE.Vector3(position.x, position.y, (random() - 0.5) * SAMPLED_DEPTH);
+    }
+    case 'gift':
+    case 'frame':
+      return getItemRowPosition(role, index, count, random, shape.width, shape.height);
+  }
+};
+
+const getImageColor = (role: FormationRole, index: number, _count: number, context: FormationContext): THREE.Color | null => {
+  if (role !== 'needle') return null;
+  const shape = getImageShape(context);
+  if (!shape || shape.fill.length === 0) return null;
+  return shape.fill[index % shape.fill.length].color;
+};
+
+/** All formations, keyed by app state */
+export const FORMATIONS: Record<AppState, Formation> = {
+  [AppState.TREE_SHAPE]: {
+    label: 'Tree',
+    action: SceneAction.FORM_TREE,
+    facing: 'outward',
+    autoRotate: true,
+    topper: { position: new THREE.Vector3(0, 5.5, 0), scale: 1 },
+    getPosition: getTreePosition,
+  },
+  [AppState.SCATTERED]: {
+    label: 'Scatter',
+    action: SceneAction.SCATTER,
+    facing: 'outward',
+    autoRotate: false,
+    topper: { position: new THREE.Vector3(0, 10, 0), scale: 1 },
+    getPosition: getScatterPosition,
+  },
+  [AppState.GALAXY]: {
+    label: 'Galaxy',
+    action: SceneAction.FORM_GALAXY,
+    facing: 'front',
+    autoRotate: false,
+    topper: { position: new THREE.Vector3(0, FORMATION_Y_OFFSET, 0.4), scale: 1.4 },
+    getPosition: getGalaxyPosition,
+  },
+  [AppState.HEART]: {
+    label: 'Heart',
+    action: SceneAction.FORM_HEART,
+    facing: 'front',
+    autoRotate: false,
+    topper: { position: new THREE.Vector3(0, 3.0, 0.5), scale: 1 },
+    getPosition: getHeartPosition,
+  },
+  [AppState.STAR]: {
+    label: 'Star',
+    action: SceneAction.FORM_STAR,
+    facing: 'front',
+    autoRotate: false,
+    topper: { position: new THREE.Vector3(0, FORMATION_Y_OFFSET, 1.0), scale: 1.6 },
+    getPosition: getStarPosition,
+  },
+  [AppState.SNOWMAN]: {
+    label: 'Snowman',
+    action: SceneAction.FORM_SNOWMAN,
+    facing: 'outward',
+    autoRotate: true,
+    topper: { position: new THREE.Vector3(0, 4.4, 0), scale: 1 },
+    getPosition: getSnowmanPosition,
+  },
+  [AppState.WREATH]: {
+    label: 'Wreath',
+    action: SceneAction.FORM_WREATH,
+    facing: 'front',
+    autoRotate: false,
+    topper: { position: new THREE.Vector3(0, WREATH_RADIUS + WREATH_THICKNESS + 0.6 + FORMATION_Y_OFFSET, 0), scale: 1 },
+    getPosition: getWreathPosition,
+  },
+  [AppState.TEXT]: {
+    label: 'Text',
+    action: SceneAction.FORM_TEXT,
+    facing: 'front',
+    autoRotate: false,
+    topper: { position: new THREE.Vector3(0, SAMPLED_MAX_HEIGHT / 2 + SAMPLED_ITEM_GAP + 1, 0), scale: 1 },
+    getPosition: getTextPosition,
+  },
+  [AppState.IMAGE]: {
+    label: 'Image',
+    action: SceneAction.FORM_IMAGE,
+    facing: 'front',
+    autoRotate: false,
+    topper: { position: new THREE.Vector3(0, SAMPLED_MAX_HEIGHT / 2 + SAMPLED_ITEM_GAP + 1, 0), scale: 1 },
+    getPosition: getImagePosition,
+    getColor: getImageColor,
+  },
+};
+
+/** Formations in the order the UI lists them and NEXT_FORMATION cycles through them */
+export const FORMATION_CYCLE: AppState[] = [
+  AppState.TREE_SHAPE,
+  AppState.GALAXY,
+  AppState.HEART,
+  AppState.STAR,
+  AppState.SNOWMAN,
+  AppState.WREATH,
+  AppState.TEXT,
+  AppState.IMAGE,
+];
+
+/**
+ * Target position of an object in a formation
+ * @param state - Formation to place the object in
+ * @param role - Kind of object
+ * @param index - Index of the object among its kind
+ * @param count - Number of objects of this kind
+ * @param random - Random source (seeded, so the same seed gives the same shape)
+ * @param context - User data the shape is built from (only needed by the text and image formations)
+ * @returns World position
+ */
+export const getFormationPosition = (
+  state: AppState,
+  role: FormationRole,
+  index: number,
+  count: number,
+  random: Random,
+  context: FormationContext = { text: '', image: null }
+): THREE.Vector3 => FORMATIONS[state].getPosition(role, index, count, random, context);
+
+/**
+ * Colour an object takes on in a formation
+ * @param state - Formation
+ * @param role - Kind of object
+ * @param index - Index of the object among its kind
+ * @param count - Number of objects of this kind
+ * @param context - User data the shape is built from
+ * @returns Colour from the shape, or null to keep the object's palette colour
+ */
+export const getFormationColor = (
+  state: AppState,
+  role: FormationRole,
+  index: number,
+  count: number,
+  context: FormationContext
+): THREE.Color | null => FORMATIONS[state].getColor?.(role, index, count, context) ?? null;
+
+/**
+ * Formation that follows the given one in the cycle (scattered continues with the tree)
+ * @param state - Current formation
+ * @returns Next formation
+ */
+export const getNextFormation = (state: AppState): AppState => {
+  const index = FORMATION_CYCLE.indexOf(state);
+  return FORMATION_CYCLE[(index + 1) % FORMATION_CYCLE.length];
+};
+
+/**
+ * Formation a scene action switches to
+ * @param action - Scene action
+ * @returns Formation, or undefined if the action does not form a shape
+ */
+export const getFormationForAction = (action: SceneAction): AppState | undefined =>
+  (Object.keys(FORMATIONS) as AppState[]).find(state => FORMATIONS[state].action === action);
@@ -0,0 +1,168 @@
+/**
+ * Per-user gesture calibration
+ * Derives classification thresholds from landmark samples of the user holding each pose,
+ * and persists them in localStorage.
+ */
+
+import * as THREE from 'three';
+import { Gesture, HandLandmark } from '../types';
+import {
+  GestureThresholds,
+  DEFAULT_GESTURE_THRESHOLDS,
+  landmarkDistance,
+  WRIST,
+  THUMB_TIP,
+  INDEX_MCP,
+  INDEX_TIP,
+  MIDDLE_MCP,
+  MIDDLE_TIP,
+  RING_MCP,
+  RING_TIP,
+  PINKY_MCP,
+  PINKY_TIP,
+} from './gestureRecognizer';
+
+export const GESTURE_THRESHOLDS_STORAGE_KEY = 'celestial-tree-gesture-thresholds';
+
+/** Poses the user is asked to hold, in order */
+export const CALIBRATION_POSES = [Gesture.OPEN, Gesture.FIST, Gesture.PINCH] as const;
+export type CalibrationPose = typeof CALIBRATION_POSES[number];
+
+/** Frames captured per pose */
+export const CALIBRATION_SAMPLES_PER_POSE = 45;
+
+// Sanity limits so a botched calibration cannot make a gesture impossible
+const PINCH_DISTANCE_RANGE: [number, number] = [0.02, 0.15];
+const THUMB_DISTANCE_RANGE: [number, number] = [0.05, 0.35];
+const EXTENSION_MULTIPLIER_RANGE: [number, number] = [1.02, 1.6];
+
+/**
+ * Raw landmark measurements of one frame
+ */
+export interface CalibrationSample {
+  /** Thumb tip to pinky base distance */
+  thumbDistance: number;
+  /** Thumb tip to index tip distance */
+  pinchDistance: number;
+  /** Tip-to-wrist / MCP-to-wrist ratio of the index, middle, ring and pinky fingers */
+  extensionRatios: number[];
+}
+
+export type CalibrationSamples = Record<CalibrationPose, CalibrationSample[]>;
+
+/**
+ * Measure the landmark distances used by the recognizer
+ * @param landmarks - 21 landmarks of one hand
+ * @returns Sample for calibration
+ */
+export const measureCalibrationSample = (landmarks: HandLandmark[]): CalibrationSample => {
+  const dist = (i1: number, i2: number) => landmarkDistance(landmarks, i1, i2);
+  const ratio = (tipIdx: number, mcpIdx: number) => dist(tipIdx, WRIST) / Math.max(dist(mcpIdx, WRIST), 1e-6);
+  return {
+    thumbDistance: dist(THUMB_TIP, PINKY_MCP),
+    pinchDistance: dist(THUMB_TIP, INDEX_TIP),
+    extensionRatios: [
+      ratio(INDEX_TIP, INDEX_MCP),
+      ratio(MIDDLE_TIP, MIDDLE_MCP),
+      ratio(RING_TIP, RING_MCP),
+      ratio(PINKY_TIP, PINKY_MCP),
+    ],
+  };
+};
+
+/**
+ * Value below which the given fraction of the (sorted) values fall
+ */
+const percentile = (values: number[], fraction: number): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const index = THREE.MathUtils.clamp(Math.round((sorted.length - 1) * fraction), 0, sorted.length - 1);
+  return sorted[index];
+};
+
+/**
+ * Threshold halfway between the upper end of the "low" pose and the lower end of the "high" pose
+ * Percentiles discard the few frames where tracking glitched.
+ */
+const separate = (low: number[], high: number[], fallback: number, range: [number, number]): number => {
+  if (low.length === 0 || high.length === 0) return fallback;
+  const lowEdge = percentile(low, 0.9);
+  const highEdge = percentile(high, 0.1);
+  // Poses overlap - the user probably did not hold them; keep the default
+  if (lowEdge >= highEdge) return fallback;
+  return THREE.MathUtils.clamp((lowEdge + highEdge) / 2, range[0], range[1]);
+};
+
+/**
+ * Derive personalized thresholds from captured pose samples
+ * @param samples - Samples captured for each calibration pose
+ * @returns Thresholds (defaults are kept for any measurement that could not be separated)
+ */
+export const deriveThresholds = (samples: CalibrationSamples): GestureThresholds => {
+  const open = samples[Gesture.OPEN];
+  const fist = samples[Gesture.FIST];
+  const pinch = samples[Gesture.PINCH];
+
+  return {
+    pinchDistance: separate(
+      pinch.map(s => s.pinchDistance),
+      open.map(s => s.pinchDistance),
+      DEFAULT_GESTURE_THRESHOLDS.pinchDistance,
+      PINCH_DISTANCE_RANGE
+    ),
+    thumbExtendedDistance: separate(
+      fist.map(s => s.thumbDistance),
+      open.map(s => s.thumbDistance),
+      DEFAULT_GESTURE_THRESHOLDS.thumbExtendedDistance,
+      THUMB_DISTANCE_RANGE
+    ),
+    fingerExtensionMultiplier: separate(
+      fist.flatMap(s => s.extensionRatios),
+      open.flatMap(s => s.extensionRatios),
+      DEFAULT_GESTURE_THRESHOLDS.fingerExtensionMultiplier,
+      EXTENSION_MULTIPLIER_RANGE
+    ),
+  };
+};
+
+/**
+ * Load persisted thresholds
+ * @returns Saved thresholds, or the defaults if none are saved
+ */
+export const loadGestureThresholds = (): GestureThresholds => {
+  try {
+    const saved = localStorage.getItem(GESTURE_THRESHOLDS_STORAGE_KEY);
+    if (saved) {
+      const parsed = JSON.parse(saved);
+      return { ...DEFAULT_GESTURE_THRESHOLDS, ...parsed };
+    }
+  } catch (error) {
+    console.error('❌ Failed to load gesture thresholds from localStorage:', error);
+  }
+  return DEFAULT_GESTURE_THRESHOLDS;
+};
+
+/**
+ * Persist thresholds
+ * @param thresholds - Thresholds to save
+ */
+export const saveGestureThresholds = (thresholds: GestureThresholds): void => {
+  try {
+    localStorage.setItem(GESTURE_THRESHOLDS_STORAGE_KEY, JSON.stringify(thresholds));
+  } catch (error) {
+    console.error('❌ Failed to save gesture thresholds to localStorage:', error);
+  }
+};
+
+/**
+ * Remove persisted thresholds so the defaults apply again
+ */
+export const clearGestureThresholds = (): void => {
+  localStorage.removeItem(GESTURE_THRESHOLDS_STORAGE_KEY);
+};
+
+/**
+ * Whether the user has saved calibrated thresholds
+ */
+export const hasCalibratedThresholds = (): boolean => {
+  return localStorage.getItem(GESTURE_THRESHOLDS_STORAGE_KEY) !== null;
+};
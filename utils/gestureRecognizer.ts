@@ -0,0 +1,370 @@
+/**
+ * Hand gesture recognition utilities
+ * Pure functions operating on MediaPipe hand landmarks, free of React and camera state
+ * so they can be run against recorded landmark fixtures.
+ */
+
+import { Gesture, HandLandmark, HandFrame, HandSide, HandednessCategory } from '../types';
+
+// ============================================================================
+// LANDMARK INDICES (MediaPipe hand model)
+// ============================================================================
+export const WRIST = 0;
+export const THUMB_TIP = 4;
+export const INDEX_MCP = 5;
+export const INDEX_TIP = 8;
+export const MIDDLE_MCP = 9;
+export const MIDDLE_TIP = 12;
+export const RING_MCP = 13;
+export const RING_TIP = 16;
+export const PINKY_MCP = 17;
+export const PINKY_TIP = 20;
+
+/**
+ * Distance thresholds used to classify a hand pose
+ */
+export interface GestureThresholds {
+  /** Max thumb-to-index tip distance counted as a pinch */
+  pinchDistance: number;
+  /** Min thumb-tip-to-pinky-base distance counted as an extended thumb */
+  thumbExtendedDistance: number;
+  /** Tip must be this many times further from the wrist than its MCP joint to count as extended */
+  fingerExtensionMultiplier: number;
+}
+
+// Optimized for better gesture discrimination
+export const DEFAULT_GESTURE_THRESHOLDS: GestureThresholds = {
+  pinchDistance: 0.06, // Reduced from 0.10 - more strict pinch detection to avoid false positives
+  thumbExtendedDistance: 0.18,
+  fingerExtensionMultiplier: 1.15,
+};
+
+/** Consecutive identical frames required before a gesture is considered stable */
+
+/**
+ * Per-feature measurements extracted from a single hand
+ */
+export interface GestureFeatures {
+  thumbExtended: boolean;
+  indexExtended: boolean;
+  middleExtended: boolean;
+  ringExtended: boolean;
+  pinkyExtended: boolean;
+  /** Number of extended fingers (0-5, thumb included) */
+  extendedCount: number;
+  /** Thumb-to-index tip distance in normalized image units */
+  pinchDistance: number;
+}
+
+/**
+ * Classification result for a single frame
+ */
+export interface GestureResult {
+  gesture: Gesture;
+  /** Null when no hand was detected */
+  features: GestureFeatures | null;
+}
+
+/**
+ * 2D distance between two landmarks (depth is ignored as it is too noisy)
+ */
+export const landmarkDistance = (landmarks: HandLandmark[], i1: number, i2: number): number => {
+  const p1 = landmarks[i1];
+  const p2 = landmarks[i2];
+  return Math.sqrt(Math.pow(p1.x - p2.x, 2) + Math.pow(p1.y - p2.y, 2));
+};
+
+/**
+ * Measure finger extension and pinch distance for a hand
+ * @param landmarks - 21 landmarks of one hand
+ * @param thresholds - Classification thresholds
+ * @returns Extracted features
+ */
+export const extractGestureFeatures = (
+  landmarks: HandLandmark[],
+  thresholds: GestureThresholds = DEFAULT_GESTURE_THRESHOLDS
+): GestureFeatures => {
+  const dist = (i1: number, i2: number) => landmarkDistance(landmarks, i1, i2);
+  const isExtended = (tipIdx: number, mcpIdx: number) => {
+    return dist(tipIdx, WRIST) > dist(mcpIdx, WRIST) * thresholds.fingerExtensionMultiplier;
+  };
+
+  const thumbExtended = dist(THUMB_TIP, PINKY_MCP) > thresholds.thumbExtendedDistance;
+  const indexExtended = isExtended(INDEX_TIP, INDEX_MCP);
+  const middleExtended = isExtended(MIDDLE_TIP, MIDDLE_MCP);
+  const ringExtended = isExtended(RING_TIP, RING_MCP);
+  const pinkyExtended = isExtended(PINKY_TIP, PINKY_MCP);
+  const extendedCount = [thumbExtended, indexExtended, middleExtended, ringExtended, pinkyExtended].filter(Boolean).length;
+
+  return {
+    thumbExtended,
+    indexExtended,
+    middleExtended,
+    ringExtended,
+    pinkyExtended,
+    extendedCount,
+    pinchDistance: dist(THUMB_TIP, INDEX_TIP),
+  };
+};
+
+/**
+ * Palm centre, averaged over the wrist and the finger bases
+ * @param landmarks - 21 landmarks of one hand
+ * @returns Normalized image position of the palm
+ */
+export const getPalmCenter = (landmarks: HandLandmark[]): { x: number; y: number } => {
+  const palm = [WRIST, INDEX_MCP, MIDDLE_MCP, RING_MCP, PINKY_MCP];
+  const sum = palm.reduce((acc, i) => ({ x: acc.x + landmarks[i].x, y: acc.y + landmarks[i].y }), { x: 0, y: 0 });
+  return { x: sum.x / palm.length, y: sum.y / palm.length };
+};
+
+/**
+ * Apparent hand size (wrist to middle finger base), a proxy for distance to the camera
+ * @param landmarks - 21 landmarks of one hand
+ * @returns Normalized length, roughly 0.08 (far) to 0.3 (near)
+ */
+export const getHandSize = (landmarks: HandLandmark[]): number => {
+  return landmarkDistance(landmarks, WRIST, MIDDLE_MCP);
+};
+
+/**
+ * Map extracted features to a gesture
+ * Priority order matters! Fist is checked BEFORE pinch to prevent misclassification
+ */
+export const classifyFeatures = (
+  features: GestureFeatures,
+  thresholds: GestureThresholds = DEFAULT_GESTURE_THRESHOLDS
+): Gesture => {
+  const { extendedCount, indexExtended, middleExtended, ringExtended, pinkyExtended } = features;
+
+  // IMPORTANT: Pinch requires thumb+index close AND other fingers relatively extended
+  // This prevents mistaking a fist for a pinch
+  const isPinching = features.pinchDistance < thresholds.pinchDistance && extendedCount >= 2;
+
+  if (extendedCount <= 1) return Gesture.FIST; // Fist has highest priority
+  if (isPinching) return Gesture.PINCH; // Pinch only if NOT a fist
+  if (indexExtended && !middleExtended && !ringExtended && !pinkyExtended) return Gesture.POINT;
+  if (extendedCount >= 4) return Gesture.OPEN;
+  return Gesture.NEUTRAL;
+};
+
+/**
+ * Classify a single hand
+ * @param landmarks - 21 landmarks of one hand, or undefined when no hand is visible
+ * @param thresholds - Classification thresholds
+ * @returns Recognized gesture with the features it was derived from
+ */
+export const recognizeGesture = (
+  landmarks: HandLandmark[] | undefined,
+  thresholds: GestureThresholds = DEFAULT_GESTURE_THRESHOLDS
+): GestureResult => {
+  if (!landmarks || landmarks.length === 0) {
+    return { gesture: Gesture.NONE, features: null };
+  }
+  const features = extractGestureFeatures(landmarks, thresholds);
+  return { gesture: classifyFeatures(features, thresholds), features };
+};
+
+/**
+ * Classification of one hand within a multi-hand frame
+ */
+export interface HandGestureResult extends GestureResult {
+  /** User's hand side, or null if MediaPipe did not report handedness */
+  side: HandSide | null;
+  /** Handedness score (0..1), or 1 if MediaPipe did not report one */
+  confidence: number;
+}
+
+/**
+ * Combined classification of every hand in a frame
+ */
+export interface HandsResult {
+  /** Gesture to act on (a two-hand gesture, or the primary hand's gesture) */
+  gesture: Gesture;
+  hands: HandGestureResult[];
+  /** Tracking confidence of the hands involved (0..1, 1 when no hand is visible) */
+  confidence: number;
+}
+
+/**
+ * Resolve which of the user's hands a MediaPipe handedness label refers to
+ * MediaPipe assumes a mirrored (selfie) image, but we feed it the raw webcam
+ * stream, so its "Left" is the user's right hand and vice versa.
+ * @param categories - Handedness categories of one hand (best first)
+ * @returns User's hand side, or null if unknown
+ */
+export const getHandSide = (categories: HandednessCategory[] | undefined): HandSide | null => {
+  const label = categories?.[0]?.categoryName;
+  if (label === 'Left') return 'right';
+  if (label === 'Right') return 'left';
+  return null;
+};
+
+/**
+ * Per-hand tracking confidence
+ * MediaPipe only returns hands that passed its hand presence threshold and does not expose
+ * the presence score itself, so the handedness score is the per-hand confidence we get.
+ * A low value usually means a blurred, partially visible or ambiguous hand.
+ * @param categories - Handedness categories of one hand (best first)
+ * @returns Score in 0..1 (1 if unknown)
+ */
+export const getHandConfidence = (categories: HandednessCategory[] | undefined): number => {
+  return categories?.[0]?.score ?? 1;
+};
+
+/**
+ * Classify every hand in a frame and combine them into a single gesture
+ * With one hand visible this is identical to recognizeGesture on that hand.
+ * @param frame - Hand tracking output for one video frame
+ * @param thresholds - Classification thresholds
+ * @returns Combined gesture plus per-hand results
+ */
+export const recognizeHands = (
+  frame: HandFrame,
+  thresholds: GestureThresholds = DEFAULT_GESTURE_THRESHOLDS
+): HandsResult => {
+  const hands: HandGestureResult[] = (frame.landmarks ?? []).slice(0, 2).map((landmarks, i) => ({
+    ...recognizeGesture(landmarks, thresholds),
+    side: getHandSide(frame.handedness?.[i]),
+    confidence: getHandConfidence(frame.handedness?.[i]),
+  }));
+
+  if (hands.length === 0) return { gesture: Gesture.NONE, hands, confidence: 1 };
+  if (hands.length === 1) return { gesture: hands[0].gesture, hands, confidence: hands[0].confidence };
+
+  const [a, b] = hands;
+  const both = Math.min(a.confidence, b.confidence);
+  if (a.gesture === Gesture.FIST && b.gesture === Gesture.FIST) return { gesture: Gesture.BOTH_FISTS, hands, confidence: both };
+  if (a.gesture === Gesture.OPEN && b.gesture === Gesture.OPEN) return { gesture: Gesture.BOTH_OPEN, hands, confidence: both };
+
+  // Exactly one hand pointing: the side decides what gets selected
+  const pointing = hands.filter(h => h.gesture === Gesture.POINT);
+  if (pointing.length === 1 && pointing[0].side) {
+    return { gesture: pointing[0].side === 'left' ? Gesture.LEFT_POINT : Gesture.RIGHT_POINT, hands, confidence: both };
+  }
+
+  // No two-hand combination: fall back to the primary (first detected) hand
+  return { gesture: a.gesture, hands, confidence: a.confidence };
+};
+
+/**
+ * Distance between the palm centres of the first two hands
+ * @param frame - Hand tracking output for one video frame
+ * @returns Normalized distance, or null if fewer than two hands are visible
+ */
+export const getPalmSpread = (frame: HandFrame): number | null => {
+  if (!frame.landmarks || frame.landmarks.length < 2) return null;
+  const [a, b] = frame.landmarks;
+  // Middle finger MCP is a stable approximation of the palm centre
+  return Math.sqrt(
+    Math.pow(a[MIDDLE_MCP].x - b[MIDDLE_MCP].x, 2) +
+    Math.pow(a[MIDDLE_MCP].y - b[MIDDLE_MCP].y, 2)
+  );
+};
+
+/**
+ * Tuning of the gesture stabilizer
+ */
+export interface StabilizerOptions {
+  /** Accumulated evidence a new gesture needs before it becomes stable */
+  enterThreshold: number;
+  /** The stable gesture is only replaced once its own evidence decays below this */
+  exitThreshold: number;
+  /** Fraction of the evidence kept from one frame to the next (0..1) */
+  decay: number;
+  /** Frames whose hand confidence is below this are ignored */
+  minConfidence: number;
+  /** How long a lost hand keeps the current gesture before NONE is committed (ms) */
+  handLostGraceMs: number;
+}
+
+export const DEFAULT_STABILIZER_OPTIONS: StabilizerOptions = {
+  // With full confidence a gesture reaches 2.5 on its 4th consecutive frame (like the old 4-frame window)
+  enterThreshold: 2.5,
+  exitThreshold: 1.2,
+  decay: 0.75,
+  minConfidence: 0.5,
+  handLostGraceMs: 1500,
+};
+
+/**
+ * Stability filter for noisy per-frame classifications
+ * Every frame adds its confidence to the observed gesture's evidence while all evidence decays.
+ * Separate enter/exit thresholds give hysteresis, so a single noisy frame neither resets
+ * progress nor drops the stable gesture. A lost hand (NONE) is held off for a grace period
+ * instead of acting like an immediate gesture change.
+ */
+export interface GestureStabilizer {
+  /**
+   * Feed the gesture of the latest frame
+   * @param gesture - Classified gesture
+   * @param confidence - Tracking confidence of the frame (0..1)
+   * @param timestamp - Frame time in milliseconds
+   * @returns The gesture if it just became stable, otherwise null
+   */
+  push: (gesture: Gesture, confidence?: number, timestamp?: number) => Gesture | null;
+  /** Gesture that is currently considered stable (null before the first commit) */
+  getStableGesture: () => Gesture | null;
+  /** How far the latest gesture is towards becoming stable (0..1, 1 once stable) */
+  getProgress: () => number;
+  /** Clear evidence and stable gesture */
+  reset: () => void;
+}
+
+/**
+ * Create a stability filter for noisy per-frame classifications
+ * @param options - Thresholds and timings (default: DEFAULT_STABILIZER_OPTIONS)
+ * @returns Stabilizer instance
+ */
+export const createGestureStabilizer = (
+  options: StabilizerOptions = DEFAULT_STABILIZER_OPTIONS
+): GestureStabilizer => {
+  let evidence = new Map<Gesture, number>();
+  let stableGesture: Gesture | null = null;
+  let latestGesture: Gesture | null = null;
+  let handLostSince: number | null = null;
+
+  const commit = (gesture: Gesture) => {
+    stableGesture = gesture;
+    return gesture;
+  };
+
+  return {
+    push: (gesture, confidence = 1, timestamp = performance.now()) => {
+      latestGesture = gesture;
+
+      // Hand lost: keep the current gesture through short tracking dropouts
+      if (gesture === Gesture.NONE) {
+        if (handLostSince === null) handLostSince = timestamp;
+        if (timestamp - handLostSince < options.handLostGraceMs || stableGesture === Gesture.NONE) return null;
+        evidence = new Map();
+        return commit(Gesture.NONE);
+      }
+      handLostSince = null;
+
+      if (confidence < options.minConfidence) return null;
+
+      evidence.forEach((value, g) => evidence.set(g, value * options.decay));
+      const score = (evidence.get(gesture) ?? 0) + confidence;
+      evidence.set(gesture, score);
+
+      if (gesture === stableGesture || score < options.enterThreshold) return null;
+      const stableScore = stableGesture ? evidence.get(stableGesture) ?? 0 : 0;
+      if (stableScore >= options.exitThreshold) return null;
+      return commit(gesture);
+    },
+    getStableGesture: () => stableGesture,
+    getProgress: () => {
+      if (latestGesture === null) return 0;
+      if (latestGesture === stableGesture) return 1;
+      if (latestGesture === Gesture.NONE) return 0;
+      return Math.min(1, (evidence.get(latestGesture) ?? 0) / options.enterThreshold);
+    },
+    reset: () => {
+      evidence = new Map();
+      stableGesture = null;
+      latestGesture = null;
+      handLostSince = null;
+    },
+  };
+};
@@ -0,0 +1,166 @@
+/**
+ * Gift contents
+ * Limits and helpers shared by the gift editor, the 3D gift boxes and the storage formats.
+ */
+
+import { GiftContent, GiftKind, GiftMedia } from '../types';
+
+export const GIFT_TITLE_MAX_LENGTH = 40;
+export const GIFT_BODY_MAX_LENGTH = 200;
+export const GIFT_LABEL_MAX_LENGTH = 40; // Photo captions, link and audio labels
+export const GIFT_URL_MAX_LENGTH = 200; // Keeps the QR code small enough to scan from the screen
+export const GIFT_AUDIO_MAX_SECONDS = 30;
+export const GIFT_PHOTO_UPLOAD_SIZE = 640; // Longest edge of compressed gift photos (px)
+
+export const GIFT_KINDS: GiftKind[] = ['card', 'photo', 'link', 'audio'];
+
+export const GIFT_KIND_LABELS: Record<GiftKind, string> = {
+  card: 'Card',
+  photo: 'Photo',
+  link: 'Link',
+  audio: 'Voice',
+};
+
+/**
+ * Create a written card
+ * @param body - Message
+ * @param title - Heading (empty for a plain message)
+ * @returns Card gift
+ */
+export const createCardGift = (body: string, title: string = ''): GiftContent => ({ kind: 'card', title, body });
+
+/**
+ * Read a web address typed by the user
+ * A missing scheme is taken as https; anything other than http(s) is rejected.
+ * @param text - Address as typed
+ * @returns Absolute URL, or null if it is not a usable web address
+ */
+export const normalizeGiftUrl = (text: string): string | null => {
+  const trimmed = text.trim();
+  if (!trimmed) return null;
+  const withScheme = /^[a-z][a-z\d+.-]*:/i.test(trimmed) ? trimmed : `https://${trimmed}`;
+  try {
+    const url = new URL(withScheme);
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') return null;
+    if (!url.hostname.includes('.') && url.hostname !== 'localhost') return null;
+    const normalized = url.toString();
+    return normalized.length <= GIFT_URL_MAX_LENGTH ? normalized : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Media file attached to a gift
+ * @param gift - Gift contents
+ * @returns Photo or recording, or null for text-only gifts
+ */
+export const getGiftMedia = (gift: GiftContent): GiftMedia | null => {
+  return gift.kind === 'photo' || gift.kind === 'audio' ? gift.media : null;
+};
+
+/**
+ * Convert how a gift holds its media (e.g. files to database keys or data URLs)
+ * @param gift - Gift contents
+ * @param convert - Maps the media of photo and audio gifts
+ * @returns Same gift holding the converted media
+ */
+export const convertGiftMedia = async <A, B>(
+  gift: GiftContent<A>,
+  convert: (media: A) => B | Promise<B>
+): Promise<GiftContent<B>> => {
+  if (gift.kind === 'photo' || gift.kind === 'audio') return { ...gift, media: await convert(gift.media) };
+  return gift;
+};
+
+const expectText = (value: unknown, path: string, maxLength: number): string => {
+  if (value === undefined) return '';
+  if (typeof value !== 'string' || value.length > maxLength) {
+    throw new Error(`"${path}" must be text of at most ${maxLength} characters`);
+  }
+  return value;
+};
+
+/**
+ * Validate a saved, imported or shared gift
+ * @param value - Parsed JSON (a plain string is a message, as saved by older versions)
+ * @param path - Location used in error messages
+ * @param parseMedia - Reads the media reference of photo and audio gifts
+ * @returns Gift contents
+ * @throws Error naming the first problem found
+ */
+export const parseGift = <M>(
+  value: unknown,
+  path: string,
+  parseMedia: (media: unknown, path: string) => M
+): GiftContent<M> => {
+  if (typeof value === 'string') return { kind: 'card', title: '', body: value.slice(0, GIFT_BODY_MAX_LENGTH) };
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new Error(`"${path}" must be a message or a gift object`);
+  }
+  const gift = value as Record<string, unknown>;
+
+  switch (gift.kind) {
+    case 'card':
+      return {
+        kind: 'card',
+        title: expectText(gift.title, `${path}.title`, GIFT_TITLE_MAX_LENGTH),
+        body: expectText(gift.body, `${path}.body`, GIFT_BODY_MAX_LENGTH),
+      };
+    case 'photo':
+      return {
+        kind: 'photo',
+        media: parseMedia(gift.media, `${path}.media`),
+        caption: expectText(gift.caption, `${path}.caption`, GIFT_LABEL_MAX_LENGTH),
+      };
+    case 'link': {
+      const url = typeof gift.url === 'string' ? normalizeGiftUrl(gift.url) : null;
+      if (!url) throw new Error(`"${path}.url" must be an http(s) address of at most ${GIFT_URL_MAX_LENGTH} characters`);
+      if (gift.qr !== undefined && typeof gift.qr !== 'boolean') throw new Error(`"${path}.qr" must be true or false`);
+      return {
+        kind: 'link',
+        url,
+        label: expectText(gift.label, `${path}.label`, GIFT_LABEL_MAX_LENGTH),
+        qr: typeof gift.qr === 'boolean' ? gift.qr : true,
+      };
+    }
+    case 'audio': {
+      const { duration } = gift;
+      if (typeof duration !== 'number' || !Number.isFinite(duration) || duration < 0 || duration > GIFT_AUDIO_MAX_SECONDS) {
+        throw new Error(`"${path}.duration" must be a number of seconds from 0 to ${GIFT_AUDIO_MAX_SECONDS}`);
+      }
+      return {
+        kind: 'audio',
+        media: parseMedia(gift.media, `${path}.media`),
+        label: expectText(gift.label, `${path}.label`, GIFT_LABEL_MAX_LENGTH),
+        duration,
+      };
+    }
+    default:
+      throw new Error(`"${path}.kind" must be one of ${GIFT_KINDS.join(', ')}`);
+  }
+};
+
+/**
+ * One-line summary of a gift (logs, fallbacks, accessible labels)
+ * @param gift - Gift contents
+ * @returns Title, message, caption or label
+ */
+export const describeGift = (gift: GiftContent): string => {
+  switch (gift.kind) {
+    case 'card': return gift.title || gift.body;
+    case 'photo': return gift.caption || 'A photo';
+    case 'link': return gift.label || new URL(gift.url).hostname;
+    case 'audio': return gift.label || 'A voice message';
+  }
+};
+
+/**
+ * Format a recording length
+ * @param seconds - Duration
+ * @returns Duration such as "0:07"
+ */
+export const formatDuration = (seconds: number): string => {
+  const total = Math.max(0, Math.round(seconds));
+  return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, '0')}`;
+};
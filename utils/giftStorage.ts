@@ -0,0 +1,125 @@
+/**
+ * Gift storage
+ * The gift list stays in localStorage (its key predates IndexedDB); photos and voice
+ * messages attached to gifts are kept in IndexedDB and referenced by key.
+ */
+
+import { GiftContent, GiftMedia } from '../types';
+import { DATABASE_STORES, readAllRecords, syncRecords, requestPersistentStorage } from './database';
+import { convertGiftMedia, getGiftMedia, parseGift } from './giftContent';
+
+const GIFTS_KEY = 'celestial-tree-user-gifts';
+
+/**
+ * Row of the gift media store
+ */
+interface GiftMediaRecord {
+  id: string;
+  blob: Blob;
+}
+
+// --- MEDIA ---
+
+/**
+ * Wrap a photo or recording for a gift
+ * @param blob - File data
+ * @param id - Existing database key (a new one is generated if omitted)
+ * @returns Media with an object URL the scene can load
+ */
+export const createGiftMedia = (blob: Blob, id: string = createMediaId()): GiftMedia => ({
+  id,
+  blob,
+  url: URL.createObjectURL(blob),
+});
+
+/**
+ * Free the object URLs of media that is no longer used
+ * @param media - Media to release
+ */
+export const releaseGiftMedia = (media: GiftMedia[]): void => {
+  media.forEach(item => URL.revokeObjectURL(item.url));
+};
+
+/**
+ * Media attached to a list of gifts
+ * @param gifts - Gift list
+ * @returns Every photo and recording the gifts hold
+ */
+export const collectGiftMedia = (gifts: GiftContent[]): GiftMedia[] => {
+  return gifts.map(getGiftMedia).filter((media): media is GiftMedia => media !== null);
+};
+
+const createMediaId = (): string => {
+  if (typeof crypto !== 'undefined' && 'randomUUID' in crypto) return crypto.randomUUID();
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+};
+
+// --- LOAD / SAVE ---
+
+/**
+ * Read the saved gifts and their media
+ * Plain strings saved by older versions load as untitled cards; gifts whose media
+ * is missing are skipped.
+ * @returns Gifts in their saved order (empty = built-in wishes)
+ */
+export const loadStoredGifts = async (): Promise<GiftContent[]> => {
+  const saved = localStorage.getItem(GIFTS_KEY);
+  if (!saved) {
+    console.log('🎁 No saved gifts found');
+    return [];
+  }
+  const list: unknown = JSON.parse(saved);
+  if (!Array.isArray(list)) throw new Error('Saved gift list is not a list');
+
+  const gifts: GiftContent<string>[] = [];
+  list.forEach((value, index) => {
+    try {
+      gifts.push(parseGift(value, `gifts[${index}]`, (media, path) => {
+        if (typeof media !== 'string') throw new Error(`"${path}" must be a media key`);
+        return media;
+      }));
+    } catch (error) {
+      console.warn('⚠️ Skipping unreadable saved gift:', error);
+    }
+  });
+
+  const needsMedia = gifts.some(gift => gift.kind === 'photo' || gift.kind === 'audio');
+  const records = needsMedia ? await readAllRecords<GiftMediaRecord>(DATABASE_STORES.GIFT_MEDIA) : [];
+  const blobs = new Map(records.map(record => [record.id, record.blob]));
+
+  const loaded: GiftContent[] = [];
+  for (const gift of gifts) {
+    if (gift.kind === 'photo' || gift.kind === 'audio') {
+      const blob = blobs.get(gift.media);
+      if (!blob) {
+        console.warn(`⚠️ Skipping ${gift.kind} gift whose file is missing`);
+        continue;
+      }
+      loaded.push(await convertGiftMedia(gift, id => createGiftMedia(blob, id)));
+    } else {
+      loaded.push(gift);
+    }
+  }
+  console.log(`🎁 Loaded ${loaded.length} gift(s)`);
+  return loaded;
+};
+
+/**
+ * Save the gift list and its media, dropping media no gift uses any more
+ * @param gifts - Gifts in display order (empty = built-in wishes)
+ * @throws DOMException (QuotaExceededError) when the browser refuses the space
+ */
+export const saveStoredGifts = async (gifts: GiftContent[]): Promise<void> => {
+  // The list goes first, so text gifts are kept even if the media write fails
+  if (gifts.length > 0) {
+    const stored = await Promise.all(gifts.map(gift => convertGiftMedia(gift, item => item.id)));
+    localStorage.setItem(GIFTS_KEY, JSON.stringify(stored));
+  } else {
+    localStorage.removeItem(GIFTS_KEY);
+  }
+
+  const media = collectGiftMedia(gifts);
+  // A media id always names the same blob, so only new media has to be written
+  await syncRecords<GiftMediaRecord>(DATABASE_STORES.GIFT_MEDIA, media.map(({ id, blob }) => ({ id, blob })), () => true);
+  if (media.length > 0) requestPersistentStorage();
+};
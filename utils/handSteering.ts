@@ -0,0 +1,55 @@
+/**
+ * Analog camera steering from the palm position in the webcam frame
+ */
+
+import * as THREE from 'three';
+import { CameraSteer, HandLandmark } from '../types';
+import { getPalmCenter, getHandSize } from './gestureRecognizer';
+
+// Fraction of the axis range around the centre that is ignored
+export const STEER_DEAD_ZONE = 0.15;
+// Hand size range mapped onto the zoom range (normalized image units)
+export const STEER_HAND_SIZE_FAR = 0.08;
+export const STEER_HAND_SIZE_NEAR = 0.25;
+// Only the central part of the frame is used, so users need not reach to the edges
+const STEER_FRAME_MARGIN = 0.15;
+
+/**
+ * Remove a dead zone around zero and rescale the rest back to -1..1
+ * @param value - Axis value in -1..1
+ * @param deadZone - Half-width of the dead zone
+ * @returns Rescaled axis value
+ */
+export const applyDeadZone = (value: number, deadZone: number = STEER_DEAD_ZONE): number => {
+  const magnitude = Math.abs(value);
+  if (magnitude < deadZone) return 0;
+  return Math.sign(value) * Math.min(1, (magnitude - deadZone) / (1 - deadZone));
+};
+
+/**
+ * Map a normalized image coordinate (0..1) to an axis value (-1..1)
+ */
+const toAxis = (value: number): number => {
+  const usable = 1 - STEER_FRAME_MARGIN * 2;
+  return THREE.MathUtils.clamp(((value - STEER_FRAME_MARGIN) / usable) * 2 - 1, -1, 1);
+};
+
+/**
+ * Compute a camera steering target from one hand
+ * @param landmarks - 21 landmarks of one hand (raw, unmirrored webcam coordinates)
+ * @returns Steering target
+ */
+export const computeCameraSteer = (landmarks: HandLandmark[]): CameraSteer => {
+  const palm = getPalmCenter(landmarks);
+  const size = getHandSize(landmarks);
+  return {
+    // Webcam image is not mirrored, so flip x to match the user's point of view
+    x: applyDeadZone(-toAxis(palm.x)),
+    y: applyDeadZone(toAxis(palm.y)),
+    zoom: THREE.MathUtils.clamp(
+      (size - STEER_HAND_SIZE_FAR) / (STEER_HAND_SIZE_NEAR - STEER_HAND_SIZE_FAR),
+      0,
+      1
+    ),
+  };
+};
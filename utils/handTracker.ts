@@ -0,0 +1,173 @@
+/**
+ * Hand tracking backends
+ * Runs MediaPipe hand detection in a Web Worker when the browser supports it, so it does
+ * not compete with the R3F render loop, and falls back to the main thread otherwise.
+ */
+
+import { HandLandmarker } from '@mediapipe/tasks-vision';
+import { HandFrame } from '../types';
+import { createHandLandmarker } from './mediapipeAssets';
+import { HAND_LANDMARKER_OPTIONS, HandTrackerRequest, HandTrackerResponse, toHandFrame } from './handTrackerProtocol';
+
+/**
+ * Hand detection backend
+ */
+export interface HandTracker {
+  /** Where detection runs */
+  kind: 'worker' | 'main-thread';
+  /** Submit a video frame; the result is delivered to the onResult callback */
+  detect: (video: HTMLVideoElement, timestamp: number) => void;
+  /** True while a frame is in flight (new frames should be skipped) */
+  isBusy: () => boolean;
+  close: () => void;
+}
+
+/**
+ * Whether detection can be moved off the main thread
+ */
+export const supportsWorkerTracking = (): boolean => {
+  return typeof Worker !== 'undefined'
+    && typeof OffscreenCanvas !== 'undefined'
+    && typeof createImageBitmap === 'function';
+};
+
+/**
+ * Main-thread backend (original behavior)
+ */
+const createMainThreadTracker = async (
+  onResult: (frame: HandFrame, timestamp: number) => void
+): Promise<HandTracker> => {
+  const landmarker: HandLandmarker = await createHandLandmarker(HAND_LANDMARKER_OPTIONS);
+  return {
+    kind: 'main-thread',
+    detect: (video, timestamp) => {
+      onResult(toHandFrame(landmarker.detectForVideo(video, timestamp)), timestamp);
+    },
+    isBusy: () => false,
+    close: () => landmarker.close(),
+  };
+};
+
+/**
+ * Worker backend - frames are transferred as ImageBitmaps, one in flight at a time
+ * If the worker crashes after starting, detection moves to the main thread.
+ */
+const createWorkerTracker = (
+  onResult: (frame: HandFrame, timestamp: number) => void
+): Promise<HandTracker> => {
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('../workers/handLandmarker.worker.ts', import.meta.url), { type: 'module' });
+    let busy = false;
+    let ready = false;
+    let closed = false;
+    let crashed = false;
+    let fallback: HandTracker | null = null;
+
+    const tracker: HandTracker = {
+      kind: 'worker',
+      detect: (video, timestamp) => {
+        if (fallback) {
+          fallback.detect(video, timestamp);
+          return;
+        }
+        if (busy) return;
+        busy = true;
+        createImageBitmap(video)
+          .then((bitmap) => {
+            const request: HandTrackerRequest = { type: 'detect', bitmap, timestamp };
+            worker.postMessage(request, [bitmap]);
+          })
+          .catch((error) => {
+            busy = false;
+            console.warn('⚠️ Failed to capture video frame:', error);
+          });
+      },
+      isBusy: () => (fallback ? fallback.isBusy() : busy),
+      close: () => {
+        closed = true;
+        if (fallback) {
+          fallback.close();
+          return;
+        }
+        const request: HandTrackerRequest = { type: 'close' };
+        worker.postMessage(request);
+        worker.terminate();
+      },
+    };
+
+    const switchToMainThread = (reason: string) => {
+      console.error('❌ Hand tracking worker crashed, switching to main thread:', reason);
+      crashed = true;
+      worker.terminate();
+      // Frames are skipped until the main-thread backend has loaded
+      busy = true;
+      createMainThreadTracker(onResult)
+        .then((mainThread) => {
+          if (closed) {
+            mainThread.close();
+            return;
+          }
+          fallback = mainThread;
+          tracker.kind = 'main-thread';
+          console.log('🖥️ Hand tracking running on the main thread');
+        })
+        .catch((error) => {
+          console.error('❌ Hand tracking stopped, main-thread fallback failed:', error);
+        });
+    };
+
+    worker.onmessage = (e: MessageEvent<HandTrackerResponse>) => {
+      const message = e.data;
+      switch (message.type) {
+        case 'ready':
+          ready = true;
+          resolve(tracker);
+          break;
+        case 'result':
+          busy = false;
+          onResult(message.frame, message.timestamp);
+          break;
+        case 'error':
+          busy = false;
+          if (!ready) {
+            worker.terminate();
+            reject(new Error(message.message));
+          } else {
+            console.warn('⚠️ Hand tracking worker error:', message.message);
+          }
+          break;
+      }
+    };
+    worker.onerror = (e) => {
+      if (!ready) {
+        worker.terminate();
+        reject(new Error(e.message || 'Worker failed to start'));
+      } else if (!crashed && !closed) {
+        switchToMainThread(e.message || 'Unknown worker error');
+      }
+    };
+
+    const init: HandTrackerRequest = { type: 'init' };
+    worker.postMessage(init);
+  });
+};
+
+/**
+ * Create the best available hand tracking backend
+ * @param onResult - Called with every detection result
+ * @returns Tracker running in a worker if possible, otherwise on the main thread
+ */
+export const createHandTracker = async (
+  onResult: (frame: HandFrame, timestamp: number) => void
+): Promise<HandTracker> => {
+  if (supportsWorkerTracking()) {
+    try {
+      const tracker = await createWorkerTracker(onResult);
+      console.log('🧵 Hand tracking running in a Web Worker');
+      return tracker;
+    } catch (error) {
+      console.warn('⚠️ Worker hand tracking unavailable, falling back to main thread:', error);
+    }
+  }
+  return createMainThreadTracker(onResult);
+};
@@ -0,0 +1,38 @@
+/**
+ * Shared definitions for the main-thread and worker hand tracking backends
+ * Kept separate from handTracker.ts so the worker bundle does not pull in the worker constructor.
+ */
+
+import { HandLandmarkerOptions } from '@mediapipe/tasks-vision';
+import { HandFrame } from '../types';
+
+export const HAND_LANDMARKER_OPTIONS: HandLandmarkerOptions = {
+  baseOptions: {
+    delegate: "GPU"
+  },
+  runningMode: "VIDEO",
+  numHands: 2,
+  minHandDetectionConfidence: 0.3, // Reduced from 0.5 for better detection
+  minHandPresenceConfidence: 0.3,  // Reduced from 0.5 for better detection
+  minTrackingConfidence: 0.3       // Reduced from 0.5 for smoother tracking
+};
+
+/** Messages sent to the hand tracking worker */
+export type HandTrackerRequest =
+  | { type: 'init' }
+  | { type: 'detect'; bitmap: ImageBitmap; timestamp: number }
+  | { type: 'close' };
+
+/** Messages sent back by the hand tracking worker */
+export type HandTrackerResponse =
+  | { type: 'ready' }
+  | { type: 'result'; frame: HandFrame; timestamp: number }
+  | { type: 'error'; message: string };
+
+/**
+ * Reduce a MediaPipe result to the serializable frame shape we work with
+ */
+export const toHandFrame = (result: HandFrame): HandFrame => ({
+  landmarks: result.landmarks,
+  handedness: result.handedness,
+});
@@ -0,0 +1,228 @@
+/**
+ * Image silhouettes
+ * Separates an uploaded photo or logo from its background and samples the foreground
+ * pixels (with their colours) as particle targets.
+ */
+
+import * as THREE from 'three';
+import { ImageShapeSettings, ShapeImage } from '../types';
+import { Random } from './random';
+
+export const IMAGE_SHAPE_STORAGE_KEY = 'celestial-tree-shape-image';
+export const IMAGE_SHAPE_UPLOAD_SIZE = 320; // px, width the uploaded image is compressed to
+const IMAGE_SAMPLE_SIZE = 160; // px, long side of the grid the silhouette is sampled on
+const IMAGE_MIN_LIGHTNESS = 0.25; // Darker pixels are lifted so they stay visible against the night sky
+const OPAQUE_ALPHA = 250; // Images whose border is less opaque than this are treated as transparent
+
+export const DEFAULT_IMAGE_SHAPE_SETTINGS: ImageShapeSettings = {
+  threshold: 0.25,
+  mode: 'silhouette',
+  invert: false,
+};
+
+/**
+ * Foreground pixel of a sampled image
+ */
+export interface ImagePoint {
+  position: THREE.Vector3;
+  color: THREE.Color;
+}
+
+/**
+ * Points sampled from an image silhouette
+ */
+export interface ImageShape {
+  /** Points covering the silhouette (only the outline in outline mode), in random order */
+  fill: ImagePoint[];
+  /** Points on the silhouette outline, ordered left to right */
+  edge: ImagePoint[];
+  /** Width of the image in world units */
+  width: number;
+  /** Height of the image in world units */
+  height: number;
+}
+
+/**
+ * Decode an image into a small pixel grid
+ * @param url - Image URL (data URLs work offline)
+ * @returns Pixels, scaled so the long side is IMAGE_SAMPLE_SIZE
+ */
+export const loadImagePixels = (url: string): Promise<ImageData> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => {
+      const scale = Math.min(1, IMAGE_SAMPLE_SIZE / Math.max(img.width, img.height));
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.max(1, Math.round(img.width * scale));
+      canvas.height = Math.max(1, Math.round(img.height * scale));
+      const ctx = canvas.getContext('2d', { willReadFrequently: true });
+      if (!ctx) {
+        reject(new Error('Failed to get canvas context'));
+        return;
+      }
+      ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+      resolve(ctx.getImageData(0, 0, canvas.width, canvas.height));
+    };
+    img.onerror = () => reject(new Error('Failed to decode image'));
+    img.src = url;
+  });
+};
+
+/**
+ * Decide which pixels belong to the foreground
+ * Transparent images are cut by opacity; opaque ones by colour difference from the
+ * background, estimated as the average colour of the border pixels.
+ * @param pixels - Decoded image
+ * @param settings - Threshold and invert options
+ * @returns One entry per pixel, 1 for foreground
+ */
+export const computeImageMask = (pixels: ImageData, settings: ImageShapeSettings): Uint8Array => {
+  const { width: w, height: h, data } = pixels;
+  const mask = new Uint8Array(w * h);
+
+  // Average border colour and opacity
+  let r = 0, g = 0, b = 0, a = 0, n = 0;
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      if (x !== 0 && y !== 0 && x !== w - 1 && y !== h - 1) continue;
+      const i = (y * w + x) * 4;
+      r += data[i]; g += data[i + 1]; b += data[i + 2]; a += data[i + 3];
+      n++;
+    }
+  }
+  const transparent = a / n < OPAQUE_ALPHA;
+  r /= n; g /= n; b /= n;
+
+  for (let p = 0; p < w * h; p++) {
+    const i = p * 4;
+    const foreground = transparent
+      ? data[i + 3] / 255 > settings.threshold
+      : Math.hypot(data[i] - r, data[i + 1] - g, data[i + 2] - b) / (255 * Math.sqrt(3)) > settings.threshold;
+    mask[p] = foreground !== settings.invert ? 1 : 0;
+  }
+  return mask;
+};
+
+/**
+ * Sample the foreground of an image as world-space points
+ * @param pixels - Decoded image
+ * @param settings - Threshold, mode and invert options
+ * @param random - Random source for the point order
+ * @param maxWidth - Maximum width in world units
+ * @param maxHeight - Maximum height in world units
+ * @param yOffset - Vertical offset to apply to all points (default: 0)
+ * @returns Sampled points centered on the origin (empty if nothing passes the threshold)
+ */
+export const sampleImageShape = (
+  pixels: ImageData,
+  settings: ImageShapeSettings,
+  random: Random,
+  maxWidth: number,
+  maxHeight: number,
+  yOffset: number = 0
+): ImageShape => {
+  const { width: w, height: h, data } = pixels;
+  const mask = computeImageMask(pixels, settings);
+  const isForeground = (x: number, y: number) => x >= 0 && y >= 0 && x < w && y < h && mask[y * w + x] === 1;
+
+  // Fit the image into the box, keeping its aspect ratio
+  const scale = Math.min(maxWidth / w, maxHeight / h);
+  const hsl = { h: 0, s: 0, l: 0 };
+
+  const fill: ImagePoint[] = [];
+  const edge: ImagePoint[] = [];
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      if (!isForeground(x, y)) continue;
+      const i = (y * w + x) * 4;
+      const color = new THREE.Color().setRGB(data[i] / 255, data[i + 1] / 255, data[i + 2] / 255, THREE.SRGBColorSpace);
+      color.getHSL(hsl);
+      if (hsl.l < IMAGE_MIN_LIGHTNESS) color.setHSL(hsl.h, hsl.s, IMAGE_MIN_LIGHTNESS);
+
+      const point = {
+        position: new THREE.Vector3((x - w / 2) * scale, (h / 2 - y) * scale + yOffset, 0),
+        color,
+      };
+      fill.push(point);
+      if (!isForeground(x - 1, y) || !isForeground(x + 1, y) || !isForeground(x, y - 1) || !isForeground(x, y + 1)) {
+        edge.push(point);
+      }
+    }
+  }
+  edge.sort((p, q) => p.position.x - q.position.x);
+
+  // Random order, so taking the first N points covers the whole silhouette evenly
+  const points = settings.mode === 'outline' ? [...edge] : fill;
+  for (let i = points.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [points[i], points[j]] = [points[j], points[i]];
+  }
+
+  return { fill: points, edge, width: w * scale, height: h * scale };
+};
+
+/**
+ * Draw the foreground mask (for previewing the threshold settings)
+ * @param canvas - Canvas to draw into (resized to the image)
+ * @param pixels - Decoded image
+ * @param settings - Threshold, mode and invert options
+ */
+export const drawImageMask = (canvas: HTMLCanvasElement, pixels: ImageData, settings: ImageShapeSettings): void => {
+  const { width: w, height: h, data } = pixels;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return;
+  canvas.width = w;
+  canvas.height = h;
+
+  const mask = computeImageMask(pixels, settings);
+  const isForeground = (x: number, y: number) => x >= 0 && y >= 0 && x < w && y < h && mask[y * w + x] === 1;
+  const preview = ctx.createImageData(w, h);
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      if (!isForeground(x, y)) continue;
+      if (settings.mode === 'outline'
+        && isForeground(x - 1, y) && isForeground(x + 1, y) && isForeground(x, y - 1) && isForeground(x, y + 1)) {
+        continue;
+      }
+      const i = (y * w + x) * 4;
+      preview.data[i] = data[i];
+      preview.data[i + 1] = data[i + 1];
+      preview.data[i + 2] = data[i + 2];
+      preview.data[i + 3] = 255;
+    }
+  }
+  ctx.putImageData(preview, 0, 0);
+};
+
+/**
+ * Load the persisted shape image
+ * @returns Saved image and settings, or null
+ */
+export const loadShapeImage = (): ShapeImage | null => {
+  try {
+    const saved = localStorage.getItem(IMAGE_SHAPE_STORAGE_KEY);
+    if (!saved) return null;
+    const parsed = JSON.parse(saved);
+    if (typeof parsed?.url !== 'string') return null;
+    return { url: parsed.url, settings: { ...DEFAULT_IMAGE_SHAPE_SETTINGS, ...parsed.settings } };
+  } catch (error) {
+    console.error('❌ Failed to load shape image from localStorage:', error);
+    return null;
+  }
+};
+
+/**
+ * Persist the shape image
+ * @param image - Image and settings to save, or null to remove it
+ */
+export const saveShapeImage = (image: ShapeImage | null): void => {
+  try {
+    if (image) {
+      localStorage.setItem(IMAGE_SHAPE_STORAGE_KEY, JSON.stringify(image));
+    } else {
+      localStorage.removeItem(IMAGE_SHAPE_STORAGE_KEY);
+    }
+  } catch (error) {
+    console.error('❌ Failed to save shape image to localStorage:', error);
+  }
+};
@@ -0,0 +1,83 @@
+/**
+ * Input focus arbitration
+ * Overlays (modals, settings panels, native file pickers) claim focus while they are open;
+ * hand gestures are suspended as long as anything holds focus.
+ */
+
+/**
+ * Registry of everything currently capturing input
+ */
+export interface InputFocus {
+  /**
+   * Claim focus for an overlay
+   * @param owner - Label of the overlay (for logs)
+   * @returns Function that releases this claim (safe to call more than once)
+   */
+  acquire: (owner: string) => () => void;
+  /** True while any overlay holds focus */
+  isCaptured: () => boolean;
+  /** Labels of the overlays currently holding focus */
+  getOwners: () => string[];
+  /**
+   * Listen for focus being captured or released
+   * @returns Unsubscribe function
+   */
+  subscribe: (listener: (captured: boolean) => void) => () => void;
+}
+
+/**
+ * Create an input focus registry
+ * @returns Registry with no owners
+ */
+export const createInputFocus = (): InputFocus => {
+  const claims = new Map<symbol, string>();
+  const listeners = new Set<(captured: boolean) => void>();
+
+  const notify = (wasCaptured: boolean) => {
+    const captured = claims.size > 0;
+    if (captured !== wasCaptured) listeners.forEach(listener => listener(captured));
+  };
+
+  return {
+    acquire: (owner) => {
+      const claim = Symbol(owner);
+      const wasCaptured = claims.size > 0;
+      claims.set(claim, owner);
+      notify(wasCaptured);
+      return () => {
+        if (!claims.delete(claim)) return;
+        notify(true);
+      };
+    },
+    isCaptured: () => claims.size > 0,
+    getOwners: () => Array.from(claims.values()),
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    },
+  };
+};
+
+/**
+ * Open a native file picker while holding input focus
+ * Browsers give no reliable close event for the picker, so focus is released on
+ * `change`, on `cancel` where supported, or when the window regains focus.
+ * @param input - Hidden file input to open
+ * @param focus - Input focus registry
+ * @param owner - Label of the picker
+ */
+export const openFilePicker = (input: HTMLInputElement, focus: InputFocus, owner: string): void => {
+  const release = focus.acquire(owner);
+  const done = () => {
+    release();
+    input.removeEventListener('change', done);
+    input.removeEventListener('cancel', done);
+    window.removeEventListener('focus', onWindowFocus);
+  };
+  // The window is refocused as the picker closes; resume a moment later
+  const onWindowFocus = () => setTimeout(done, 300);
+  input.addEventListener('change', done);
+  input.addEventListener('cancel', done);
+  window.addEventListener('focus', onWindowFocus);
+  input.click();
+};
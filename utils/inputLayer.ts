@@ -0,0 +1,179 @@
+/**
+ * Keyboard and gamepad input layer
+ * Turns key presses and Gamepad API buttons into bound scene actions, and arrow keys /
+ * analog sticks into continuous camera orbit and zoom. A fallback for when hand
+ * tracking is unavailable (poor lighting, accessibility).
+ */
+
+import { ActionBinding, BindingMap, InputSource } from '../types';
+import { applyDeadZone } from './handSteering';
+
+// Keys that orbit the camera while held (not rebindable)
+const ORBIT_KEYS: Record<string, { x: number; y: number }> = {
+  arrowleft: { x: -1, y: 0 },
+  arrowright: { x: 1, y: 0 },
+  arrowup: { x: 0, y: -1 },
+  arrowdown: { x: 0, y: 1 },
+};
+
+const STICK_DEAD_ZONE = 0.2;
+const GAMEPAD_ZOOM_SPEED = 0.8; // Zoom factor change per second at full right-stick deflection
+
+// Standard gamepad mapping axes
+const AXIS_LEFT_X = 0;
+const AXIS_LEFT_Y = 1;
+const AXIS_RIGHT_Y = 3;
+
+/**
+ * Callbacks the input layer drives
+ */
+export interface InputLayerHandlers {
+  /** Current bindings (read on every event, so edits apply immediately) */
+  getBindings: () => BindingMap;
+  /** Perform a bound action ('release' lets hold bindings end) */
+  onBinding: (binding: ActionBinding | undefined, phase: 'press' | 'release') => void;
+  /** Orbit rate per axis (-1..1), called whenever it changes */
+  onOrbit: (x: number, y: number) => void;
+  /** Incremental zoom (positive zooms in) */
+  onZoom: (delta: number) => void;
+  /** Called on every input with the device it came from */
+  onActivity: (source: InputSource) => void;
+}
+
+/**
+ * Whether a key event comes from a text field (shortcuts must not fire while typing)
+ */
+const isTyping = (e: KeyboardEvent): boolean => {
+  const target = e.target as HTMLElement | null;
+  return !!target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT');
+};
+
+/**
+ * Start listening to the keyboard and polling connected gamepads
+ * @param handlers - Callbacks for actions, camera movement and activity
+ * @returns Function that removes all listeners and stops polling
+ */
+export const createInputLayer = (handlers: InputLayerHandlers): (() => void) => {
+  const heldOrbitKeys = new Set<string>();
+  const pressedButtons = new Map<number, boolean[]>();
+  let keyOrbit = { x: 0, y: 0 };
+  let lastOrbit = { x: 0, y: 0 };
+  let lastPoll = performance.now();
+  let frameId = 0;
+
+  const emitOrbit = (x: number, y: number) => {
+    if (x === lastOrbit.x && y === lastOrbit.y) return;
+    lastOrbit = { x, y };
+    handlers.onOrbit(x, y);
+  };
+
+  const updateKeyOrbit = () => {
+    keyOrbit = { x: 0, y: 0 };
+    heldOrbitKeys.forEach(key => {
+      keyOrbit.x += ORBIT_KEYS[key].x;
+      keyOrbit.y += ORBIT_KEYS[key].y;
+    });
+  };
+
+  // --- Keyboard ---
+  const onKeyDown = (e: KeyboardEvent) => {
+    if (isTyping(e)) return;
+    const key = e.key.toLowerCase();
+    if (ORBIT_KEYS[key]) {
+      e.preventDefault();
+      heldOrbitKeys.add(key);
+      updateKeyOrbit();
+      handlers.onActivity('keyboard');
+      return;
+    }
+    if (e.repeat) return;
+    const binding = handlers.getBindings().keys[key];
+    if (binding) {
+      handlers.onActivity('keyboard');
+      handlers.onBinding(binding, 'press');
+    }
+  };
+
+  const onKeyUp = (e: KeyboardEvent) => {
+    const key = e.key.toLowerCase();
+    if (heldOrbitKeys.delete(key)) {
+      updateKeyOrbit();
+      return;
+    }
+    if (isTyping(e)) return;
+    handlers.onBinding(handlers.getBindings().keys[key], 'release');
+  };
+
+  // Keys released while the window is unfocused never send keyup
+  const onBlur = () => {
+    heldOrbitKeys.clear();
+    updateKeyOrbit();
+  };
+
+  // --- Gamepad ---
+  const pollGamepads = () => {
+    const now = performance.now();
+    const dt = (now - lastPoll) / 1000;
+    lastPoll = now;
+
+    let stickX = 0;
+    let stickY = 0;
+    const pads = typeof navigator.getGamepads === 'function' ? navigator.getGamepads() : [];
+    for (const pad of pads) {
+      if (!pad || !pad.connected) continue;
+
+      // Buttons: fire on the press / release edges only
+      const previous = pressedButtons.get(pad.index) ?? [];
+      const current = pad.buttons.map(button => button.pressed);
+      current.forEach((pressed, index) => {
+        if (pressed === !!previous[index]) return;
+        const binding = handlers.getBindings().gamepad[index];
+        if (pressed) handlers.onActivity('gamepad');
+        handlers.onBinding(binding, pressed ? 'press' : 'release');
+      });
+      pressedButtons.set(pad.index, current);
+
+      // Left stick orbits, right stick (vertical) zooms
+      const x = applyDeadZone(pad.axes[AXIS_LEFT_X] ?? 0, STICK_DEAD_ZONE);
+      const y = applyDeadZone(pad.axes[AXIS_LEFT_Y] ?? 0, STICK_DEAD_ZONE);
+      const zoom = applyDeadZone(pad.axes[AXIS_RIGHT_Y] ?? 0, STICK_DEAD_ZONE);
+      if (x !== 0 || y !== 0 || zoom !== 0) handlers.onActivity('gamepad');
+      stickX = stickX || x;
+      stickY = stickY || y;
+      if (zoom !== 0) handlers.onZoom(-zoom * GAMEPAD_ZOOM_SPEED * dt);
+    }
+
+    // An active stick overrides held arrow keys
+    if (stickX !== 0 || stickY !== 0) emitOrbit(stickX, stickY);
+    else emitOrbit(keyOrbit.x, keyOrbit.y);
+
+    frameId = requestAnimationFrame(pollGamepads);
+  };
+
+  const onGamepadConnected = (e: GamepadEvent) => {
+    console.log(`🎮 Gamepad connected: ${e.gamepad.id}`);
+    handlers.onActivity('gamepad');
+  };
+
+  const onGamepadDisconnected = (e: GamepadEvent) => {
+    console.log(`🎮 Gamepad disconnected: ${e.gamepad.id}`);
+    pressedButtons.delete(e.gamepad.index);
+  };
+
+  window.addEventListener('keydown', onKeyDown);
+  window.addEventListener('keyup', onKeyUp);
+  window.addEventListener('blur', onBlur);
+  window.addEventListener('gamepadconnected', onGamepadConnected);
+  window.addEventListener('gamepaddisconnected', onGamepadDisconnected);
+  frameId = requestAnimationFrame(pollGamepads);
+
+  return () => {
+    cancelAnimationFrame(frameId);
+    window.removeEventListener('keydown', onKeyDown);
+    window.removeEventListener('keyup', onKeyUp);
+    window.removeEventListener('blur', onBlur);
+    window.removeEventListener('gamepadconnected', onGamepadConnected);
+    window.removeEventListener('gamepaddisconnected', onGamepadDisconnected);
+    handlers.onOrbit(0, 0);
+  };
+};
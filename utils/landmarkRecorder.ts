@@ -0,0 +1,222 @@
+/**
+ * Hand landmark session recording and replay
+ * Captures raw hand tracking frames so misclassifications can be reproduced offline
+ */
+
+import { Gesture, HandFrame } from '../types';
+import {
+  GestureThresholds,
+  DEFAULT_GESTURE_THRESHOLDS,
+  DEFAULT_STABILIZER_OPTIONS,
+  StabilizerOptions,
+  recognizeHands,
+  createGestureStabilizer,
+} from './gestureRecognizer';
+
+export const RECORDING_FORMAT_VERSION = 1;
+
+const LANDMARKS_PER_HAND = 21;
+
+/**
+ * Hand tracking frame with its capture time
+ */
+export interface RecordedFrame extends HandFrame {
+  /** Milliseconds since recording started */
+  timestamp: number;
+}
+
+/**
+ * Recorded hand tracking session (serialized as JSON)
+ */
+export interface LandmarkRecording {
+  version: number;
+  /** ISO timestamp of when the recording started */
+  createdAt: string;
+  frames: RecordedFrame[];
+}
+
+/**
+ * Classification of one recorded frame
+ */
+export interface ReplayedFrame {
+  timestamp: number;
+  /** Raw per-frame gesture */
+  gesture: Gesture;
+  /** Gesture committed by the stability filter on this frame, if any */
+  committed: Gesture | null;
+}
+
+export interface LandmarkRecorder {
+  start: () => void;
+  /** Stop recording and return the captured session */
+  stop: () => LandmarkRecording;
+  /** Capture a frame (ignored while not recording) */
+  record: (frame: HandFrame, now: number) => void;
+  isRecording: () => boolean;
+}
+
+/**
+ * Create a recorder for raw hand tracking results
+ * @returns Recorder instance
+ */
+export const createLandmarkRecorder = (): LandmarkRecorder => {
+  let recording = false;
+  let startTime = 0;
+  let createdAt = '';
+  let frames: RecordedFrame[] = [];
+
+  return {
+    start: () => {
+      recording = true;
+      startTime = performance.now();
+      createdAt = new Date().toISOString();
+      frames = [];
+    },
+    stop: () => {
+      recording = false;
+      return { version: RECORDING_FORMAT_VERSION, createdAt, frames };
+    },
+    record: (frame, now) => {
+      if (!recording) return;
+      // Copy only what we need - MediaPipe results carry extra fields (worldLandmarks, etc.)
+      frames.push({
+        timestamp: now - startTime,
+        landmarks: frame.landmarks.map(hand => hand.map(({ x, y, z }) => ({ x, y, z }))),
+        handedness: frame.handedness.map(hand => hand.map(({ categoryName, score }) => ({ categoryName, score }))),
+      });
+    },
+    isRecording: () => recording,
+  };
+};
+
+/**
+ * Download a recording as a JSON file
+ * @param recording - Recorded session
+ */
+export const downloadRecording = (recording: LandmarkRecording): void => {
+  const blob = new Blob([JSON.stringify(recording)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `hand-landmarks-${Date.now()}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const isLandmark = (value: unknown): boolean => {
+  return isObject(value) && isNumber(value.x) && isNumber(value.y) && isNumber(value.z);
+};
+
+/**
+ * Check one recorded frame has the shape the recognizer expects
+ * @param frame - Frame as read from the file (missing handedness is filled in)
+ * @param index - Position of the frame, for the error message
+ * @throws Error naming the frame and what is wrong with it
+ */
+const validateFrame = (frame: unknown, index: number): void => {
+  if (!isObject(frame)) {
+    throw new Error(`Frame ${index} is not an object`);
+  }
+  if (!isNumber(frame.timestamp)) {
+    throw new Error(`Frame ${index} has no timestamp`);
+  }
+  if (!Array.isArray(frame.landmarks)) {
+    throw new Error(`Frame ${index} has no landmark list`);
+  }
+  frame.landmarks.forEach((hand: unknown, handIndex: number) => {
+    if (!Array.isArray(hand) || hand.length !== LANDMARKS_PER_HAND) {
+      throw new Error(`Frame ${index}, hand ${handIndex} must have ${LANDMARKS_PER_HAND} landmarks`);
+    }
+    if (!hand.every(isLandmark)) {
+      throw new Error(`Frame ${index}, hand ${handIndex} has a landmark without numeric x, y and z`);
+    }
+  });
+  // Older captures may lack handedness
+  if (frame.handedness === undefined) {
+    frame.handedness = [];
+  } else if (!Array.isArray(frame.handedness) || !frame.handedness.every((hand: unknown) => Array.isArray(hand))) {
+    throw new Error(`Frame ${index} has a malformed handedness list`);
+  }
+};
+
+/**
+ * Parse and validate a recording file
+ * @param text - JSON file contents
+ * @returns Parsed recording
+ * @throws Error if the file is not a valid recording
+ */
+export const parseRecording = (text: string): LandmarkRecording => {
+  const data = JSON.parse(text);
+  if (!data || typeof data !== 'object' || !Array.isArray(data.frames)) {
+    throw new Error('Not a hand landmark recording');
+  }
+  if (data.frames.length === 0) {
+    throw new Error('Recording has no frames');
+  }
+  if (data.version !== RECORDING_FORMAT_VERSION) {
+    throw new Error(`Unsupported recording version: ${data.version}`);
+  }
+  data.frames.forEach((frame: unknown, index: number) => validateFrame(frame, index));
+  return data as LandmarkRecording;
+};
+
+/**
+ * Play a recording back in real time
+ * @param recording - Recorded session
+ * @param onFrame - Called with each frame at its original relative time
+ * @param onEnd - Called after the last frame
+ * @returns Function that stops playback
+ */
+export const playRecording = (
+  recording: LandmarkRecording,
+  onFrame: (frame: HandFrame) => void,
+  onEnd?: () => void
+): (() => void) => {
+  let index = 0;
+  let timeoutId: ReturnType<typeof setTimeout> | undefined;
+  const startTime = performance.now();
+
+  const step = () => {
+    const elapsed = performance.now() - startTime;
+    // Emit every frame that is due (catches up if the tab was throttled)
+    while (index < recording.frames.length && recording.frames[index].timestamp <= elapsed) {
+      onFrame(recording.frames[index]);
+      index++;
+    }
+    if (index >= recording.frames.length) {
+      onEnd?.();
+      return;
+    }
+    timeoutId = setTimeout(step, recording.frames[index].timestamp - elapsed);
+  };
+  // Start on the next tick, so onEnd never fires before the caller has the stop function
+  timeoutId = setTimeout(step, 0);
+
+  return () => clearTimeout(timeoutId);
+};
+
+/**
+ * Run a recording through the recognizer and stability filter without a camera
+ * Useful for comparing how different thresholds would have classified a session
+ * @param recording - Recorded session
+ * @param thresholds - Classification thresholds to evaluate
+ * @param stabilizerOptions - Stability filter tuning
+ * @returns Classification of every frame
+ */
+export const classifyRecording = (
+  recording: LandmarkRecording,
+  thresholds: GestureThresholds = DEFAULT_GESTURE_THRESHOLDS,
+  stabilizerOptions: StabilizerOptions = DEFAULT_STABILIZER_OPTIONS
+): ReplayedFrame[] => {
+  const stabilizer = createGestureStabilizer(stabilizerOptions);
+  return recording.frames.map(frame => {
+    const { gesture, confidence } = recognizeHands(frame, thresholds);
+    return { timestamp: frame.timestamp, gesture, committed: stabilizer.push(gesture, confidence, frame.timestamp) };
+  });
+};
@@ -0,0 +1,75 @@
+/**
+ * MediaPipe asset locations and hand landmarker creation
+ * Self-hosted copies (see scripts/fetch-mediapipe-assets.js) are used by default,
+ * with the public CDN as an optional fallback for deployments that lack them.
+ */
+
+import { HandLandmarker, HandLandmarkerOptions, FilesetResolver } from '@mediapipe/tasks-vision';
+
+/** Resolved WASM loader/binary paths (not exported by tasks-vision) */
+export type WasmFileset = Awaited<ReturnType<typeof FilesetResolver.forVisionTasks>>;
+
+// Installed @mediapipe/tasks-vision version, injected by vite.config.ts (self-hosted files live in a versioned folder)
+export const MEDIAPIPE_VERSION = process.env.MEDIAPIPE_VERSION as string;
+
+export const SELF_HOSTED_WASM_URL = `/mediapipe/${MEDIAPIPE_VERSION}/wasm`;
+export const SELF_HOSTED_MODEL_URL = `/mediapipe/${MEDIAPIPE_VERSION}/hand_landmarker.task`;
+export const CDN_WASM_URL = `https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@${MEDIAPIPE_VERSION}/wasm`;
+export const CDN_MODEL_URL = "https://storage.googleapis.com/mediapipe-models/hand_landmarker/hand_landmarker/float16/1/hand_landmarker.task";
+
+/**
+ * Where to load the WASM runtime and model from
+ */
+export interface MediaPipeAssetSource {
+  /** Label for logs */
+  name: string;
+  wasmUrl: string;
+  modelUrl: string;
+}
+
+/**
+ * Asset sources to try, in order
+ * Overridable at build time via MEDIAPIPE_WASM_URL / HAND_LANDMARKER_MODEL_URL;
+ * set MEDIAPIPE_CDN_FALLBACK=false to never contact external hosts.
+ */
+export const getMediaPipeAssetSources = (): MediaPipeAssetSource[] => {
+  const sources: MediaPipeAssetSource[] = [{
+    name: 'self-hosted',
+    wasmUrl: process.env.MEDIAPIPE_WASM_URL || SELF_HOSTED_WASM_URL,
+    modelUrl: process.env.HAND_LANDMARKER_MODEL_URL || SELF_HOSTED_MODEL_URL,
+  }];
+  if (process.env.MEDIAPIPE_CDN_FALLBACK !== 'false') {
+    sources.push({ name: 'CDN', wasmUrl: CDN_WASM_URL, modelUrl: CDN_MODEL_URL });
+  }
+  return sources;
+};
+
+/**
+ * Create a hand landmarker, falling back through the asset sources until one works
+ * @param options - Landmarker options (baseOptions.modelAssetPath is filled in per source)
+ * @param prepareFileset - Optional hook run before the runtime is loaded (e.g. to preload the loader script in a worker)
+ * @returns Ready-to-use landmarker
+ * @throws The last error if every source failed
+ */
+export const createHandLandmarker = async (
+  options: HandLandmarkerOptions,
+  prepareFileset?: (fileset: WasmFileset) => Promise<void>
+): Promise<HandLandmarker> => {
+  let lastError: unknown;
+  for (const source of getMediaPipeAssetSources()) {
+    try {
+      const filesetResolver = await FilesetResolver.forVisionTasks(source.wasmUrl);
+      await prepareFileset?.(filesetResolver);
+      const landmarker = await HandLandmarker.createFromOptions(filesetResolver, {
+        ...options,
+        baseOptions: { ...options.baseOptions, modelAssetPath: source.modelUrl },
+      });
+      console.log(`✋ Hand landmarker loaded (${source.name})`);
+      return landmarker;
+    } catch (error) {
+      console.warn(`⚠️ Failed to load MediaPipe assets (${source.name}):`, error);
+      lastError = error;
+    }
+  }
+  throw lastError;
+};
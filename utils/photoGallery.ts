@@ -0,0 +1,64 @@
+/**
+ * Photo gallery
+ * Decides which photo each frame shows and formats the captions drawn on the mat board.
+ */
+
+import { UserPhoto } from '../types';
+
+export const PHOTO_CAPTION_MAX_LENGTH = 40; // Fits one line of the frame's mat board
+
+const PHOTO_DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+/**
+ * Assign photos to frames
+ * Pinned photos take their frame (the first one wins if two share a frame);
+ * the remaining frames cycle through the other photos in gallery order.
+ * @param photos - Photos in gallery order
+ * @param frameCount - Number of frames in the scene
+ * @returns Photo for each frame, or null where the frame keeps its placeholder
+ */
+export const assignFramePhotos = (photos: UserPhoto[], frameCount: number): (UserPhoto | null)[] => {
+  const frames: (UserPhoto | null)[] = new Array(frameCount).fill(null);
+  const placed = new Set<UserPhoto>();
+
+  photos.forEach(photo => {
+    if (photo.frame === null || photo.frame < 0 || photo.frame >= frameCount || frames[photo.frame]) return;
+    frames[photo.frame] = photo;
+    placed.add(photo);
+  });
+
+  const loose = photos.filter(photo => !placed.has(photo));
+  if (loose.length === 0) return frames;
+
+  let next = 0;
+  for (let i = 0; i < frameCount; i++) {
+    if (frames[i]) continue;
+    frames[i] = loose[next % loose.length];
+    next++;
+  }
+  return frames;
+};
+
+/**
+ * Check a photo date
+ * @param date - Value to check
+ * @returns True for a YYYY-MM-DD calendar date
+ */
+export const isPhotoDate = (date: string): boolean => {
+  const match = PHOTO_DATE_PATTERN.exec(date);
+  if (!match) return false;
+  const [, year, month, day] = match.map(Number);
+  const parsed = new Date(year, month - 1, day);
+  return parsed.getFullYear() === year && parsed.getMonth() === month - 1 && parsed.getDate() === day;
+};
+
+/**
+ * Format a photo date for the mat board
+ * @param date - YYYY-MM-DD date (empty = none)
+ * @returns Localized date such as "24 December 2025", or an empty string
+ */
+export const formatPhotoDate = (date: string): string => {
+  if (!isPhotoDate(date)) return '';
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(year, month - 1, day).toLocaleDateString(undefined, { year: 'numeric', month: 'long', day: 'numeric' });
+};
@@ -0,0 +1,210 @@
+/**
+ * Photo storage
+ * Keeps the frame photos in IndexedDB as Blobs, which is not bound by the few megabytes
+ * localStorage allows. Photos saved by older versions as base64 strings in localStorage
+ * are moved over on the first load.
+ */
+
+import { UserPhoto } from '../types';
+import { DATABASE_STORES, readAllRecords, replaceAllRecords, syncRecords, requestPersistentStorage } from './database';
+
+// Where versions before IndexedDB kept the photos (JSON array of data URLs)
+const LEGACY_PHOTOS_KEY = 'celestial-tree-user-photos';
+
+/**
+ * Row of the photo store
+ */
+interface PhotoRecord {
+  id: string;
+  blob: Blob;
+  /** Position in the photo list */
+  order: number;
+  /** Gallery details (missing in records written before the gallery existed) */
+  caption?: string;
+  date?: string;
+  frame?: number | null;
+}
+
+/**
+ * Gallery details of a photo
+ */
+export type UserPhotoDetails = Partial<Pick<UserPhoto, 'id' | 'caption' | 'date' | 'frame'>>;
+
+/**
+ * How much space the photos take
+ */
+export interface PhotoStorageUsage {
+  /** Number of stored photos */
+  count: number;
+  /** Total size of the photos in bytes */
+  photoBytes: number;
+  /** Space used by the whole site, if the browser reports it */
+  usedBytes: number | null;
+  /** Space the browser allows the site, if it reports it */
+  quotaBytes: number | null;
+}
+
+// --- PHOTOS ---
+
+/**
+ * Wrap a stored or freshly compressed image for the scene
+ * @param blob - Image data
+ * @param details - Existing database key and gallery details (a new key is generated if omitted)
+ * @returns Photo with an object URL the frames can load
+ */
+export const createUserPhoto = (blob: Blob, details: UserPhotoDetails = {}): UserPhoto => ({
+  id: details.id ?? createPhotoId(),
+  blob,
+  url: URL.createObjectURL(blob),
+  caption: details.caption ?? '',
+  date: details.date ?? '',
+  frame: details.frame ?? null,
+});
+
+/**
+ * Free the object URLs of photos that are no longer shown
+ * @param photos - Photos to release
+ */
+export const releaseUserPhotos = (photos: UserPhoto[]): void => {
+  photos.forEach(photo => URL.revokeObjectURL(photo.url));
+};
+
+const createPhotoId = (): string => {
+  if (typeof crypto !== 'undefined' && 'randomUUID' in crypto) return crypto.randomUUID();
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+};
+
+/**
+ * Read a blob as a data URL (for exports)
+ * @param blob - Image or audio data
+ * @returns Base64 data URL
+ */
+export const blobToDataUrl = (blob: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error ?? new Error('Failed to read image'));
+    reader.readAsDataURL(blob);
+  });
+};
+
+/**
+ * Turn a data URL back into a blob (for imports and the localStorage migration)
+ * @param url - Base64 data URL
+ * @returns Image or audio data
+ */
+export const dataUrlToBlob = async (url: string): Promise<Blob> => {
+  const response = await fetch(url);
+  return response.blob();
+};
+
+// --- MIGRATION ---
+
+/**
+ * Move photos saved in localStorage by older versions into IndexedDB
+ * The old entry is removed only once the photos are safely written.
+ * @returns Number of photos moved
+ */
+const migrateLegacyPhotos = async (): Promise<number> => {
+  let saved: string | null = null;
+  try {
+    saved = localStorage.getItem(LEGACY_PHOTOS_KEY);
+  } catch (error) {
+    console.error('❌ Failed to read legacy photos from localStorage:', error);
+  }
+  if (!saved) return 0;
+
+  let urls: unknown;
+  try {
+    urls = JSON.parse(saved);
+  } catch {
+    urls = null;
+  }
+  if (!Array.isArray(urls)) {
+    console.warn('⚠️ Dropping unreadable legacy photos from localStorage');
+    localStorage.removeItem(LEGACY_PHOTOS_KEY);
+    return 0;
+  }
+
+  const blobs = await Promise.all(urls
+    .filter((url): url is string => typeof url === 'string' && url.startsWith('data:image/'))
+    .map(dataUrlToBlob));
+  const existing = await readAllRecords<PhotoRecord>(DATABASE_STORES.PHOTOS);
+  const records = blobs.map((blob, index) => ({ id: createPhotoId(), blob, order: existing.length + index }));
+  await replaceAllRecords(DATABASE_STORES.PHOTOS, [...existing, ...records]);
+  localStorage.removeItem(LEGACY_PHOTOS_KEY);
+  console.log(`📦 Moved ${records.length} photo(s) from localStorage to IndexedDB`);
+  return records.length;
+};
+
+// --- LOAD / SAVE ---
+
+/**
+ * Read the saved photos, migrating localStorage data first if there is any
+ * @returns Photos in their saved order, each with a fresh object URL
+ */
+export const loadStoredPhotos = async (): Promise<UserPhoto[]> => {
+  await migrateLegacyPhotos();
+  const records = await readAllRecords<PhotoRecord>(DATABASE_STORES.PHOTOS);
+  records.sort((a, b) => a.order - b.order);
+  console.log(records.length > 0 ? `📂 Loaded ${records.length} photo(s) from IndexedDB` : '📂 No saved photos found');
+  return records.map(record => createUserPhoto(record.blob, record));
+};
+
+/**
+ * Replace the saved photos with the given list
+ * Only new photos and photos whose gallery details or position changed are written; a photo's
+ * image never changes under the same key, so it is not compared.
+ * @param photos - Photos in display order
+ * @throws DOMException (QuotaExceededError) when the browser refuses the space
+ */
+export const saveStoredPhotos = async (photos: UserPhoto[]): Promise<void> => {
+  const records: PhotoRecord[] = photos.map((photo, order) => ({
+    id: photo.id,
+    blob: photo.blob,
+    order,
+    caption: photo.caption,
+    date: photo.date,
+    frame: photo.frame,
+  }));
+  await syncRecords<PhotoRecord>(DATABASE_STORES.PHOTOS, records, (stored, record) => (
+    stored.order === record.order
+    && stored.caption === record.caption
+    && stored.date === record.date
+    && stored.frame === record.frame
+  ));
+  if (photos.length > 0) requestPersistentStorage();
+};
+
+/**
+ * Measure the photo storage
+ * @param photos - Photos currently in the scene
+ * @returns Photo sizes and, where supported, the site's overall usage and quota
+ */
+export const getPhotoStorageUsage = async (photos: UserPhoto[]): Promise<PhotoStorageUsage> => {
+  const usage: PhotoStorageUsage = {
+    count: photos.length,
+    photoBytes: photos.reduce((total, photo) => total + photo.blob.size, 0),
+    usedBytes: null,
+    quotaBytes: null,
+  };
+  try {
+    const estimate = await navigator.storage?.estimate?.();
+    usage.usedBytes = estimate?.usage ?? null;
+    usage.quotaBytes = estimate?.quota ?? null;
+  } catch (error) {
+    console.warn('⚠️ Storage estimate unavailable:', error);
+  }
+  return usage;
+};
+
+/**
+ * Format a byte count for display
+ * @param bytes - Size in bytes
+ * @returns Size such as "840 KB" or "1.2 GB"
+ */
+export const formatBytes = (bytes: number): string => {
+  if (bytes < 1024 * 1024) return `${Math.ceil(bytes / 1024)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+  return `${(bytes / 1024 / 1024 / 1024).toFixed(1)} GB`;
+};
@@ -0,0 +1,66 @@
+/**
+ * Pinch-and-pull mapping
+ * Converts the movement of a pinching hand into how far the grabbed item has been pulled.
+ */
+
+import * as THREE from 'three';
+import { Gesture, HandLandmark, HandSide } from '../types';
+import { getHandSize, getPalmCenter, HandGestureResult } from './gestureRecognizer';
+
+export const PULL_SNAP_THRESHOLD = 0.5; // Released above this the item snaps forward, below it snaps back
+const PULL_SCALE_RANGE = 0.5; // Relative hand size growth (moving towards the camera) for a full pull
+const PULL_DROP_RANGE = 0.25; // Downward palm travel (fraction of image height) for a full pull
+
+/**
+ * Hand pose at the moment the item was grabbed
+ */
+export interface PullAnchor {
+  handSize: number;
+  palmY: number;
+  /** Side of the grabbing hand (null if MediaPipe did not report handedness) */
+  side: HandSide | null;
+}
+
+/**
+ * Record where the pull starts
+ * @param landmarks - Landmarks of the pinching hand
+ * @param side - Side of the pinching hand
+ * @returns Anchor to measure the pull against
+ */
+export const createPullAnchor = (landmarks: HandLandmark[], side: HandSide | null): PullAnchor => ({
+  handSize: getHandSize(landmarks),
+  palmY: getPalmCenter(landmarks).y,
+  side,
+});
+
+/**
+ * Find the hand holding the item
+ * The grab goes to the tightest pinch; once anchored, only the hand on the anchored side
+ * can move the item, so a second hand in view cannot take it over.
+ * @param hands - Per-hand results from recognizeHands
+ * @param anchor - Anchor of the current pull (null right after the grab)
+ * @returns Index of the grabbing hand, or -1 if it is not pinching
+ */
+export const findGrabbingHand = (hands: HandGestureResult[], anchor: PullAnchor | null): number => {
+  let grabbing = -1;
+  hands.forEach((hand, i) => {
+    if (hand.gesture !== Gesture.PINCH || !hand.features) return;
+    if (anchor?.side && hand.side !== anchor.side) return;
+    if (grabbing < 0 || hand.features.pinchDistance < hands[grabbing].features!.pinchDistance) grabbing = i;
+  });
+  return grabbing;
+};
+
+/**
+ * How far the item has been pulled since it was grabbed
+ * Moving the hand towards the camera (it appears larger) or downwards both pull;
+ * whichever is further along wins.
+ * @param anchor - Hand pose when the pinch grabbed the item
+ * @param landmarks - Current landmarks of the pinching hand
+ * @returns Pull amount (0 = still at rest .. 1 = in front of the camera)
+ */
+export const computePullAmount = (anchor: PullAnchor, landmarks: HandLandmark[]): number => {
+  const towardCamera = (getHandSize(landmarks) / anchor.handSize - 1) / PULL_SCALE_RANGE;
+  const downward = (getPalmCenter(landmarks).y - anchor.palmY) / PULL_DROP_RANGE;
+  return THREE.MathUtils.clamp(Math.max(towardCamera, downward), 0, 1);
+};
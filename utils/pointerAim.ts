@@ -0,0 +1,78 @@
+/**
+ * Point-to-select helpers
+ * Projects the index finger into the scene as a ray and finds the gift or frame it aims at.
+ */
+
+import * as THREE from 'three';
+import { HandLandmark } from '../types';
+import { INDEX_MCP, INDEX_TIP } from './gestureRecognizer';
+
+export const AIM_DWELL_SECONDS = 1.2; // Hold the aim this long on one item to pick it
+const AIM_REACH = 0.5; // How far past the fingertip (in finger lengths) the aim point lies
+const AIM_GAIN = 1.4; // Amplifies hand movement so the whole view is reachable
+const AIM_SMOOTHING = 0.35; // Per-frame blend towards the new aim point (lower = steadier)
+const AIM_HIT_ANGLE = 0.07; // Max angle (radians) between the ray and an item to hover it
+const AIM_STICKY_FACTOR = 1.5; // The hovered item keeps focus within a wider angle
+
+/**
+ * Aim point of a pointing hand in normalized device coordinates
+ * @param landmarks - Hand landmarks (21 points)
+ * @param previous - Previous aim point, for smoothing
+ * @returns Aim point (-1..1 on both axes, +y up)
+ */
+export const computeAimPoint = (
+  landmarks: HandLandmark[],
+  previous: { x: number; y: number } | null
+): { x: number; y: number } => {
+  const tip = landmarks[INDEX_TIP];
+  const mcp = landmarks[INDEX_MCP];
+  const px = tip.x + (tip.x - mcp.x) * AIM_REACH;
+  const py = tip.y + (tip.y - mcp.y) * AIM_REACH;
+
+  // Webcam image is not mirrored, so flip x to match the user's point of view
+  const x = THREE.MathUtils.clamp(-(px * 2 - 1) * AIM_GAIN, -1, 1);
+  const y = THREE.MathUtils.clamp(-(py * 2 - 1) * AIM_GAIN, -1, 1);
+  if (!previous) return { x, y };
+  return {
+    x: THREE.MathUtils.lerp(previous.x, x, AIM_SMOOTHING),
+    y: THREE.MathUtils.lerp(previous.y, y, AIM_SMOOTHING),
+  };
+};
+
+// Reuse objects to avoid GC
+const raycaster = new THREE.Raycaster();
+const ndcVector = new THREE.Vector2();
+const toItem = new THREE.Vector3();
+
+/**
+ * Find the item closest to the aim ray
+ * @param ndc - Aim point in normalized device coordinates
+ * @param camera - Scene camera
+ * @param positions - Current world position of each selectable item
+ * @param currentId - Item hovered last frame (keeps focus within a wider angle to avoid flicker)
+ * @returns Id of the aimed item, or null if nothing is close enough to the ray
+ */
+export const findAimedItem = (
+  ndc: { x: number; y: number },
+  camera: THREE.Camera,
+  positions: Map<string, THREE.Vector3>,
+  currentId: string | null
+): string | null => {
+  raycaster.setFromCamera(ndcVector.set(ndc.x, ndc.y), camera);
+  const { origin, direction } = raycaster.ray;
+
+  let bestId: string | null = null;
+  let bestAngle = Infinity;
+  let keepCurrent = false;
+  positions.forEach((position, id) => {
+    toItem.copy(position).sub(origin);
+    if (toItem.dot(direction) <= 0) return; // Behind the camera
+    const angle = toItem.angleTo(direction);
+    if (id === currentId && angle < AIM_HIT_ANGLE * AIM_STICKY_FACTOR) keepCurrent = true;
+    if (angle < AIM_HIT_ANGLE && angle < bestAngle) {
+      bestAngle = angle;
+      bestId = id;
+    }
+  });
+  return keepCurrent ? currentId : bestId;
+};
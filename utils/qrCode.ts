@@ -0,0 +1,392 @@
+/**
+ * QR codes
+ * Minimal encoder for link gifts: byte mode, error correction level M, versions 1-10
+ * (up to 213 bytes), so no extra dependency is needed.
+ *
+ * Adapted from the QR Code generator library by Project Nayuki
+ * (https://www.nayuki.io/page/qr-code-generator-library), trimmed to the modes used here.
+ *
+ * Copyright (c) Project Nayuki. (MIT License)
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of
+ * this software and associated documentation files (the "Software"), to deal in
+ * the Software without restriction, including without limitation the rights to
+ * use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of
+ * the Software, and to permit persons to whom the Software is furnished to do so,
+ * subject to the following conditions:
+ * - The above copyright notice and this permission notice shall be included in
+ *   all copies or substantial portions of the Software.
+ * - The Software is provided "as is", without warranty of any kind, express or
+ *   implied, including but not limited to the warranties of merchantability,
+ *   fitness for a particular purpose and noninfringement. In no event shall the
+ *   authors or copyright holders be liable for any claim, damages or other
+ *   liability, whether in an action of contract, tort or otherwise, arising from,
+ *   out of or in connection with the Software or the use or other dealings in the
+ *   Software.
+ */
+
+export const QR_MAX_BYTES = 213;
+
+const MAX_VERSION = 10;
+const FORMAT_BITS_LEVEL_M = 0; // Error correction level M in the format information
+
+// Error correction codewords per block and number of blocks, for level M (index = version)
+const ECC_CODEWORDS_PER_BLOCK = [-1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26];
+const ECC_BLOCKS = [-1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5];
+
+/** Square grid of modules, true = dark ([row][column]) */
+export type QrMatrix = boolean[][];
+
+// --- REED-SOLOMON ---
+
+const gfMultiply = (x: number, y: number): number => {
+  let z = 0;
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11D);
+    z ^= ((y >>> i) & 1) * x;
+  }
+  return z & 0xFF;
+};
+
+const reedSolomonDivisor = (degree: number): number[] => {
+  const result = new Array(degree).fill(0);
+  result[degree - 1] = 1;
+  let root = 1;
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < result.length; j++) {
+      result[j] = gfMultiply(result[j], root);
+      if (j + 1 < result.length) result[j] ^= result[j + 1];
+    }
+    root = gfMultiply(root, 0x02);
+  }
+  return result;
+};
+
+const reedSolomonRemainder = (data: number[], divisor: number[]): number[] => {
+  const result = new Array(divisor.length).fill(0);
+  data.forEach(byte => {
+    const factor = byte ^ (result.shift() as number);
+    result.push(0);
+    divisor.forEach((coefficient, i) => { result[i] ^= gfMultiply(coefficient, factor); });
+  });
+  return result;
+};
+
+// --- LAYOUT ---
+
+const getSize = (version: number) => version * 4 + 17;
+
+const getRawDataModules = (version: number): number => {
+  let modules = (16 * version + 128) * version + 64;
+  if (version >= 2) {
+    const alignCount = Math.floor(version / 7) + 2;
+    modules -= (25 * alignCount - 10) * alignCount - 55;
+    if (version >= 7) modules -= 36;
+  }
+  return modules;
+};
+
+const getDataCodewords = (version: number): number => {
+  return Math.floor(getRawDataModules(version) / 8) - ECC_CODEWORDS_PER_BLOCK[version] * ECC_BLOCKS[version];
+};
+
+const getAlignmentPositions = (version: number): number[] => {
+  if (version === 1) return [];
+  const count = Math.floor(version / 7) + 2;
+  const step = Math.ceil((version * 4 + 4) / (count * 2 - 2)) * 2;
+  const positions = [6];
+  for (let position = getSize(version) - 7; positions.length < count; position -= step) {
+    positions.splice(1, 0, position);
+  }
+  return positions;
+};
+
+const getBit = (value: number, index: number) => ((value >>> index) & 1) !== 0;
+
+/**
+ * Grid being built, tracking which modules belong to the fixed patterns
+ */
+interface QrGrid {
+  size: number;
+  modules: boolean[][];
+  isFunction: boolean[][];
+}
+
+const setFunctionModule = (grid: QrGrid, x: number, y: number, dark: boolean) => {
+  grid.modules[y][x] = dark;
+  grid.isFunction[y][x] = true;
+};
+
+const drawFunctionPatterns = (grid: QrGrid, version: number) => {
+  const { size } = grid;
+
+  // Timing patterns
+  for (let i = 0; i < size; i++) {
+    setFunctionModule(grid, 6, i, i % 2 === 0);
+    setFunctionModule(grid, i, 6, i % 2 === 0);
+  }
+
+  // Finder patterns with their separators
+  [[3, 3], [size - 4, 3], [3, size - 4]].forEach(([cx, cy]) => {
+    for (let dy = -4; dy <= 4; dy++) {
+      for (let dx = -4; dx <= 4; dx++) {
+        const x = cx + dx;
+        const y = cy + dy;
+        if (x < 0 || x >= size || y < 0 || y >= size) continue;
+        const distance = Math.max(Math.abs(dx), Math.abs(dy));
+        setFunctionModule(grid, x, y, distance !== 2 && distance !== 4);
+      }
+    }
+  });
+
+  // Alignment patterns (skipping the three finder corners)
+  const positions = getAlignmentPositions(version);
+  const last = positions.length - 1;
+  positions.forEach((cy, i) => {
+    positions.forEach((cx, j) => {
+      if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) return;
+      for (let dy = -2; dy <= 2; dy++) {
+        for (let dx = -2; dx <= 2; dx++) {
+          setFunctionModule(grid, cx + dx, cy + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+        }
+      }
+    });
+  });
+
+  // Reserve the format areas (written per mask), then the version information
+  drawFormatBits(grid, 0);
+  if (version >= 7) {
+    let remainder = version;
+    for (let i = 0; i < 12; i++) remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1F25);
+    const bits = (version << 12) | remainder;
+    for (let i = 0; i < 18; i++) {
+      const a = size - 11 + (i % 3);
+      const b = Math.floor(i / 3);
+      setFunctionModule(grid, a, b, getBit(bits, i));
+      setFunctionModule(grid, b, a, getBit(bits, i));
+    }
+  }
+};
+
+const drawFormatBits = (grid: QrGrid, mask: number) => {
+  const { size } = grid;
+  const data = (FORMAT_BITS_LEVEL_M << 3) | mask;
+  let remainder = data;
+  for (let i = 0; i < 10; i++) remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537);
+  const bits = ((data << 10) | remainder) ^ 0x5412;
+
+  // First copy, around the top-left finder
+  for (let i = 0; i <= 5; i++) setFunctionModule(grid, 8, i, getBit(bits, i));
+  setFunctionModule(grid, 8, 7, getBit(bits, 6));
+  setFunctionModule(grid, 8, 8, getBit(bits, 7));
+  setFunctionModule(grid, 7, 8, getBit(bits, 8));
+  for (let i = 9; i < 15; i++) setFunctionModule(grid, 14 - i, 8, getBit(bits, i));
+
+  // Second copy, split between the other two finders
+  for (let i = 0; i < 8; i++) setFunctionModule(grid, size - 1 - i, 8, getBit(bits, i));
+  for (let i = 8; i < 15; i++) setFunctionModule(grid, 8, size - 15 + i, getBit(bits, i));
+  setFunctionModule(grid, 8, size - 8, true); // Always dark
+};
+
+const drawCodewords = (grid: QrGrid, codewords: number[]) => {
+  const { size, modules, isFunction } = grid;
+  let bit = 0;
+  // Zigzag through two-column strips from the right, skipping the vertical timing pattern
+  for (let right = size - 1; right >= 1; right -= 2) {
+    if (right === 6) right = 5;
+    const upward = ((right + 1) & 2) === 0;
+    for (let step = 0; step < size; step++) {
+      const y = upward ? size - 1 - step : step;
+      for (let j = 0; j < 2; j++) {
+        const x = right - j;
+        if (isFunction[y][x] || bit >= codewords.length * 8) continue;
+        modules[y][x] = getBit(codewords[bit >>> 3], 7 - (bit & 7));
+        bit++;
+      }
+    }
+  }
+};
+
+const MASKS: ((x: number, y: number) => boolean)[] = [
+  (x, y) => (x + y) % 2 === 0,
+  (_x, y) => y % 2 === 0,
+  (x) => x % 3 === 0,
+  (x, y) => (x + y) % 3 === 0,
+  (x, y) => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+  (x, y) => (x * y) % 2 + (x * y) % 3 === 0,
+  (x, y) => ((x * y) % 2 + (x * y) % 3) % 2 === 0,
+  (x, y) => ((x + y) % 2 + (x * y) % 3) % 2 === 0,
+];
+
+const applyMask = (grid: QrGrid, mask: number) => {
+  const test = MASKS[mask];
+  for (let y = 0; y < grid.size; y++) {
+    for (let x = 0; x < grid.size; x++) {
+      if (!grid.isFunction[y][x] && test(x, y)) grid.modules[y][x] = !grid.modules[y][x];
+    }
+  }
+};
+
+// Dark-light pattern of a finder, padded with four light modules on one side
+const FINDER_LIKE = [
+  [true, false, true, true, true, false, true, false, false, false, false],
+  [false, false, false, false, true, false, true, true, true, false, true],
+];
+
+/**
+ * Penalty score of a masked grid (lower scans more reliably)
+ */
+const getPenalty = (modules: boolean[][]): number => {
+  const size = modules.length;
+  let penalty = 0;
+  const lines: boolean[][] = [];
+  for (let i = 0; i < size; i++) {
+    lines.push(modules[i]);
+    lines.push(modules.map(row => row[i]));
+  }
+
+  lines.forEach(line => {
+    // Runs of five or more modules of the same colour
+    let run = 1;
+    for (let i = 1; i <= size; i++) {
+      if (i < size && line[i] === line[i - 1]) {
+        run++;
+      } else {
+        if (run >= 5) penalty += run - 2;
+        run = 1;
+      }
+    }
+    // Patterns that look like a finder
+    for (let i = 0; i + 11 <= size; i++) {
+      if (FINDER_LIKE.some(pattern => pattern.every((dark, k) => line[i + k] === dark))) penalty += 40;
+    }
+  });
+
+  // 2x2 blocks of the same colour
+  let dark = 0;
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      if (modules[y][x]) dark++;
+      if (x < size - 1 && y < size - 1) {
+        const colour = modules[y][x];
+        if (colour === modules[y][x + 1] && colour === modules[y + 1][x] && colour === modules[y + 1][x + 1]) penalty += 3;
+      }
+    }
+  }
+
+  // Balance of dark and light modules
+  penalty += Math.floor(Math.abs(dark * 20 - size * size * 10) / (size * size)) * 10;
+  return penalty;
+};
+
+// --- ENCODING ---
+
+const createCodewords = (bytes: Uint8Array, version: number): number[] => {
+  const capacity = getDataCodewords(version);
+  const bits: number[] = [];
+  const append = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1);
+  };
+  append(0b0100, 4); // Byte mode
+  append(bytes.length, version <= 9 ? 8 : 16);
+  bytes.forEach(byte => append(byte, 8));
+  append(0, Math.min(4, capacity * 8 - bits.length)); // Terminator
+  append(0, (8 - (bits.length % 8)) % 8);
+
+  const data: number[] = [];
+  for (let i = 0; i < bits.length; i += 8) {
+    data.push(bits.slice(i, i + 8).reduce((byte, bit) => (byte << 1) | bit, 0));
+  }
+  for (let pad = 0xEC; data.length < capacity; pad ^= 0xEC ^ 0x11) data.push(pad);
+
+  // Split into blocks, add error correction and interleave
+  const blockCount = ECC_BLOCKS[version];
+  const eccLength = ECC_CODEWORDS_PER_BLOCK[version];
+  const rawCodewords = Math.floor(getRawDataModules(version) / 8);
+  const shortBlocks = blockCount - (rawCodewords % blockCount);
+  const shortBlockLength = Math.floor(rawCodewords / blockCount);
+  const divisor = reedSolomonDivisor(eccLength);
+
+  const blocks: number[][] = [];
+  for (let i = 0, offset = 0; i < blockCount; i++) {
+    const length = shortBlockLength - eccLength + (i < shortBlocks ? 0 : 1);
+    const block = data.slice(offset, offset + length);
+    offset += length;
+    const ecc = reedSolomonRemainder(block, divisor);
+    if (i < shortBlocks) block.push(0); // Placeholder, skipped when interleaving
+    blocks.push([...block, ...ecc]);
+  }
+
+  const result: number[] = [];
+  for (let i = 0; i < blocks[0].length; i++) {
+    blocks.forEach((block, j) => {
+      if (i !== shortBlockLength - eccLength || j >= shortBlocks) result.push(block[i]);
+    });
+  }
+  return result;
+};
+
+/**
+ * Encode text as a QR code
+ * @param text - Text to encode (UTF-8, at most QR_MAX_BYTES bytes)
+ * @param mask - Force a mask pattern (0-7); by default the best-scoring one is used
+ * @returns Module grid without the quiet zone
+ * @throws Error if the text is too long
+ */
+export const createQrCode = (text: string, mask?: number): QrMatrix => {
+  const bytes = new TextEncoder().encode(text);
+  let version = 1;
+  const fits = (v: number) => 4 + (v <= 9 ? 8 : 16) + bytes.length * 8 <= getDataCodewords(v) * 8;
+  while (version <= MAX_VERSION && !fits(version)) version++;
+  if (version > MAX_VERSION) throw new Error(`Text is too long for a QR code (${bytes.length} of ${QR_MAX_BYTES} bytes)`);
+
+  const size = getSize(version);
+  const grid: QrGrid = {
+    size,
+    modules: Array.from({ length: size }, () => new Array(size).fill(false)),
+    isFunction: Array.from({ length: size }, () => new Array(size).fill(false)),
+  };
+  drawFunctionPatterns(grid, version);
+  drawCodewords(grid, createCodewords(bytes, version));
+
+  let chosen = mask ?? -1;
+  if (chosen < 0) {
+    let best = Infinity;
+    for (let candidate = 0; candidate < MASKS.length; candidate++) {
+      applyMask(grid, candidate);
+      drawFormatBits(grid, candidate);
+      const penalty = getPenalty(grid.modules);
+      if (penalty < best) {
+        best = penalty;
+        chosen = candidate;
+      }
+      applyMask(grid, candidate); // XOR again to undo
+    }
+  }
+  applyMask(grid, chosen);
+  drawFormatBits(grid, chosen);
+  return grid.modules;
+};
+
+/**
+ * Draw a QR code onto a canvas, with the standard four-module quiet zone
+ * @param canvas - Target canvas (resized to fit)
+ * @param matrix - Module grid from createQrCode
+ * @param moduleSize - Pixels per module
+ */
+export const drawQrCode = (canvas: HTMLCanvasElement, matrix: QrMatrix, moduleSize: number = 8): void => {
+  const quietZone = 4;
+  const size = (matrix.length + quietZone * 2) * moduleSize;
+  canvas.width = size;
+  canvas.height = size;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return;
+  ctx.fillStyle = '#FFFFFF';
+  ctx.fillRect(0, 0, size, size);
+  ctx.fillStyle = '#000000';
+  matrix.forEach((row, y) => {
+    row.forEach((dark, x) => {
+      if (dark) ctx.fillRect((x + quietZone) * moduleSize, (y + quietZone) * moduleSize, moduleSize, moduleSize);
+    });
+  });
+};
@@ -0,0 +1,60 @@
+/**
+ * Seeded random numbers
+ * Layout generators draw from a Random instead of Math.random, so the same seed
+ * always rebuilds the same tree.
+ */
+
+/** Random number generator returning values in [0, 1) */
+export type Random = () => number;
+
+export const SEED_MAX = 999999; // Seeds are 0..SEED_MAX so they are easy to read out and type
+
+/**
+ * Create a seeded generator (mulberry32)
+ * @param seed - Any 32-bit integer
+ * @returns Generator producing the same sequence for the same seed
+ */
+export const createRandom = (seed: number): Random => {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6D2B79F5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+/**
+ * Derive an independent seed for one part of the scene (FNV-1a hash)
+ * Each particle system draws from its own stream, so adding draws to one never shifts another.
+ * @param seed - Scene seed
+ * @param keys - What the stream is for (e.g. 'needles', the formation)
+ * @returns 32-bit seed
+ */
+export const deriveSeed = (seed: number, ...keys: (string | number)[]): number => {
+  const input = [seed, ...keys].join(':');
+  let hash = 0x811C9DC5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+/**
+ * Pick a fresh seed
+ * @returns Random seed in 0..SEED_MAX
+ */
+export const generateSeed = (): number => Math.floor(Math.random() * (SEED_MAX + 1));
+
+/**
+ * Read a seed typed by the user or found in a link
+ * @param value - Text to parse
+ * @returns Seed, or null if the text is not a whole number in 0..SEED_MAX
+ */
+export const parseSeed = (value: string | null | undefined): number | null => {
+  if (!value || !/^\d+$/.test(value.trim())) return null;
+  const seed = Number(value.trim());
+  return seed <= SEED_MAX ? seed : null;
+};
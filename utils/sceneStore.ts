@@ -0,0 +1,480 @@
+/**
+ * Scene store
+ * Single source of truth for the scene state shared by the DOM UI and the R3F components.
+ * Components read it through selectors with `useSceneStore`; anything else can subscribe directly.
+ */
+
+import { useSyncExternalStore, MutableRefObject } from 'react';
+import {
+  AppState,
+  InteractionMode,
+  CameraInput,
+  CameraPose,
+  ItemStepRequest,
+  ItemPullRequest,
+  PointerAim,
+  ItemPull,
+  ShapeImage,
+  UserPhoto,
+  GiftContent,
+} from '../types';
+import { FormationContext } from './formations';
+import { loadImagePixels, loadShapeImage, saveShapeImage } from './imageShape';
+import { generateSeed, parseSeed } from './random';
+import { loadStoredPhotos, saveStoredPhotos, releaseUserPhotos } from './photoStorage';
+import { loadStoredGifts, saveStoredGifts, collectGiftMedia, releaseGiftMedia } from './giftStorage';
+
+// LocalStorage keys
+const STORAGE_KEYS = {
+  USER_TEXT: 'celestial-tree-user-text',
+  SEED: 'celestial-tree-seed',
+};
+
+// Query parameter that carries the seed in shared links
+const SEED_URL_PARAM = 'seed';
+
+/**
+ * Reactive scene state
+ */
+export interface SceneState {
+  /** Formation all particle systems assemble into */
+  appState: AppState;
+  interactionMode: InteractionMode;
+  /** Seed every layout is generated from (the same seed always gives the same tree) */
+  seed: number;
+  /** Uploaded photos shown in the frames */
+  userPhotos: UserPhoto[];
+  /** Gift contents (empty = built-in wishes) */
+  userGifts: GiftContent[];
+  /** Words spelled out by the text formation (empty = default greeting) */
+  formationText: string;
+  /** Photo or logo the image formation is built from, with its threshold settings */
+  shapeImage: ShapeImage | null;
+  /** Decoded pixels of shapeImage (not persisted) */
+  shapeImagePixels: ImageData | null;
+  /** Latest request to switch the pulled item */
+  itemStepRequest: ItemStepRequest | null;
+  /** Latest request to pull an item the user aimed at */
+  itemPullRequest: ItemPullRequest | null;
+}
+
+/**
+ * State changes the UI, gestures and integrations can make
+ */
+export interface SceneActions {
+  setAppState: (state: AppState) => void;
+  setInteractionMode: (update: InteractionMode | ((prev: InteractionMode) => InteractionMode)) => void;
+  /** Rebuild the whole scene from another seed */
+  setSeed: (seed: number) => void;
+  /** Pull an item the user aimed at (switches to the matching pulling mode; without an id one is picked at random) */
+  pullItem: (type: 'gift' | 'frame', itemId?: string) => void;
+  /** Switch the pulled item to the next (1) or previous (-1) one of its kind */
+  stepItem: (direction: 1 | -1) => void;
+  /** Replace the photo list (object URLs of photos left out are revoked) */
+  setUserPhotos: (photos: UserPhoto[]) => void;
+  /** Append photos to the end of the gallery */
+  addUserPhotos: (photos: UserPhoto[]) => void;
+  removeUserPhoto: (id: string) => void;
+  /** Move a photo to another position in the gallery */
+  moveUserPhoto: (id: string, index: number) => void;
+  /** Edit a photo's caption, date or pinned frame (pinning takes the frame from any other photo) */
+  updateUserPhoto: (id: string, changes: Partial<Pick<UserPhoto, 'caption' | 'date' | 'frame'>>) => void;
+  /** Replace the gift list (object URLs of media left out are revoked) */
+  setUserGifts: (gifts: GiftContent[]) => void;
+  setFormationText: (text: string) => void;
+  /** Replace or remove the shape image (a new URL is decoded in the background) */
+  setShapeImage: (image: ShapeImage | null) => void;
+}
+
+/**
+ * Per-frame input written by the gesture layer and read by the scene
+ * Mutated in place without notifying subscribers, so hand tracking never triggers React renders.
+ */
+export interface LiveInput {
+  cameraInput: MutableRefObject<CameraInput>;
+  /** Current camera viewpoint, written by the camera rig every frame */
+  cameraPose: MutableRefObject<CameraPose>;
+  pointerAim: MutableRefObject<PointerAim>;
+  itemPull: MutableRefObject<ItemPull>;
+}
+
+export interface SceneStore {
+  getState: () => SceneState;
+  actions: SceneActions;
+  live: LiveInput;
+  /**
+   * Listen for any state change
+   * @returns Unsubscribe function
+   */
+  subscribe: (listener: (state: SceneState, prev: SceneState) => void) => () => void;
+  /**
+   * Listen for changes of one selected value (compared with Object.is)
+   * @returns Unsubscribe function
+   */
+  select: <T>(selector: (state: SceneState) => T, listener: (value: T, prev: T) => void) => () => void;
+}
+
+const DEFAULT_SCENE_STATE: SceneState = {
+  appState: AppState.TREE_SHAPE,
+  interactionMode: InteractionMode.IDLE,
+  seed: 0,
+  userPhotos: [],
+  userGifts: [],
+  formationText: '',
+  shapeImage: null,
+  shapeImagePixels: null,
+  itemStepRequest: null,
+  itemPullRequest: null,
+};
+
+/**
+ * Create a scene store
+ * @param initial - State to start from (missing fields use the defaults)
+ * @returns Store with no subscribers
+ */
+export const createSceneStore = (initial: Partial<SceneState> = {}): SceneStore => {
+  let state: SceneState = { ...DEFAULT_SCENE_STATE, ...initial };
+  const listeners = new Set<(state: SceneState, prev: SceneState) => void>();
+
+  const setState = (partial: Partial<SceneState>) => {
+    const changed = (Object.keys(partial) as (keyof SceneState)[]).some(key => !Object.is(partial[key], state[key]));
+    if (!changed) return;
+    const prev = state;
+    state = { ...state, ...partial };
+    listeners.forEach(listener => listener(state, prev));
+  };
+
+  const decodeShapeImage = (url: string) => {
+    loadImagePixels(url)
+      .then(pixels => {
+        // Ignore results for an image that has been replaced meanwhile
+        if (state.shapeImage?.url === url) setState({ shapeImagePixels: pixels });
+      })
+      .catch(error => console.error('❌ Failed to decode shape image:', error));
+  };
+
+  const setUserPhotos = (userPhotos: UserPhoto[]) => {
+    // Edited photos are new objects sharing the same object URL, so compare URLs
+    const kept = new Set(userPhotos.map(photo => photo.url));
+    const removed = state.userPhotos.filter(photo => !kept.has(photo.url));
+    setState({ userPhotos });
+    releaseUserPhotos(removed);
+  };
+
+  const actions: SceneActions = {
+    setAppState: (appState) => setState({ appState }),
+    setInteractionMode: (update) => setState({
+      interactionMode: typeof update === 'function' ? update(state.interactionMode) : update,
+    }),
+    setSeed: (seed) => setState({ seed }),
+    // Mode and item change in one update so the random picker never sees the mode without the item
+    pullItem: (type, itemId) => setState({
+      interactionMode: type === 'gift' ? InteractionMode.PULLING_GIFT : InteractionMode.PULLING_FRAME,
+      ...(itemId && { itemPullRequest: { itemId, id: (state.itemPullRequest?.id ?? 0) + 1 } }),
+    }),
+    stepItem: (direction) => setState({
+      itemStepRequest: { direction, id: (state.itemStepRequest?.id ?? 0) + 1 },
+    }),
+    setUserPhotos,
+    addUserPhotos: (photos) => setUserPhotos([...state.userPhotos, ...photos]),
+    removeUserPhoto: (id) => setUserPhotos(state.userPhotos.filter(photo => photo.id !== id)),
+    moveUserPhoto: (id, index) => {
+      const photo = state.userPhotos.find(p => p.id === id);
+      if (!photo) return;
+      const rest = state.userPhotos.filter(p => p !== photo);
+      const target = Math.max(0, Math.min(index, rest.length));
+      if (state.userPhotos[target] === photo) return;
+      setUserPhotos([...rest.slice(0, target), photo, ...rest.slice(target)]);
+    },
+    updateUserPhoto: (id, changes) => setUserPhotos(state.userPhotos.map(photo => {
+      if (photo.id === id) return { ...photo, ...changes };
+      // A frame shows one pinned photo
+      if (changes.frame != null && photo.frame === changes.frame) return { ...photo, frame: null };
+      return photo;
+    })),
+    setUserGifts: (userGifts) => {
+      const kept = new Set(collectGiftMedia(userGifts).map(media => media.url));
+      const removed = collectGiftMedia(state.userGifts).filter(media => !kept.has(media.url));
+      setState({ userGifts });
+      releaseGiftMedia(removed);
+    },
+    setFormationText: (formationText) => setState({ formationText }),
+    setShapeImage: (shapeImage) => {
+      const urlChanged = shapeImage?.url !== state.shapeImage?.url;
+      setState(urlChanged ? { shapeImage, shapeImagePixels: null } : { shapeImage });
+      if (urlChanged && shapeImage) decodeShapeImage(shapeImage.url);
+    },
+  };
+
+  const subscribe: SceneStore['subscribe'] = (listener) => {
+    listeners.add(listener);
+    return () => { listeners.delete(listener); };
+  };
+
+  // An image restored from a previous session still needs decoding
+  if (state.shapeImage && !state.shapeImagePixels) decodeShapeImage(state.shapeImage.url);
+
+  return {
+    getState: () => state,
+    actions,
+    live: {
+      // Continuous camera input (hand zoom, steering, reset)
+      cameraInput: { current: { zoomDelta: 0, resetRequested: false, steer: null, orbit: { x: 0, y: 0 }, moveTo: null } },
+      cameraPose: { current: { position: [0, 0, 0], target: [0, 0, 0] } },
+      // Point-to-select aim, written by the gesture layer and resolved against the scene
+      pointerAim: { current: { ndc: null, hoveredId: null, dwell: 0, confirmRequested: false } },
+      // Analog pinch-and-pull of the targeted item (fully pulled unless a hand is holding it)
+      itemPull: { current: { grabbed: false, amount: 1 } },
+    },
+    subscribe,
+    select: (selector, listener) => {
+      return subscribe((next, prev) => {
+        const value = selector(next);
+        const prevValue = selector(prev);
+        if (!Object.is(value, prevValue)) listener(value, prevValue);
+      });
+    },
+  };
+};
+
+// --- SELECTORS ---
+
+export const selectAppState = (state: SceneState) => state.appState;
+export const selectInteractionMode = (state: SceneState) => state.interactionMode;
+export const selectSeed = (state: SceneState) => state.seed;
+export const selectUserPhotos = (state: SceneState) => state.userPhotos;
+export const selectUserGifts = (state: SceneState) => state.userGifts;
+export const selectFormationText = (state: SceneState) => state.formationText;
+export const selectShapeImage = (state: SceneState) => state.shapeImage;
+export const selectShapeImagePixels = (state: SceneState) => state.shapeImagePixels;
+export const selectItemStepRequest = (state: SceneState) => state.itemStepRequest;
+export const selectItemPullRequest = (state: SceneState) => state.itemPullRequest;
+
+let cachedFormationContext: {
+  text: string;
+  shapeImage: ShapeImage | null;
+  pixels: ImageData | null;
+  context: FormationContext;
+} | null = null;
+
+/**
+ * User data the text and image formations are built from
+ * Memoized: the same inputs return the same object, so formation caches and memos stay valid.
+ */
+export const selectFormationContext = (state: SceneState): FormationContext => {
+  const { formationText: text, shapeImage, shapeImagePixels: pixels } = state;
+  const cached = cachedFormationContext;
+  if (cached && cached.text === text && cached.shapeImage === shapeImage && cached.pixels === pixels) {
+    return cached.context;
+  }
+  const context: FormationContext = {
+    text,
+    image: shapeImage && pixels ? { pixels, settings: shapeImage.settings } : null,
+  };
+  cachedFormationContext = { text, shapeImage, pixels, context };
+  return context;
+};
+
+// --- PERSISTENCE ---
+
+/**
+ * Seed to start with: a shared link wins over the last session, otherwise a fresh one
+ */
+const loadSeed = (): number => {
+  const linked = parseSeed(new URLSearchParams(window.location.search).get(SEED_URL_PARAM));
+  if (linked !== null) {
+    console.log(`🎲 Using seed ${linked} from the link`);
+    return linked;
+  }
+  try {
+    const saved = parseSeed(localStorage.getItem(STORAGE_KEYS.SEED));
+    if (saved !== null) {
+      console.log(`🎲 Loaded seed ${saved} from localStorage`);
+      return saved;
+    }
+  } catch (error) {
+    console.error('❌ Failed to load seed from localStorage:', error);
+  }
+  return generateSeed();
+};
+
+/**
+ * Read the user data saved by a previous session
+ * Photos and gifts (whose media lives in IndexedDB) arrive asynchronously (see persistSceneStore).
+ * @returns Persisted part of the scene state
+ */
+export const loadPersistedSceneState = (): Partial<SceneState> => {
+  let formationText = '';
+  try {
+    formationText = localStorage.getItem(STORAGE_KEYS.USER_TEXT) ?? '';
+    if (formationText) console.log(`✏️ Loaded formation text "${formationText}" from localStorage`);
+  } catch (error) {
+    console.error('❌ Failed to load formation text from localStorage:', error);
+  }
+
+  return {
+    seed: loadSeed(),
+    formationText,
+    shapeImage: loadShapeImage(),
+  };
+};
+
+const savePhotos = (userPhotos: UserPhoto[]) => {
+  console.log(`💾 Saving ${userPhotos.length} photo(s) to IndexedDB`);
+  saveStoredPhotos(userPhotos)
+    .then(() => console.log(userPhotos.length > 0 ? '✅ Photos saved successfully' : '🗑️ Photos cleared from IndexedDB'))
+    .catch((error) => {
+      console.error('❌ Failed to save photos to IndexedDB:', error);
+      if (error instanceof DOMException && error.name === 'QuotaExceededError') {
+        alert('存储空间不足！请删除一些照片或清理浏览器存储空间。');
+      }
+    });
+};
+
+/**
+ * Restore the photos from IndexedDB, then save them whenever they change
+ * Photos added before the restore finishes are kept after the saved ones.
+ */
+const persistPhotos = (store: SceneStore): (() => void) => {
+  let restored = false;
+  const unsubscribe = store.select(selectUserPhotos, (photos) => {
+    if (restored) savePhotos(photos);
+  });
+
+  loadStoredPhotos()
+    .then((photos) => {
+      const added = store.getState().userPhotos;
+      if (added.length > 0) {
+        // Photos added while loading go after the saved ones, and the combined list is saved
+        restored = true;
+        store.actions.setUserPhotos([...photos, ...added]);
+      } else {
+        // Nothing changed: show the saved photos without writing them back
+        store.actions.setUserPhotos(photos);
+        restored = true;
+      }
+    })
+    .catch((error) => {
+      // Keep saving: a failed read (e.g. a corrupt legacy entry) should not lose new uploads
+      restored = true;
+      console.error('❌ Failed to load photos from IndexedDB:', error);
+    });
+
+  return unsubscribe;
+};
+
+const saveGifts = (userGifts: GiftContent[]) => {
+  console.log(`🎁 Saving ${userGifts.length} gift(s)`);
+  saveStoredGifts(userGifts)
+    .then(() => console.log(userGifts.length > 0 ? '✅ Gifts saved successfully' : '🗑️ Gifts cleared'))
+    .catch((error) => {
+      console.error('❌ Failed to save gifts:', error);
+      if (error instanceof DOMException && error.name === 'QuotaExceededError') {
+        alert('存储空间不足！请删除一些礼物中的照片或语音。');
+      }
+    });
+};
+
+/**
+ * Restore the gifts (and their media from IndexedDB), then save them whenever they change
+ * Gifts set before the restore finishes (e.g. by an imported tree) win over the saved ones.
+ * @returns Unsubscribe function, and a promise that settles once the restore is done
+ */
+const persistGifts = (store: SceneStore): { unsubscribe: () => void; restored: Promise<void> } => {
+  let restored = false;
+  let changedEarly = false;
+  const unsubscribe = store.select(selectUserGifts, (gifts) => {
+    if (restored) saveGifts(gifts);
+    else changedEarly = true;
+  });
+
+  const restoring = loadStoredGifts()
+    .then((gifts) => {
+      if (changedEarly) {
+        releaseGiftMedia(collectGiftMedia(gifts));
+        restored = true;
+        saveGifts(store.getState().userGifts);
+      } else {
+        store.actions.setUserGifts(gifts);
+        restored = true;
+      }
+    })
+    .catch((error) => {
+      restored = true;
+      console.error('❌ Failed to load gifts:', error);
+    });
+
+  return { unsubscribe, restored: restoring };
+};
+
+const saveFormationText = (formationText: string) => {
+  try {
+    if (formationText) {
+      localStorage.setItem(STORAGE_KEYS.USER_TEXT, formationText);
+      console.log('✅ Formation text saved successfully');
+    } else {
+      localStorage.removeItem(STORAGE_KEYS.USER_TEXT);
+    }
+  } catch (error) {
+    console.error('❌ Failed to save formation text to localStorage:', error);
+  }
+};
+
+/**
+ * Keep the seed in localStorage and in the address bar, so the current URL recreates this tree
+ */
+const saveSeed = (seed: number) => {
+  try {
+    localStorage.setItem(STORAGE_KEYS.SEED, String(seed));
+  } catch (error) {
+    console.error('❌ Failed to save seed to localStorage:', error);
+  }
+  const url = new URL(window.location.href);
+  url.searchParams.set(SEED_URL_PARAM, String(seed));
+  window.history.replaceState(window.history.state, '', url);
+};
+
+/**
+ * Running persistence of a store
+ */
+export interface ScenePersistence {
+  /** Settles once the saved gifts have been read back (or failed to load) */
+  giftsRestored: Promise<void>;
+  /** Stop saving changes */
+  stop: () => void;
+}
+
+/**
+ * Save the user data whenever it changes
+ * @param store - Store to persist
+ * @returns Restore progress and a function that stops persisting
+ */
+export const persistSceneStore = (store: SceneStore): ScenePersistence => {
+  saveSeed(store.getState().seed);
+  const gifts = persistGifts(store);
+  const unsubscribers = [
+    store.select(selectSeed, saveSeed),
+    persistPhotos(store),
+    gifts.unsubscribe,
+    store.select(selectFormationText, saveFormationText),
+    store.select(selectShapeImage, saveShapeImage),
+  ];
+  return {
+    giftsRestored: gifts.restored,
+    stop: () => unsubscribers.forEach(unsubscribe => unsubscribe()),
+  };
+};
+
+/** The app's scene store, restored from and saved to localStorage and IndexedDB */
+export const sceneStore = createSceneStore(loadPersistedSceneState());
+export const sceneStorePersistence = persistSceneStore(sceneStore);
+
+/**
+ * Subscribe a component to part of the scene state
+ * @param selector - Picks the value the component needs (must return stable references)
+ * @param store - Store to read (defaults to the app's store)
+ * @returns Selected value; the component re-renders only when it changes
+ */
+export const useSceneStore = <T>(selector: (state: SceneState) => T, store: SceneStore = sceneStore): T => {
+  return useSyncExternalStore(store.subscribe, () => selector(store.getState()));
+};
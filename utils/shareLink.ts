@@ -0,0 +1,258 @@
+/**
+ * Shareable tree links
+ * Packs the scene configuration (formation, seed, gifts, text, camera) into the URL hash,
+ * deflated and base64url-encoded, and restores it when the link is opened.
+ * Photos, the image formation's picture and photo / voice gifts are too large for a link and are left out.
+ */
+
+import { AppState, CameraPose, GiftContent } from '../types';
+import { FORMATION_TEXT_MAX_LENGTH } from './formations';
+import { parseGift } from './giftContent';
+import { SEED_MAX } from './random';
+import { SceneState, SceneStore } from './sceneStore';
+
+const SHARE_HASH_KEY = 'tree';
+const SHARE_LINK_VERSION = 2;
+export const SHARE_LINK_WARN_LENGTH = 2000; // Characters; some chat apps and browsers cut longer links
+const MAX_SHARED_GIFTS = 50;
+
+// Payload format markers (first character after "#tree=")
+const FORMAT_DEFLATE = 'z';
+const FORMAT_PLAIN = 'j';
+
+/** Gift kinds small enough for a link */
+export type SharedGift = Extract<GiftContent, { kind: 'card' | 'link' }>;
+
+/**
+ * Scene configuration carried by a link
+ */
+export interface SharedScene {
+  formation: AppState;
+  seed: number;
+  /** Cards and links (empty = built-in wishes) */
+  gifts: SharedGift[];
+  /** Words of the text formation (empty = default greeting) */
+  text: string;
+  /** Viewpoint, if the camera had been moved */
+  camera: CameraPose | null;
+}
+
+/**
+ * Serialized form (short keys keep links compact)
+ */
+interface SharedScenePayload {
+  v: number;
+  f: string;
+  s: number;
+  /** Gifts; untitled cards are plain strings (the only kind in version 1) */
+  g: (string | SharedGift)[];
+  t: string;
+  /** Camera position then target, rounded to centimetres */
+  c?: number[];
+}
+
+/**
+ * Result of building a share link
+ */
+export interface ShareLink {
+  url: string;
+  /** Longer than SHARE_LINK_WARN_LENGTH, so it may not survive every app */
+  tooLong: boolean;
+}
+
+// --- ENCODING ---
+
+const toBase64Url = (bytes: Uint8Array): string => {
+  let binary = '';
+  bytes.forEach(byte => { binary += String.fromCharCode(byte); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string): Uint8Array => {
+  const base64 = text.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '==='.slice((base64.length + 3) % 4));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+};
+
+const pipeBytes = async (bytes: Uint8Array, transform: CompressionStream | DecompressionStream): Promise<Uint8Array> => {
+  const stream = new Blob([bytes as BlobPart]).stream().pipeThrough(transform);
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+const canCompress = () => typeof CompressionStream !== 'undefined' && typeof DecompressionStream !== 'undefined';
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Take the shareable part of the scene
+ * @param state - Scene state
+ * @param camera - Current viewpoint
+ * @returns Configuration to put in a link
+ */
+export const createSharedScene = (state: SceneState, camera: CameraPose | null): SharedScene => ({
+  formation: state.appState,
+  seed: state.seed,
+  gifts: state.userGifts.filter((gift): gift is SharedGift => gift.kind === 'card' || gift.kind === 'link'),
+  text: state.formationText,
+  camera,
+});
+
+/**
+ * Encode a scene configuration for the URL hash
+ * @param scene - Configuration to encode
+ * @returns Hash value without the leading "#"
+ */
+export const encodeSharedScene = async (scene: SharedScene): Promise<string> => {
+  const payload: SharedScenePayload = {
+    v: SHARE_LINK_VERSION,
+    f: scene.formation,
+    s: scene.seed,
+    g: scene.gifts.map(gift => (gift.kind === 'card' && !gift.title ? gift.body : gift)),
+    t: scene.text,
+  };
+  if (scene.camera) payload.c = [...scene.camera.position, ...scene.camera.target].map(round);
+
+  const json = new TextEncoder().encode(JSON.stringify(payload));
+  const encoded = canCompress()
+    ? FORMAT_DEFLATE + toBase64Url(await pipeBytes(json, new CompressionStream('deflate-raw')))
+    : FORMAT_PLAIN + toBase64Url(json);
+  return `${SHARE_HASH_KEY}=${encoded}`;
+};
+
+// --- DECODING ---
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+/**
+ * Check a decoded payload, keeping only what the app can use
+ * @returns Scene configuration, or null if required fields are missing or malformed
+ */
+const parsePayload = (payload: unknown): SharedScene | null => {
+  if (typeof payload !== 'object' || payload === null) return null;
+  const { v, f, s, g, t, c } = payload as Partial<Record<keyof SharedScenePayload, unknown>>;
+
+  // Version 1 links (messages only) still open
+  if (v !== 1 && v !== SHARE_LINK_VERSION) {
+    console.warn(`⚠️ Unsupported tree link version: ${v}`);
+    return null;
+  }
+  if (!Object.values(AppState).includes(f as AppState)) return null;
+  if (!isFiniteNumber(s) || !Number.isInteger(s) || s < 0 || s > SEED_MAX) return null;
+
+  const gifts: SharedGift[] = [];
+  if (Array.isArray(g)) {
+    g.slice(0, MAX_SHARED_GIFTS).forEach((value, index) => {
+      try {
+        const gift = parseGift(value, `g[${index}]`, (_media, path) => {
+          throw new Error(`"${path}": media gifts cannot be shared in links`);
+        });
+        if (gift.kind === 'card' || gift.kind === 'link') gifts.push(gift);
+      } catch (error) {
+        console.warn('⚠️ Skipping invalid gift in tree link:', error);
+      }
+    });
+  }
+  const text = typeof t === 'string' ? t.slice(0, FORMATION_TEXT_MAX_LENGTH) : '';
+  const camera = Array.isArray(c) && c.length === 6 && c.every(isFiniteNumber)
+    ? { position: [c[0], c[1], c[2]], target: [c[3], c[4], c[5]] } as CameraPose
+    : null;
+
+  return { formation: f as AppState, seed: s, gifts, text, camera };
+};
+
+/**
+ * Decode a scene configuration from a URL hash
+ * @param hash - location.hash (with or without the leading "#")
+ * @returns Configuration, or null if the hash holds no valid tree
+ */
+export const decodeSharedScene = async (hash: string): Promise<SharedScene | null> => {
+  const value = new URLSearchParams(hash.replace(/^#/, '')).get(SHARE_HASH_KEY);
+  if (!value) return null;
+
+  try {
+    const format = value[0];
+    let bytes = fromBase64Url(value.slice(1));
+    if (format === FORMAT_DEFLATE) {
+      if (!canCompress()) throw new Error('This browser cannot decompress tree links');
+      bytes = await pipeBytes(bytes, new DecompressionStream('deflate-raw'));
+    } else if (format !== FORMAT_PLAIN) {
+      throw new Error(`Unknown tree link format "${format}"`);
+    }
+    const scene = parsePayload(JSON.parse(new TextDecoder().decode(bytes)));
+    if (!scene) console.warn('⚠️ Ignoring tree link with invalid contents');
+    return scene;
+  } catch (error) {
+    console.error('❌ Failed to read tree link:', error);
+    return null;
+  }
+};
+
+// --- LINKS ---
+
+/**
+ * Build a link that recreates the current tree
+ * @param store - Scene store to snapshot
+ * @returns Absolute URL and whether it is uncomfortably long
+ */
+export const createShareLink = async (store: SceneStore): Promise<ShareLink> => {
+  const pose = store.live.cameraPose.current;
+  const camera: CameraPose = { position: [...pose.position], target: [...pose.target] };
+  const url = new URL(window.location.href);
+  url.hash = await encodeSharedScene(createSharedScene(store.getState(), camera));
+  const link = url.toString();
+  return { url: link, tooLong: link.length > SHARE_LINK_WARN_LENGTH };
+};
+
+/**
+ * Apply a shared configuration to the scene
+ * @param store - Scene store to update
+ * @param scene - Configuration from a link
+ */
+export const applySharedScene = (store: SceneStore, scene: SharedScene): void => {
+  const { actions, live } = store;
+  actions.setSeed(scene.seed);
+  actions.setUserGifts(scene.gifts);
+  actions.setFormationText(scene.text);
+  actions.setAppState(scene.formation);
+  if (scene.camera) live.cameraInput.current.moveTo = scene.camera;
+};
+
+/**
+ * Whether applying a shared configuration would overwrite the user's own gifts or text
+ * The seed is not compared: every visitor has a generated one, so it would always differ.
+ * @param state - Current scene state (with the saved gifts restored)
+ * @param scene - Configuration from a link
+ */
+export const replacesUserData = (state: SceneState, scene: SharedScene): boolean => {
+  const ownGifts = state.userGifts.length > 0 && JSON.stringify(state.userGifts) !== JSON.stringify(scene.gifts);
+  const ownText = state.formationText !== '' && state.formationText !== scene.text;
+  return ownGifts || ownText;
+};
+
+/**
+ * Restore the tree from the link the app was opened with
+ * Waits for the saved gifts to load, and asks before overwriting the user's own gifts or text.
+ * The hash is removed either way, so a reload neither overwrites later changes nor asks again.
+ * @param store - Scene store to update
+ * @param giftsRestored - Settles once the saved gifts are in the store
+ * @returns True if a tree was restored
+ */
+export const applySharedSceneFromUrl = async (store: SceneStore, giftsRestored: Promise<void>): Promise<boolean> => {
+  const scene = await decodeSharedScene(window.location.hash);
+  if (!scene) return false;
+
+  const url = new URL(window.location.href);
+  url.hash = '';
+  window.history.replaceState(window.history.state, '', url);
+
+  await giftsRestored;
+  if (replacesUserData(store.getState(), scene)
+    && !window.confirm('This link replaces your gifts and text with the ones in the shared tree. Continue?')) {
+    console.log('🔗 Shared tree not applied, keeping your own tree');
+    return false;
+  }
+
+  applySharedScene(store, scene);
+  console.log(`🔗 Restored shared tree (seed ${scene.seed}, ${scene.formation})`);
+  return true;
+};
@@ -0,0 +1,77 @@
+/**
+ * Temporal swipe detection
+ * Watches the palm position over a short window and reports quick horizontal swipes.
+ */
+
+import { Gesture, HandLandmark } from '../types';
+import { getPalmCenter } from './gestureRecognizer';
+
+export const SWIPE_WINDOW_MS = 350; // Motion must happen within this window
+const SWIPE_MIN_DISTANCE = 0.22; // Fraction of the image width the palm must travel
+const SWIPE_MAX_VERTICAL_RATIO = 0.6; // Vertical travel allowed relative to horizontal travel
+const SWIPE_COOLDOWN_MS = 700; // Ignore motion right after a swipe (the hand swinging back)
+const SWIPE_MOTION_SPEED = 0.9; // Image widths per second above which the hand counts as moving
+
+/**
+ * Detects swipes from a stream of hand landmarks
+ */
+export interface SwipeDetector {
+  /**
+   * Add the landmarks of the tracked hand
+   * @returns SWIPE_LEFT / SWIPE_RIGHT (from the user's point of view) when a swipe completes, otherwise null
+   */
+  push: (landmarks: HandLandmark[] | undefined, timestamp: number) => Gesture | null;
+  /** True while the hand moves fast or a swipe just fired (poses are unreliable then) */
+  isMoving: () => boolean;
+  reset: () => void;
+}
+
+/**
+ * Create a swipe detector
+ * @returns Detector with an empty motion history
+ */
+export const createSwipeDetector = (): SwipeDetector => {
+  let samples: { x: number; y: number; t: number }[] = [];
+  let cooldownUntil = 0;
+  let moving = false;
+
+  const reset = () => {
+    samples = [];
+    moving = false;
+  };
+
+  return {
+    push: (landmarks, timestamp) => {
+      if (!landmarks) {
+        reset();
+        return null;
+      }
+
+      const palm = getPalmCenter(landmarks);
+      const previous = samples[samples.length - 1];
+      samples.push({ ...palm, t: timestamp });
+      samples = samples.filter(s => timestamp - s.t <= SWIPE_WINDOW_MS);
+
+      const dt = previous ? (timestamp - previous.t) / 1000 : 0;
+      const speed = dt > 0 ? Math.abs(palm.x - previous.x) / dt : 0;
+      const coolingDown = timestamp < cooldownUntil;
+      moving = coolingDown || speed > SWIPE_MOTION_SPEED;
+      if (coolingDown) return null;
+
+      const first = samples[0];
+      const dx = palm.x - first.x;
+      const dy = palm.y - first.y;
+      if (Math.abs(dx) < SWIPE_MIN_DISTANCE || Math.abs(dy) > Math.abs(dx) * SWIPE_MAX_VERTICAL_RATIO) {
+        return null;
+      }
+
+      cooldownUntil = timestamp + SWIPE_COOLDOWN_MS;
+      samples = [];
+      moving = true;
+      // Webcam image is not mirrored: moving towards larger x is the user's left
+      return dx > 0 ? Gesture.SWIPE_LEFT : Gesture.SWIPE_RIGHT;
+    },
+    isMoving: () => moving,
+    reset,
+  };
+};
@@ -0,0 +1,330 @@
+/**
+ * Tree documents
+ * Exports everything that makes up a tree (gifts, photos, theme and settings) as one versioned
+ * JSON file and imports it again, so a tree can be moved between devices.
+ */
+
+import { AppState, BindingMap, ShapeImage, GiftContent } from '../types';
+import { SceneState, SceneStore } from './sceneStore';
+import { parseBindings } from './actionBindings';
+import { GestureThresholds, DEFAULT_GESTURE_THRESHOLDS } from './gestureRecognizer';
+import { FORMATION_TEXT_MAX_LENGTH } from './formations';
+import { DEFAULT_IMAGE_SHAPE_SETTINGS } from './imageShape';
+import { SEED_MAX } from './random';
+import { PHOTO_CAPTION_MAX_LENGTH, isPhotoDate } from './photoGallery';
+import { FRAMES_COUNT } from '../constants';
+import { blobToDataUrl, dataUrlToBlob, createUserPhoto } from './photoStorage';
+import { createGiftMedia } from './giftStorage';
+import { convertGiftMedia, parseGift } from './giftContent';
+
+const TREE_DOCUMENT_FORMAT = 'celestial-tree';
+export const TREE_DOCUMENT_VERSION = 3;
+
+/**
+ * How the tree looks
+ */
+export interface TreeTheme {
+  formation: AppState;
+  seed: number;
+  /** Words of the text formation (empty = default greeting) */
+  text: string;
+  /** Picture of the image formation, with its cut-out settings */
+  shapeImage: ShapeImage | null;
+}
+
+/**
+ * How the tree is controlled
+ */
+export interface TreeSettings {
+  bindings: BindingMap;
+  /** Calibrated gesture thresholds, null for the defaults */
+  gestureThresholds: GestureThresholds | null;
+  analogSteer: boolean;
+  landmarkOverlay: boolean;
+}
+
+/**
+ * Frame photo with its gallery details
+ */
+export interface TreePhoto {
+  /** Image as a data URL */
+  image: string;
+  caption: string;
+  /** YYYY-MM-DD, or empty */
+  date: string;
+  /** Pinned frame index, or null */
+  frame: number | null;
+}
+
+/**
+ * Gift with its photo or voice message as a data URL
+ */
+export type TreeGift = GiftContent<string>;
+
+/**
+ * Exported tree (current format version)
+ */
+export interface TreeDocument {
+  format: typeof TREE_DOCUMENT_FORMAT;
+  version: typeof TREE_DOCUMENT_VERSION;
+  /** ISO timestamp of the export */
+  exportedAt: string;
+  theme: TreeTheme;
+  /** Gifts (empty = built-in wishes) */
+  gifts: TreeGift[];
+  /** Frame photos in gallery order */
+  photos: TreePhoto[];
+  settings: TreeSettings;
+}
+
+/**
+ * Upgrades a document from one format version to the next
+ * Register one per version bump, keyed by the version it upgrades from,
+ * so files exported by any older release keep importing.
+ */
+type TreeDocumentMigration = (document: Record<string, unknown>) => Record<string, unknown>;
+
+const MIGRATIONS: Record<number, TreeDocumentMigration> = {
+  // 1 → 2: photos gained captions, dates and pinned frames
+  1: (document) => ({
+    ...document,
+    photos: Array.isArray(document.photos)
+      ? document.photos.map(image => ({ image, caption: '', date: '', frame: null }))
+      : document.photos,
+  }),
+  // 2 → 3: gifts became typed contents; messages turn into untitled cards
+  2: (document) => ({
+    ...document,
+    gifts: Array.isArray(document.gifts)
+      ? document.gifts.map(body => (typeof body === 'string' ? { kind: 'card', title: '', body } : body))
+      : document.gifts,
+  }),
+};
+
+// --- EXPORT ---
+
+/**
+ * Bundle the current tree
+ * @param state - Scene state (gifts, photos and theme)
+ * @param settings - Control settings
+ * @returns Document ready to download (photos are read into data URLs)
+ */
+export const createTreeDocument = async (state: SceneState, settings: TreeSettings): Promise<TreeDocument> => ({
+  format: TREE_DOCUMENT_FORMAT,
+  version: TREE_DOCUMENT_VERSION,
+  exportedAt: new Date().toISOString(),
+  theme: {
+    formation: state.appState,
+    seed: state.seed,
+    text: state.formationText,
+    shapeImage: state.shapeImage,
+  },
+  gifts: await Promise.all(state.userGifts.map(gift => convertGiftMedia(gift, media => blobToDataUrl(media.blob)))),
+  photos: await Promise.all(state.userPhotos.map(async (photo) => ({
+    image: await blobToDataUrl(photo.blob),
+    caption: photo.caption,
+    date: photo.date,
+    frame: photo.frame,
+  }))),
+  settings,
+});
+
+/**
+ * Save a document as a JSON file
+ * @param document - Tree to save
+ */
+export const downloadTreeDocument = (document: TreeDocument): void => {
+  const blob = new Blob([JSON.stringify(document, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = window.document.createElement('a');
+  link.href = url;
+  link.download = `celestial-tree-${document.exportedAt.slice(0, 10)}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// --- IMPORT ---
+
+const isObject = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+const isImageDataUrl = (value: unknown): value is string => {
+  return typeof value === 'string' && value.startsWith('data:image/');
+};
+
+const expectObject = (value: unknown, path: string): Record<string, unknown> => {
+  if (!isObject(value)) throw new Error(`"${path}" must be an object`);
+  return value;
+};
+
+const expectBoolean = (value: unknown, path: string): boolean => {
+  if (typeof value !== 'boolean') throw new Error(`"${path}" must be true or false`);
+  return value;
+};
+
+const parseTheme = (value: unknown): TreeTheme => {
+  const theme = expectObject(value, 'theme');
+
+  if (!Object.values(AppState).includes(theme.formation as AppState)) {
+    throw new Error(`"theme.formation" must be one of ${Object.values(AppState).join(', ')}`);
+  }
+  const { seed } = theme;
+  if (typeof seed !== 'number' || !Number.isInteger(seed) || seed < 0 || seed > SEED_MAX) {
+    throw new Error(`"theme.seed" must be a whole number from 0 to ${SEED_MAX}`);
+  }
+  if (typeof theme.text !== 'string' || theme.text.length > FORMATION_TEXT_MAX_LENGTH) {
+    throw new Error(`"theme.text" must be text of at most ${FORMATION_TEXT_MAX_LENGTH} characters`);
+  }
+
+  let shapeImage: ShapeImage | null = null;
+  if (theme.shapeImage !== null && theme.shapeImage !== undefined) {
+    const image = expectObject(theme.shapeImage, 'theme.shapeImage');
+    if (!isImageDataUrl(image.url)) throw new Error('"theme.shapeImage.url" must be an image data URL');
+    const settings = expectObject(image.settings ?? {}, 'theme.shapeImage.settings');
+    const { threshold = DEFAULT_IMAGE_SHAPE_SETTINGS.threshold, mode = DEFAULT_IMAGE_SHAPE_SETTINGS.mode, invert = DEFAULT_IMAGE_SHAPE_SETTINGS.invert } = settings;
+    if (typeof threshold !== 'number' || threshold < 0 || threshold > 1) {
+      throw new Error('"theme.shapeImage.settings.threshold" must be a number from 0 to 1');
+    }
+    if (mode !== 'silhouette' && mode !== 'outline') {
+      throw new Error('"theme.shapeImage.settings.mode" must be "silhouette" or "outline"');
+    }
+    shapeImage = { url: image.url, settings: { threshold, mode, invert: expectBoolean(invert, 'theme.shapeImage.settings.invert') } };
+  }
+
+  return { formation: theme.formation as AppState, seed, text: theme.text, shapeImage };
+};
+
+const parsePhoto = (value: unknown, index: number): TreePhoto => {
+  const path = `photos[${index}]`;
+  const photo = expectObject(value, path);
+  if (!isImageDataUrl(photo.image)) throw new Error(`"${path}.image" is not an image data URL`);
+  const { caption = '', date = '', frame = null } = photo;
+  if (typeof caption !== 'string' || caption.length > PHOTO_CAPTION_MAX_LENGTH) {
+    throw new Error(`"${path}.caption" must be text of at most ${PHOTO_CAPTION_MAX_LENGTH} characters`);
+  }
+  if (typeof date !== 'string' || (date !== '' && !isPhotoDate(date))) {
+    throw new Error(`"${path}.date" must be a YYYY-MM-DD date or empty`);
+  }
+  if (frame !== null && (typeof frame !== 'number' || !Number.isInteger(frame) || frame < 0 || frame >= FRAMES_COUNT)) {
+    throw new Error(`"${path}.frame" must be a frame number from 0 to ${FRAMES_COUNT - 1}, or null`);
+  }
+  return { image: photo.image, caption, date, frame: frame as number | null };
+};
+
+const parseTreeGift = (value: unknown, index: number): TreeGift => {
+  const gift = parseGift(value, `gifts[${index}]`, (media, path) => {
+    if (typeof media !== 'string' || !media.startsWith('data:')) throw new Error(`"${path}" must be a data URL`);
+    return media;
+  });
+  if (gift.kind === 'photo' && !isImageDataUrl(gift.media)) {
+    throw new Error(`"gifts[${index}].media" is not an image data URL`);
+  }
+  if (gift.kind === 'audio' && !gift.media.startsWith('data:audio/')) {
+    throw new Error(`"gifts[${index}].media" is not an audio data URL`);
+  }
+  return gift;
+};
+
+const parseSettings = (value: unknown): TreeSettings => {
+  const settings = expectObject(value, 'settings');
+
+  let bindings: BindingMap;
+  try {
+    bindings = parseBindings(settings.bindings);
+  } catch (error) {
+    throw new Error(`"settings.bindings": ${error instanceof Error ? error.message : error}`);
+  }
+
+  let gestureThresholds: GestureThresholds | null = null;
+  if (settings.gestureThresholds !== null && settings.gestureThresholds !== undefined) {
+    const thresholds = expectObject(settings.gestureThresholds, 'settings.gestureThresholds');
+    gestureThresholds = { ...DEFAULT_GESTURE_THRESHOLDS };
+    for (const key of Object.keys(DEFAULT_GESTURE_THRESHOLDS) as (keyof GestureThresholds)[]) {
+      const threshold = thresholds[key];
+      if (threshold === undefined) continue;
+      if (typeof threshold !== 'number' || !Number.isFinite(threshold) || threshold <= 0) {
+        throw new Error(`"settings.gestureThresholds.${key}" must be a positive number`);
+      }
+      gestureThresholds[key] = threshold;
+    }
+  }
+
+  return {
+    bindings,
+    gestureThresholds,
+    analogSteer: expectBoolean(settings.analogSteer, 'settings.analogSteer'),
+    landmarkOverlay: expectBoolean(settings.landmarkOverlay, 'settings.landmarkOverlay'),
+  };
+};
+
+/**
+ * Parse and validate a tree file, upgrading older format versions
+ * @param text - JSON file contents
+ * @returns Tree document in the current format
+ * @throws Error naming the first problem found
+ */
+export const parseTreeDocument = (text: string): TreeDocument => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+  if (!isObject(data) || data.format !== TREE_DOCUMENT_FORMAT) {
+    throw new Error('Not a tree file (exported with "Export Tree")');
+  }
+
+  let document = data;
+  let version = document.version;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    throw new Error(`Invalid format version: ${String(version)}`);
+  }
+  if (version > TREE_DOCUMENT_VERSION) {
+    throw new Error(`This tree was exported by a newer version of the app (format ${version}); this one reads up to format ${TREE_DOCUMENT_VERSION}`);
+  }
+  while (version < TREE_DOCUMENT_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) throw new Error(`Format ${version} can no longer be imported`);
+    document = migrate(document);
+    version++;
+    console.log(`🔄 Upgraded tree file to format ${version}`);
+  }
+
+  const { gifts, photos } = document;
+  if (!Array.isArray(gifts)) throw new Error('"gifts" must be a list of gifts');
+  if (!Array.isArray(photos)) throw new Error('"photos" must be a list of images');
+
+  return {
+    format: TREE_DOCUMENT_FORMAT,
+    version: TREE_DOCUMENT_VERSION,
+    exportedAt: typeof document.exportedAt === 'string' ? document.exportedAt : '',
+    theme: parseTheme(document.theme),
+    gifts: gifts.map(parseTreeGift),
+    photos: photos.map(parsePhoto),
+    settings: parseSettings(document.settings),
+  };
+};
+
+/**
+ * Load a tree's gifts, photos and theme into the scene
+ * Control settings live in the UI and are applied by the caller.
+ * Photos and gift media are all decoded before any object URL is created, so a broken
+ * file leaves the scene untouched and leaks nothing.
+ * @param store - Scene store to update
+ * @param document - Validated tree document
+ */
+export const applyTreeDocument = async (store: SceneStore, document: TreeDocument): Promise<void> => {
+  const { actions } = store;
+  const photoBlobs = await Promise.all(document.photos.map(({ image }) => dataUrlToBlob(image)));
+  const giftBlobs = await Promise.all(document.gifts.map(gift => convertGiftMedia(gift, dataUrlToBlob)));
+
+  const photos = document.photos.map(({ image, ...details }, index) => createUserPhoto(photoBlobs[index], details));
+  const gifts = await Promise.all(giftBlobs.map(gift => convertGiftMedia(gift, blob => createGiftMedia(blob))));
+  actions.setSeed(document.theme.seed);
+  actions.setFormationText(document.theme.text);
+  actions.setShapeImage(document.theme.shapeImage);
+  actions.setUserGifts(gifts);
+  actions.setUserPhotos(photos);
+  actions.setAppState(document.theme.formation);
+};
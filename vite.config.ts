@@ -1,7 +1,12 @@
+import fs from 'fs';
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
 
+// Installed MediaPipe version, which names the self-hosted asset folder (same lookup as scripts/fetch-mediapipe-assets.js)
+const mediapipePackage = path.resolve(__dirname, 'node_modules/@mediapipe/tasks-vision/package.json');
+const { version: mediapipeVersion } = JSON.parse(fs.readFileSync(mediapipePackage, 'utf8'));
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
@@ -12,7 +17,12 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.MEDIAPIPE_VERSION': JSON.stringify(mediapipeVersion),
+        // Optional overrides for where MediaPipe assets are loaded from (see utils/mediapipeAssets.ts)
+        'process.env.MEDIAPIPE_WASM_URL': JSON.stringify(env.MEDIAPIPE_WASM_URL || ''),
+        'process.env.HAND_LANDMARKER_MODEL_URL': JSON.stringify(env.HAND_LANDMARKER_MODEL_URL || ''),
+        'process.env.MEDIAPIPE_CDN_FALLBACK': JSON.stringify(env.MEDIAPIPE_CDN_FALLBACK || 'true')
       },
       resolve: {
         alias: {
@@ -0,0 +1,68 @@
+/**
+ * Hand tracking worker
+ * Runs MediaPipe hand detection off the main thread. Receives video frames as
+ * ImageBitmaps and posts back the detected landmarks.
+ */
+
+import { HandLandmarker } from '@mediapipe/tasks-vision';
+import { HAND_LANDMARKER_OPTIONS, HandTrackerRequest, HandTrackerResponse, toHandFrame } from '../utils/handTrackerProtocol';
+import { createHandLandmarker, WasmFileset } from '../utils/mediapipeAssets';
+
+// Minimal typing of the dedicated worker scope (the project compiles against the DOM lib)
+interface WorkerScope {
+  onmessage: ((e: MessageEvent<HandTrackerRequest>) => void) | null;
+  postMessage: (message: HandTrackerResponse) => void;
+  importScripts: (...urls: string[]) => void;
+}
+const scope = self as unknown as WorkerScope;
+
+let landmarker: HandLandmarker | null = null;
+
+// MediaPipe loads its WASM glue with importScripts(), which module workers do not support.
+// We fetch and evaluate the loader script ourselves, then let importScripts() succeed for it.
+const preloadedScripts = new Set<string>();
+scope.importScripts = (...urls: string[]) => {
+  const missing = urls.filter(url => !preloadedScripts.has(url));
+  if (missing.length > 0) throw new Error(`Script was not preloaded: ${missing.join(', ')}`);
+};
+
+const preloadLoaderScript = async (fileset: WasmFileset) => {
+  const url = fileset.wasmLoaderPath;
+  if (preloadedScripts.has(url)) return;
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`Failed to fetch ${url}: HTTP ${response.status}`);
+  // Indirect eval runs in global scope so the loader can define its module factory
+  (0, eval)(await response.text());
+  preloadedScripts.add(url);
+};
+
+const post = (message: HandTrackerResponse) => scope.postMessage(message);
+
+scope.onmessage = async (e) => {
+  const request = e.data;
+  switch (request.type) {
+    case 'init':
+      try {
+        landmarker = await createHandLandmarker(HAND_LANDMARKER_OPTIONS, preloadLoaderScript);
+        post({ type: 'ready' });
+      } catch (error) {
+        post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+      }
+      break;
+    case 'detect':
+      try {
+        if (!landmarker) throw new Error('Hand landmarker not initialized');
+        const result = landmarker.detectForVideo(request.bitmap, request.timestamp);
+        post({ type: 'result', frame: toHandFrame(result), timestamp: request.timestamp });
+      } catch (error) {
+        post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+      } finally {
+        request.bitmap.close();
+      }
+      break;
+    case 'close':
+      landmarker?.close();
+      landmarker = null;
+      break;
+  }
+};